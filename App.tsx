@@ -1,17 +1,75 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import StoryInput from './components/StoryInput';
-import BookPreview from './components/BookPreview';
-import { generateStoryboard, generatePageImage } from './services/geminiService';
-import { generatePDF } from './utils/pdfGenerator';
-import { StoryboardData, VisualComplexity, Gender } from './types';
+import BookPreview, { PageEdit } from './components/BookPreview';
+import { EbookFormat } from './components/ExportPanel';
+import StoryboardEditor from './components/StoryboardEditor';
+import CharacterSheetReview from './components/CharacterSheetReview';
+import { getAIProvider } from './services/aiProvider';
+import { generatePDF, PdfOptions } from './utils/pdfGenerator';
+import { PdfFontError } from './utils/pdfFonts';
+import { generateEpub } from './utils/epubGenerator';
+import { generateHtml } from './utils/htmlGenerator';
+import { StoryboardData, StorySummary, StoryPage, HeroProfile, GenerationFailure, GenerationSettings, GenerationChoices } from './types';
 import { Sparkles, Github } from 'lucide-react';
-import { getHistoryFromDB, saveStoryToDB } from './services/storageService';
+import {
+  getHistoryFromDB,
+  getStoryFromDB,
+  saveStoryToDB,
+  deleteStoryFromDB,
+  updateStoryMetaInDB,
+  toStorySummary,
+  restoreDatabaseSnapshot,
+  getRecordingsFromDB,
+  RestoreMode
+} from './services/storageService';
+import {
+  getCast,
+  getPageCast,
+  updateCharacter,
+  collectPageReferences,
+  collectPhotoReferences,
+  applyPageImage,
+  applyHeroProfile,
+  buildCharacterSheetPrompt
+} from './utils/cast';
+import { runQueue, isAbortError, QueueProgress } from './utils/generationQueue';
+import { selectImageVersion } from './utils/imageHistory';
+import { createDraftCopy, createStoryUid } from './utils/library';
+import { buildImageStyle, getImageModel, getStoryboardModel } from './utils/generationSettings';
+import { conformToTextOptions, retranslate } from './utils/storyGuidelines';
+import { useI18n, UI_LANGUAGES } from './utils/i18n';
+import { downloadStoryBundle, readStoryBundle, BundleError, describeBundleError } from './services/storyBundle';
+import { downloadLibraryBackup, restoreSettings, LibraryBackup } from './services/libraryBackup';
+import { classifyError, describeFailure } from './services/generationErrors';
+
+const provider = getAIProvider();
+const IMAGE_CONCURRENCY = Number(process.env.IMAGE_CONCURRENCY) || 3;
+
+const STOPPED: GenerationFailure = { kind: 'cancelled', message: "Stopped before it was finished" };
+
+/**
+ * Clears "in progress" flags left behind by generations that were cancelled
+ * (or by a tab that closed mid-way), so their pages can be retried.
+ */
+const settleInterruptedWork = (story: StoryboardData): StoryboardData => ({
+  ...story,
+  characters: story.characters?.map(c => c.anchor_is_generating
+    ? { ...c, anchor_is_generating: false, anchor_error: c.anchor_image_url ? undefined : STOPPED }
+    : c),
+  pages: story.pages.map(p => p.is_generating
+    ? { ...p, is_generating: false, error: p.image_url ? undefined : STOPPED }
+    : p)
+});
 
 const App: React.FC = () => {
+  const { t, language, setLanguage } = useI18n();
   const [story, setStory] = useState<StoryboardData | null>(null);
   const [loading, setLoading] = useState(false);
-  const [complexity, setComplexity] = useState<VisualComplexity>(VisualComplexity.BALANCED);
-  const [history, setHistory] = useState<StoryboardData[]>([]);
+  const [history, setHistory] = useState<StorySummary[]>([]);
+  const [progress, setProgress] = useState<QueueProgress | null>(null);
+
+  // One controller per open story; aborting it cancels all of that story's pending generations
+  const sessionRef = useRef(new AbortController());
 
   // Load history from IndexedDB on mount
   useEffect(() => {
@@ -26,107 +84,228 @@ const App: React.FC = () => {
   useEffect(() => {
     if (story) {
       saveStoryToDB(story).catch(e => console.warn("Auto-save failed", e));
+      const summary = toStorySummary(story);
       setHistory(prev => {
         const exists = prev.some(h => h.uid === story.uid);
         if (exists) {
-          return prev.map(h => h.uid === story.uid ? story : h);
+          return prev.map(h => h.uid === story.uid ? summary : h);
         }
-        return [story, ...prev];
+        return [summary, ...prev];
       });
     }
   }, [story]);
 
   // Phase 1: Generate Storyboard Structure
-  const handleGenerateStory = async (text: string, selectedComplexity: VisualComplexity, gender: Gender) => {
+  const handleGenerateStory = async (text: string, choices: GenerationChoices, hero?: HeroProfile) => {
+    resetSession();
     setLoading(true);
-    setComplexity(selectedComplexity);
     try {
-      const storyboard = await generateStoryboard(text, selectedComplexity, gender);
-      
-      const pagesWithState = storyboard.pages.map(p => ({
-        ...p,
-        is_generating: true,
-        image_url: undefined,
-        error: undefined
-      }));
-      
-      const fullStory = { ...storyboard, pages: pagesWithState };
-      setStory(fullStory);
-      setLoading(false);
+      const storyboard = await provider.generateStoryboard(text, choices, hero, {
+        signal: sessionRef.current.signal,
+        model: provider.models.storyboard
+      });
+      const settings: GenerationSettings = {
+        ...choices,
+        provider: provider.id,
+        storyboard_model: provider.models.storyboard,
+        image_model: provider.models.image,
+        source_text: text
+      };
+
+      // Models don't always respect the word and page limits; fix the pages that break them
+      const conformed = await conformToTextOptions(
+        { ...applyHeroProfile(storyboard, hero), settings },
+        provider,
+        { signal: sessionRef.current.signal, model: provider.models.storyboard, concurrency: IMAGE_CONCURRENCY }
+      );
 
-      // Phase 2: Kick off image generation sequentially
-      generateImagesSequence(fullStory, selectedComplexity);
+      // Hand the storyboard to the review step before any image is requested
+      setStory({ ...conformed, phase: 'storyboard' });
+      setLoading(false);
 
     } catch (error) {
-      console.error("Failed to generate story", error);
-      alert("Something went wrong generating the story structure. Please try again.");
       setLoading(false);
+      const failure = classifyError(error).toFailure();
+      if (failure.kind === 'cancelled') return;
+      console.error("Failed to generate story", error);
+      alert(t('app.failure', describeFailure(failure, t)));
     }
   };
 
-  // Helper to process images one by one with MULTI-REFERENCE + GLOBAL PROMPT logic
-  const generateImagesSequence = async (initialStory: StoryboardData, comp: VisualComplexity) => {
-    
-    // Local cache of generated images to use as references immediately
-    const generatedImagesMap = new Map<number, string>();
-    const firstPageId = initialStory.pages[0]?.id;
+  // Fixes guideline problems on one page of the storyboard
+  const handleRewritePage = async (pageId: number, problems: string[]) => {
+    if (!story) return;
+    const page = story.pages.find(p => p.id === pageId);
+    if (!page) return;
 
-    for (const page of initialStory.pages) {
-      try {
-        // Build Reference Array
-        const refs: string[] = [];
+    try {
+      const options = { signal: sessionRef.current.signal, model: getStoryboardModel(story, provider.id) };
+      const text = await provider.rewritePageText(page.text, problems, options);
+      const text_secondary = await retranslate(page, text, story.settings?.secondary_language, provider, options);
+      setStory(prev => {
+        if (!prev || prev.uid !== story.uid) return prev;
+        return { ...prev, pages: prev.pages.map(p => p.id === pageId ? { ...p, text, text_secondary } : p) };
+      });
+    } catch (error) {
+      const failure = classifyError(error).toFailure();
+      if (failure.kind === 'cancelled') return;
+      alert(t('app.failure', describeFailure(failure, t)));
+    }
+  };
 
-        // 1. ANCHOR: Always include Page 1 if it exists and we are not currently generating Page 1
-        if (firstPageId !== undefined && generatedImagesMap.has(firstPageId) && page.id !== firstPageId) {
-            refs.push(generatedImagesMap.get(firstPageId)!);
-        }
+  // Phase 2: Storyboard approved, paint a reference sheet for every character
+  const handleConfirmStoryboard = () => {
+    if (!story) return;
 
-        // 2. CONTEXT: Include the immediate previous page if it exists
-        const prevPageId = page.id - 1;
-        if (generatedImagesMap.has(prevPageId) && prevPageId !== firstPageId) {
-             refs.push(generatedImagesMap.get(prevPageId)!);
-        }
+    // Renumber so page ids follow the reviewed order
+    const pages = story.pages.map((p, index) => ({ ...p, id: index + 1 }));
+    const characters = getCast(story).map(c => ({
+      ...c,
+      anchor_image_url: undefined,
+      anchor_is_generating: true,
+      anchor_error: undefined
+    }));
+
+    const sheetStory: StoryboardData = { ...story, pages, characters, phase: 'character_sheets' };
+    setStory(sheetStory);
+    generateCharacterSheets(sheetStory);
+  };
+
+  const generateCharacterSheets = async (sheetStory: StoryboardData) => {
+    const signal = sessionRef.current.signal;
+    await runQueue(
+      getCast(sheetStory),
+      character => paintCharacterSheet(sheetStory, character.id, signal),
+      { concurrency: IMAGE_CONCURRENCY, signal }
+    );
+  };
+
+  // Rejects on failure (after flagging the character) so queues can count it
+  const paintCharacterSheet = async (source: StoryboardData, characterId: string, signal: AbortSignal) => {
+    const character = getCast(source).find(c => c.id === characterId);
+    if (!character) return;
+
+    try {
+      const imageUrl = await provider.generatePageImage(
+          buildCharacterSheetPrompt(character),
+          { ...buildImageStyle(source, [character]), blueprint: character.blueprint },
+          collectPhotoReferences(character),
+          { signal, model: getImageModel(source, provider.id) }
+      );
+
+      setStory(prev => {
+        if (!prev || prev.uid !== source.uid) return prev;
+        return updateCharacter(prev, characterId, { anchor_image_url: imageUrl, anchor_is_generating: false });
+      });
+
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      console.error(`Failed to generate character sheet for ${character.name}`, err);
+      setStory(prev => {
+        if (!prev || prev.uid !== source.uid) return prev;
+        return updateCharacter(prev, characterId, { anchor_is_generating: false, anchor_error: classifyError(err).toFailure() });
+      });
+      throw err;
+    }
+  };
+
+  const handleRegenerateSheet = (characterId: string) => {
+    if (!story) return;
+    setStory(prev => prev && updateCharacter(prev, characterId, { anchor_is_generating: true, anchor_error: undefined }));
+    // The failure is already shown on the sheet
+    paintCharacterSheet(story, characterId, sessionRef.current.signal).catch(() => undefined);
+  };
+
+  // Phase 3: Character sheets approved, kick off page generation
+  const handleApproveSheets = () => {
+    if (!story) return;
 
-        const imageUrl = await generatePageImage(
+    const pagesWithState = story.pages.map(p => ({
+      ...p,
+      is_generating: true,
+      image_url: undefined,
+      error: undefined
+    }));
+
+    const fullStory: StoryboardData = { ...story, pages: pagesWithState, phase: 'book' };
+    setStory(fullStory);
+    generateImagesQueue(fullStory);
+  };
+
+  // Paints page 1 first, then the remaining pages in parallel, using PER-CHARACTER REFERENCE + GLOBAL PROMPT logic
+  const generateImagesQueue = async (initialStory: StoryboardData) => {
+    const signal = sessionRef.current.signal;
+
+    // Local working copy so freshly painted pages and character anchors are usable as references immediately
+    let working = initialStory;
+
+    const paintPage = async (page: StoryPage) => {
+      try {
+        const imageUrl = await provider.generatePageImage(
             page.action_description, 
-            {
-              globalPrompt: initialStory.visual_style_guide,
-              blueprint: initialStory.character_blueprint,
-              complexity: comp
-            },
-            refs
+            buildImageStyle(working, getPageCast(working, page)),
+            collectPageReferences(working, page),
+            { signal, model: getImageModel(working, provider.id) }
         );
         
         // Store for future references
-        generatedImagesMap.set(page.id, imageUrl);
+        working = applyPageImage(working, page.id, imageUrl, page.action_description);
 
         setStory(prev => {
           if (!prev || prev.uid !== initialStory.uid) return prev;
-          return {
-            ...prev,
-            pages: prev.pages.map(p => 
-              p.id === page.id ? { ...p, image_url: imageUrl, is_generating: false } : p
-            )
-          };
+          return applyPageImage(prev, page.id, imageUrl, page.action_description);
         });
 
       } catch (err) {
+        if (isAbortError(err)) throw err;
         console.error(`Failed to generate image for page ${page.id}`, err);
         setStory(prev => {
           if (!prev || prev.uid !== initialStory.uid) return prev;
           return {
             ...prev,
             pages: prev.pages.map(p => 
-              p.id === page.id ? { ...p, is_generating: false, error: "Failed to load image" } : p
+              p.id === page.id ? { ...p, is_generating: false, error: classifyError(err).toFailure() } : p
             )
           };
         });
+        throw err;
       }
-    }
+    };
+
+    await runQueue(initialStory.pages, paintPage, {
+      concurrency: IMAGE_CONCURRENCY,
+      leading: 1,
+      signal,
+      onProgress: p => {
+        if (!signal.aborted) setProgress(p);
+      }
+    });
+  };
+
+  const handleUpdatePage = (pageId: number, edit: PageEdit) => {
+    setStory(prev => {
+      if (!prev) return null;
+      return {
+        ...prev,
+        pages: prev.pages.map(p => p.id === pageId ? { ...p, ...edit } : p)
+      };
+    });
+  };
+
+  const handleSelectImageVersion = (pageId: number, imageUrl: string) => {
+    setStory(prev => {
+      if (!prev) return null;
+      return {
+        ...prev,
+        pages: prev.pages.map(p => p.id === pageId ? selectImageVersion(p, imageUrl) : p)
+      };
+    });
   };
 
-  const handleRegenerateImage = async (pageId: number) => {
+  // `edit` carries changes saved in the same click, which are not yet visible in `story`
+  const handleRegenerateImage = async (pageId: number, edit?: PageEdit) => {
     if (!story) return;
+    const signal = sessionRef.current.signal;
 
     setStory(prev => {
         if (!prev) return null;
@@ -136,67 +315,175 @@ const App: React.FC = () => {
         }
     });
 
-    const page = story.pages.find(p => p.id === pageId);
-    if (!page) return;
-
-    // Collect references from existing state
-    const refs: string[] = [];
-    const firstPage = story.pages[0];
-
-    // 1. Anchor Reference
-    if (firstPage && firstPage.image_url && firstPage.id !== pageId) {
-        refs.push(firstPage.image_url);
-    }
-
-    // 2. Previous Page Reference
-    const prevPage = story.pages.find(p => p.id === pageId - 1);
-    if (prevPage && prevPage.image_url && prevPage.id !== firstPage?.id) {
-        refs.push(prevPage.image_url);
-    }
+    const storedPage = story.pages.find(p => p.id === pageId);
+    if (!storedPage) return;
+    const page = { ...storedPage, ...edit };
 
     try {
-      const imageUrl = await generatePageImage(
+      const imageUrl = await provider.generatePageImage(
           page.action_description, 
-          {
-            globalPrompt: story.visual_style_guide,
-            blueprint: story.character_blueprint,
-            complexity: complexity
-          },
-          refs
+          buildImageStyle(story, getPageCast(story, page)),
+          collectPageReferences(story, page),
+          { signal, model: getImageModel(story, provider.id) }
       );
       
       setStory(prev => {
-          if (!prev) return null;
-          return {
-            ...prev,
-            pages: prev.pages.map(p => p.id === pageId ? { ...p, image_url: imageUrl, is_generating: false } : p)
-          };
+          if (!prev || prev.uid !== story.uid) return prev;
+          return applyPageImage(prev, pageId, imageUrl, page.action_description);
       });
 
     } catch (error) {
+       if (isAbortError(error)) return;
        setStory(prev => {
-        if (!prev) return null;
+        if (!prev || prev.uid !== story.uid) return prev;
         return {
           ...prev,
-          pages: prev.pages.map(p => p.id === pageId ? { ...p, is_generating: false, error: "Retry failed" } : p)
+          pages: prev.pages.map(p => p.id === pageId ? { ...p, is_generating: false, error: classifyError(error).toFailure() } : p)
         };
       });
     }
   };
 
-  const handleDownloadPDF = () => {
-    if (story) {
-      generatePDF(story);
+  // Cancels every request that belongs to the story on screen and starts a fresh session
+  const resetSession = () => {
+    sessionRef.current.abort();
+    sessionRef.current = new AbortController();
+    setProgress(null);
+  };
+
+  const handleStopGeneration = () => {
+    resetSession();
+    setStory(prev => prev && settleInterruptedWork(prev));
+  };
+
+  const handleReset = () => {
+    resetSession();
+    setStory(null);
+  };
+
+  const handleDownloadPDF = async (options: PdfOptions) => {
+    if (!story) return;
+    try {
+      await generatePDF(story, options);
+    } catch (error) {
+      console.error("Failed to create PDF", error);
+      alert(error instanceof PdfFontError ? t('app.pdfFontError', { font: error.font }) : t('app.pdfError'));
+    }
+  };
+
+  const handleExportEbook = async (format: EbookFormat, includeRecordings: boolean) => {
+    if (!story) return;
+    try {
+      const recordings = includeRecordings ? await getRecordingsFromDB(story.uid) : undefined;
+      if (format === 'epub') {
+        const leftOut = await generateEpub(story, recordings);
+        if (leftOut > 0) alert(t('export.recordingsLeftOut', { count: leftOut }));
+      } else {
+        await generateHtml(story, recordings);
+      }
+    } catch (error) {
+      console.error("Failed to create e-book", error);
+      alert(t('export.ebookError'));
+    }
+  };
+
+  // Library management (stories listed on the home screen)
+  const updateLibraryStory = (uid: string, patch: Partial<Pick<StoryboardData, 'title' | 'tags'>>) => {
+    updateStoryMetaInDB(uid, patch).catch(e => console.warn("Failed to update story", e));
+    setHistory(prev => prev.map(h => h.uid === uid ? { ...h, ...patch } : h));
+  };
+
+  const shareStory = async (source: StoryboardData) => {
+    try {
+      await downloadStoryBundle(source);
+    } catch (error) {
+      console.error("Export failed", error);
+      alert(error instanceof BundleError ? describeBundleError(error, t) : t('app.exportError'));
+    }
+  };
+
+  const handleExportStory = async (summary: StorySummary) => {
+    const source = await getStoryFromDB(summary.uid);
+    if (!source) {
+      alert(t('app.openError'));
+      return;
+    }
+    await shareStory(source);
+  };
+
+  const handleImportStory = async (file: File) => {
+    try {
+      const imported = await readStoryBundle(file);
+      // Importing a book that's already here (e.g. back into the browser it came from) keeps both copies
+      const incoming = history.some(h => h.uid === imported.uid) ? { ...imported, uid: createStoryUid() } : imported;
+      await saveStoryToDB(incoming);
+      setHistory(prev => [toStorySummary(incoming), ...prev]);
+    } catch (error) {
+      console.error("Import failed", error);
+      alert(error instanceof BundleError ? describeBundleError(error, t) : t('app.importError'));
     }
   };
 
-  const handleSelectHistory = (selectedStory: StoryboardData) => {
-    setStory(selectedStory);
+  const handleBackupLibrary = async () => {
+    try {
+      await downloadLibraryBackup();
+    } catch (error) {
+      alert(t('app.backupError'));
+    }
+  };
+
+  const handleRestoreLibrary = async (backup: LibraryBackup, mode: RestoreMode): Promise<boolean> => {
+    try {
+      await restoreDatabaseSnapshot(backup.snapshot, mode);
+      restoreSettings(backup.settings, mode);
+    } catch (error) {
+      alert(t('app.restoreError'));
+      return false;
+    }
+    setHistory(await getHistoryFromDB());
+    return true;
+  };
+
+  const handleDeleteStory = async (uid: string) => {
+    try {
+      await deleteStoryFromDB(uid);
+      setHistory(prev => prev.filter(h => h.uid !== uid));
+    } catch (error) {
+      alert(t('app.deleteError'));
+    }
+  };
+
+  const handleDuplicateStory = async (summary: StorySummary) => {
+    const source = await getStoryFromDB(summary.uid);
+    if (!source) {
+      alert(t('app.openError'));
+      return;
+    }
+    resetSession();
+    setStory(createDraftCopy(source));
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleSelectHistory = async (summary: StorySummary) => {
+    const selectedStory = await getStoryFromDB(summary.uid);
+    if (!selectedStory) {
+      alert(t('app.openError'));
+      return;
+    }
+    resetSession();
+    setStory(settleInterruptedWork(selectedStory));
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   return (
     <div className="min-h-screen pb-20 font-sans">
+      <a
+        href="#main-content"
+        className="sr-only focus:not-sr-only focus:fixed focus:top-4 focus:left-4 focus:z-[60] focus:px-4 focus:py-2 focus:rounded-xl focus:bg-white focus:border-4 focus:border-fun-sky focus:font-bold focus:text-slate-800"
+      >
+        {t('app.skipToContent')}
+      </a>
+
       {/* Playful Header */}
       <header className="bg-white/80 backdrop-blur-md border-b-4 border-fun-yellow sticky top-0 z-50">
         <div className="max-w-6xl mx-auto px-4 sm:px-6 h-20 flex items-center justify-between">
@@ -210,38 +497,86 @@ const App: React.FC = () => {
                 Spectra<span className="text-fun-sky">Tales</span>
               </h1>
               <p className="text-xs font-bold text-fun-purple uppercase tracking-widest hidden sm:block">
-                Social Stories for Super Kids
+                {t('app.tagline')}
               </p>
             </div>
           </div>
 
-          <a 
-            href="https://github.com/cclank/SpectraTales" 
-            target="_blank" 
-            rel="noopener noreferrer"
-            className="flex items-center space-x-2 bg-fun-bg border-2 border-fun-yellow px-4 py-2 rounded-full hover:bg-white hover:shadow-sm transition-all group"
-          >
-            <span className="text-sm font-bold text-slate-600 group-hover:text-fun-pink">Created by 岚叔</span>
-            <Github size={20} className="text-slate-600 group-hover:text-fun-pink" />
-          </a>
+          <div className="flex items-center gap-3">
+            <div className="flex rounded-full border-2 border-fun-yellow overflow-hidden" role="group" aria-label={t('app.uiLanguage')}>
+              {UI_LANGUAGES.map(code => (
+                <button
+                  key={code}
+                  onClick={() => setLanguage(code)}
+                  aria-pressed={language === code}
+                  className={`px-3 py-2 text-sm font-bold transition-colors ${
+                    language === code ? 'bg-fun-yellow text-slate-800' : 'bg-white text-slate-500 hover:text-fun-pink'
+                  }`}
+                >
+                  {code === 'zh' ? '中文' : 'EN'}
+                </button>
+              ))}
+            </div>
+
+            <a 
+              href="https://github.com/cclank/SpectraTales" 
+              target="_blank" 
+              rel="noopener noreferrer"
+              className="flex items-center space-x-2 bg-fun-bg border-2 border-fun-yellow px-4 py-2 rounded-full hover:bg-white hover:shadow-sm transition-all group"
+            >
+              <span className="text-sm font-bold text-slate-600 group-hover:text-fun-pink">Created by 岚叔</span>
+              <Github size={20} className="text-slate-600 group-hover:text-fun-pink" />
+            </a>
+          </div>
         </div>
       </header>
 
-      <main className="max-w-6xl mx-auto px-4 sm:px-6 py-8">
+      <main id="main-content" tabIndex={-1} className="max-w-6xl mx-auto px-4 sm:px-6 py-8 outline-none">
         {!story ? (
           <StoryInput 
             onGenerate={handleGenerateStory} 
             isLoading={loading} 
+            onStop={handleStopGeneration}
             history={history}
-            onSelectHistory={handleSelectHistory}
+            library={{
+              onSelect: handleSelectHistory,
+              onRename: (uid, title) => updateLibraryStory(uid, { title }),
+              onUpdateTags: (uid, tags) => updateLibraryStory(uid, { tags }),
+              onDuplicate: handleDuplicateStory,
+              onDelete: handleDeleteStory,
+              onExport: handleExportStory,
+              onImport: handleImportStory,
+              onBackup: handleBackupLibrary,
+              onRestore: handleRestoreLibrary
+            }}
+          />
+        ) : story.phase === 'storyboard' ? (
+          <StoryboardEditor
+            story={story}
+            onChange={setStory}
+            onRewritePage={handleRewritePage}
+            onConfirm={handleConfirmStoryboard}
+            onReset={handleReset}
+          />
+        ) : story.phase === 'character_sheets' ? (
+          <CharacterSheetReview
+            story={story}
+            onRegenerateSheet={handleRegenerateSheet}
+            onConfirm={handleApproveSheets}
+            onBack={() => setStory({ ...story, phase: 'storyboard' })}
           />
         ) : (
           <BookPreview 
             story={story} 
             onRegenerateImage={handleRegenerateImage}
+            onUpdatePage={handleUpdatePage}
+            onSelectImageVersion={handleSelectImageVersion}
             onDownload={handleDownloadPDF}
-            onReset={() => setStory(null)}
-            complexity={complexity}
+            onExportEbook={handleExportEbook}
+            onShare={() => shareStory(story)}
+            onReset={handleReset}
+            onStopGeneration={handleStopGeneration}
+            progress={progress}
           />
         )}
       </main>
@@ -1,16 +1,103 @@
-import React from 'react';
-import { StoryboardData, StoryPage, VisualComplexity } from '../types';
-import { RefreshCw, Download, ArrowLeft, Image as ImageIcon, CheckCircle } from 'lucide-react';
+import React, { useState } from 'react';
+import { StoryboardData, StoryPage, ART_STYLE_PRESETS, CUSTOM_ART_STYLE } from '../types';
+import { getCast } from '../utils/cast';
+import { QueueProgress } from '../utils/generationQueue';
+import { toFailure, describeFailure } from '../services/generationErrors';
+import { getImageVersions } from '../utils/imageHistory';
+import { getGenerationSettings } from '../utils/generationSettings';
+import { getAltText } from '../utils/altText';
+import { useI18n, getLanguage } from '../utils/i18n';
+import { NarrationSettings, loadNarrationSettings, saveNarrationSettings, isSpeechSupported, useVoices, voicesForLanguage } from '../utils/speech';
+import { useReadAloud, usePageRecordings } from '../utils/readAloud';
+import ReadAloudBar from './ReadAloudBar';
+import PageVoiceControls from './PageVoiceControls';
+import SpokenText from './SpokenText';
+import ReaderMode from './ReaderMode';
+import ExportPanel, { EbookFormat } from './ExportPanel';
+import { PdfOptions } from '../utils/pdfGenerator';
+import { RefreshCw, Download, ArrowLeft, Image as ImageIcon, CheckCircle, Pencil, Check, X, Square, Share2, Volume2, BookOpen } from 'lucide-react';
+
+export type PageEdit = Partial<Pick<StoryPage, 'text' | 'text_secondary' | 'action_description' | 'alt_text'>>;
 
 interface Props {
   story: StoryboardData;
-  onRegenerateImage: (pageId: number) => void;
-  onDownload: () => void;
+  onRegenerateImage: (pageId: number, edit?: PageEdit) => void;
+  onUpdatePage: (pageId: number, edit: PageEdit) => void;
+  onSelectImageVersion: (pageId: number, imageUrl: string) => void;
+  onDownload: (options: PdfOptions) => Promise<void>;
+  onExportEbook: (format: EbookFormat, includeRecordings: boolean) => Promise<void>;
+  onShare: () => void;
   onReset: () => void;
-  complexity: VisualComplexity;
+  onStopGeneration: () => void;
+  progress?: QueueProgress | null;
 }
 
-const BookPreview: React.FC<Props> = ({ story, onRegenerateImage, onDownload, onReset, complexity }) => {
+const BookPreview: React.FC<Props> = ({ story, onRegenerateImage, onUpdatePage, onSelectImageVersion, onDownload, onExportEbook, onShare, onReset, onStopGeneration, progress }) => {
+  const { t, tOption } = useI18n();
+  const cast = getCast(story);
+  const settings = getGenerationSettings(story);
+  const preset = ART_STYLE_PRESETS.find(p => p.id === settings.art_style);
+  const artStyleLabel = settings.art_style === CUSTOM_ART_STYLE
+    ? t('artStyle.custom')
+    : preset && tOption(`artStyle.${preset.id}`, preset.label);
+  const finished = progress ? progress.completed + progress.failed : 0;
+  const isPainting = !!progress && finished < progress.total;
+  const [editingPageId, setEditingPageId] = useState<number | null>(null);
+  const [draftText, setDraftText] = useState('');
+  const [draftSecondary, setDraftSecondary] = useState('');
+  const [draftCue, setDraftCue] = useState('');
+  const [draftAlt, setDraftAlt] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [showReadAloud, setShowReadAloud] = useState(false);
+  const [isReaderOpen, setIsReaderOpen] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [narration, setNarration] = useState<NarrationSettings>(loadNarrationSettings);
+  const voices = useVoices();
+  const recordings = usePageRecordings(story.uid);
+  const readAloud = useReadAloud(story, recordings.urls, narration, voices);
+  const speechSupported = isSpeechSupported();
+
+  const updateNarration = (next: NarrationSettings) => {
+    setNarration(next);
+    saveNarrationSettings(next);
+  };
+
+  const handleDownload = async (options: PdfOptions) => {
+    setIsExporting(true);
+    try {
+      await onDownload(options);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportEbook = async (format: EbookFormat, includeRecordings: boolean) => {
+    setIsExporting(true);
+    try {
+      await onExportEbook(format, includeRecordings);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const startEditing = (page: StoryPage) => {
+    setEditingPageId(page.id);
+    setDraftText(page.text);
+    setDraftSecondary(page.text_secondary ?? '');
+    setDraftCue(page.action_description);
+    setDraftAlt(page.alt_text ?? '');
+  };
+
+  const saveEdit = (page: StoryPage, redraw: boolean) => {
+    // An empty description falls back to the visual cue
+    const edit: PageEdit = { text: draftText, action_description: draftCue, alt_text: draftAlt.trim() || undefined };
+    if (settings.secondary_language) edit.text_secondary = draftSecondary;
+    onUpdatePage(page.id, edit);
+    setEditingPageId(null);
+    // Only the edited page is repainted; the rest of the book is left untouched
+    if (redraw) onRegenerateImage(page.id, edit);
+  };
+
   return (
     <div className="max-w-5xl mx-auto">
       {/* Navigation & Actions */}
@@ -23,7 +110,7 @@ const BookPreview: React.FC<Props> = ({ story, onRegenerateImage, onDownload, on
             <div className="bg-white p-2 rounded-full shadow-sm border border-slate-200 group-hover:border-fun-sky">
                <ArrowLeft size={18} />
             </div>
-            <span>Make Another Story</span>
+            <span>{t('book.makeAnother')}</span>
           </button>
           
           <h2 className="text-4xl font-display font-bold text-slate-800 text-shadow-sm leading-tight">
@@ -31,126 +118,390 @@ const BookPreview: React.FC<Props> = ({ story, onRegenerateImage, onDownload, on
           </h2>
           <div className="flex flex-wrap gap-2 mt-3">
             <span className="px-3 py-1 bg-fun-yellow/20 text-slate-700 border border-fun-yellow rounded-full text-xs font-bold uppercase tracking-wider">
-              Age {story.character_blueprint.age}
-            </span>
-             <span className="px-3 py-1 bg-fun-mint/20 text-slate-700 border border-fun-mint rounded-full text-xs font-bold uppercase tracking-wider">
-              {story.purpose.split(':')[0]}
+              {t('book.age', { age: story.character_blueprint.age })}
             </span>
+            {story.purpose && (
+              <span className="px-3 py-1 bg-fun-mint/20 text-slate-700 border border-fun-mint rounded-full text-xs font-bold uppercase tracking-wider">
+                {story.purpose.split(':')[0]}
+              </span>
+            )}
           </div>
         </div>
 
-        <button
-          onClick={onDownload}
-          className="bg-fun-mint hover:bg-green-500 text-white text-lg px-8 py-4 rounded-2xl font-display font-bold flex items-center space-x-2 shadow-comic hover:shadow-comic-hover active:translate-y-1 transition-all"
-        >
-          <Download size={24} strokeWidth={2.5} />
-          <span>Save PDF</span>
-        </button>
+        <div className="flex gap-3">
+          <button
+            onClick={() => {
+              readAloud.stop();
+              setIsReaderOpen(true);
+            }}
+            className="bg-fun-sky hover:bg-blue-500 text-white text-lg px-6 py-4 rounded-2xl font-display font-bold flex items-center space-x-2 shadow-comic hover:shadow-comic-hover active:translate-y-1 transition-all"
+          >
+            <BookOpen size={24} strokeWidth={2.5} />
+            <span>{t('reader.open')}</span>
+          </button>
+          <button
+            onClick={() => {
+              if (showReadAloud) readAloud.stop();
+              setShowReadAloud(!showReadAloud);
+            }}
+            aria-pressed={showReadAloud}
+            className={`text-lg px-6 py-4 rounded-2xl font-display font-bold flex items-center space-x-2 border-4 shadow-comic hover:shadow-comic-hover active:translate-y-1 transition-all ${
+              showReadAloud ? 'bg-fun-sky text-white border-fun-sky' : 'bg-white hover:bg-fun-bg text-slate-700 border-slate-100'
+            }`}
+          >
+            <Volume2 size={24} strokeWidth={2.5} />
+            <span>{t('read.title')}</span>
+          </button>
+          <button
+            onClick={onShare}
+            className="bg-white hover:bg-fun-bg text-slate-700 text-lg px-6 py-4 rounded-2xl font-display font-bold flex items-center space-x-2 border-4 border-slate-100 shadow-comic hover:shadow-comic-hover active:translate-y-1 transition-all"
+            title={t('book.shareHint')}
+          >
+            <Share2 size={24} strokeWidth={2.5} />
+            <span>{t('book.share')}</span>
+          </button>
+          <button
+            onClick={() => setShowExport(!showExport)}
+            aria-pressed={showExport}
+            className="bg-fun-mint hover:bg-green-500 text-white text-lg px-8 py-4 rounded-2xl font-display font-bold flex items-center space-x-2 shadow-comic hover:shadow-comic-hover active:translate-y-1 transition-all"
+          >
+            <Download size={24} strokeWidth={2.5} />
+            <span>{t('book.export')}</span>
+          </button>
+        </div>
       </div>
 
-      {/* Book Container */}
-      <div className="grid grid-cols-1 gap-12 mb-16">
-        {story.pages.map((page: StoryPage, index: number) => (
-          <div key={page.id} className="relative">
-            {/* Page Number Badge */}
-            <div className="absolute -left-3 -top-3 w-10 h-10 bg-fun-orange text-white font-display font-bold text-xl rounded-full flex items-center justify-center shadow-lg border-2 border-white z-10">
-              {index + 1}
+      {/* Generation Progress */}
+      {isPainting && progress && (
+        <div className="mb-8 bg-white rounded-2xl p-4 border-4 border-slate-100 shadow-comic flex items-center gap-4">
+          <div className="flex-grow">
+            <div className="flex justify-between text-sm font-bold text-slate-600 mb-2" role="status" aria-live="polite">
+              <span>{t('book.painting')}</span>
+              <span>{finished} / {progress.total}</span>
             </div>
+            <div
+              className="h-3 bg-slate-100 rounded-full overflow-hidden"
+              role="progressbar"
+              aria-label={t('book.painting')}
+              aria-valuemin={0}
+              aria-valuemax={progress.total}
+              aria-valuenow={finished}
+            >
+              <div
+                className="h-full bg-fun-sky transition-all duration-500"
+                style={{ width: `${(finished / progress.total) * 100}%` }}
+              />
+            </div>
+          </div>
+          <button
+            onClick={onStopGeneration}
+            className="flex items-center gap-1 px-4 py-2 rounded-xl border-2 border-slate-200 text-slate-500 font-bold hover:text-fun-pink hover:border-fun-pink transition-colors"
+          >
+            <Square size={14} fill="currentColor" /> {t('book.stop')}
+          </button>
+        </div>
+      )}
+
+      {isReaderOpen && (
+        <ReaderMode
+          story={story}
+          readAloud={readAloud}
+          canReadAloud={speechSupported || Object.keys(recordings.urls).length > 0}
+          onClose={() => setIsReaderOpen(false)}
+        />
+      )}
+
+      {showExport && (
+        <ExportPanel
+          pages={story.pages}
+          isSaving={isExporting}
+          hasRecordings={Object.keys(recordings.urls).length > 0}
+          onSave={handleDownload}
+          onExportEbook={handleExportEbook}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {showReadAloud && (
+        <ReadAloudBar
+          settings={narration}
+          onChange={updateNarration}
+          voices={voicesForLanguage(voices, settings.language)}
+          speechSupported={speechSupported}
+          isReading={!!readAloud.position}
+          onReadBook={readAloud.readBook}
+          onStop={readAloud.stop}
+          onClose={() => {
+            readAloud.stop();
+            setShowReadAloud(false);
+          }}
+        />
+      )}
+
+      {/* Book Container */}
+      <section className="grid grid-cols-1 gap-12 mb-16" aria-label={t('book.pages')}>
+        {story.pages.map((page: StoryPage, index: number) => {
+          const failure = toFailure(page.error);
+          const isReading = readAloud.position?.pageId === page.id;
+          return (
+            <article key={page.id} id={`page-${page.id}`} className="relative" aria-label={t('book.pageLabel', { number: index + 1 })}>
+              {/* Page Number Badge */}
+              <div aria-hidden="true" className="absolute -left-3 -top-3 w-10 h-10 bg-fun-orange text-white font-display font-bold text-xl rounded-full flex items-center justify-center shadow-lg border-2 border-white z-10">
+                {index + 1}
+              </div>
 
-            <div className="bg-white rounded-3xl shadow-comic border-4 border-slate-100 overflow-hidden flex flex-col md:flex-row">
+              <div className={`bg-white rounded-3xl shadow-comic border-4 overflow-hidden flex flex-col md:flex-row transition-colors ${isReading ? 'border-fun-sky' : 'border-slate-100'}`}>
               
-              {/* Image Side */}
-              <div className="w-full md:w-1/2 aspect-square relative bg-slate-50 border-b-4 md:border-b-0 md:border-r-4 border-slate-100 group">
-                {page.image_url ? (
-                  <img 
-                    src={page.image_url} 
-                    alt={`Page ${page.id}`} 
-                    className="w-full h-full object-cover"
-                  />
-                ) : (
-                  <div className="w-full h-full flex flex-col items-center justify-center text-slate-300 p-8">
-                    {page.is_generating ? (
-                      <div className="flex flex-col items-center z-10">
-                        <div className="animate-spin rounded-full h-12 w-12 border-b-4 border-fun-sky mb-4"></div>
-                        <span className="text-fun-sky font-bold animate-pulse mb-3">Painting...</span>
-                        <button 
-                           onClick={(e) => {
-                             e.stopPropagation();
-                             onRegenerateImage(page.id);
-                           }}
-                           className="px-3 py-1 bg-white border border-slate-200 rounded-full text-xs font-bold text-slate-400 hover:text-fun-pink hover:border-fun-pink transition-all shadow-sm"
+                {/* Image Side */}
+                <div className="w-full md:w-1/2 aspect-square relative bg-slate-50 border-b-4 md:border-b-0 md:border-r-4 border-slate-100 group">
+                  {page.image_url ? (
+                    <img 
+                      src={page.image_url} 
+                      alt={getAltText(page)}
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <div className="w-full h-full flex flex-col items-center justify-center text-slate-300 p-8">
+                      {page.is_generating ? (
+                        <div className="flex flex-col items-center z-10">
+                          <div className="animate-spin rounded-full h-12 w-12 border-b-4 border-fun-sky mb-4"></div>
+                          <span className="text-fun-sky font-bold animate-pulse mb-3" role="status">{t('book.paintingPage')}</span>
+                          <button 
+                             onClick={(e) => {
+                               e.stopPropagation();
+                               onRegenerateImage(page.id);
+                             }}
+                             className="px-3 py-1 bg-white border border-slate-200 rounded-full text-xs font-bold text-slate-400 hover:text-fun-pink hover:border-fun-pink transition-all shadow-sm"
+                          >
+                            {t('book.stuck')}
+                          </button>
+                        </div>
+                      ) : (
+                        <>
+                          <ImageIcon size={64} className="mb-4 opacity-50" />
+                          {failure ? (
+                            <>
+                              <span className="font-bold text-slate-600">{describeFailure(failure, t).title}</span>
+                              <span className="mt-1 text-sm font-medium text-slate-500 text-center max-w-xs">{describeFailure(failure, t).hint}</span>
+                            </>
+                          ) : (
+                            <span className="font-bold">{t('book.waiting')}</span>
+                          )}
+                          {page.error && (
+                             <button 
+                               onClick={() => onRegenerateImage(page.id)}
+                               className="mt-2 text-fun-pink underline font-bold"
+                             >
+                               {t('book.retryFailed')}
+                             </button>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Failed Redraw Notice (the previous picture is kept) */}
+                  {failure && page.image_url && !page.is_generating && (
+                    <div className="absolute bottom-4 left-4 right-4 bg-white/95 rounded-xl p-3 border-2 border-fun-pink shadow-lg">
+                      <p className="text-sm font-bold text-fun-pink">{t('book.redrawFailed', { reason: describeFailure(failure, t).title })}</p>
+                      <p className="text-xs font-medium text-slate-500">{describeFailure(failure, t).hint}</p>
+                    </div>
+                  )}
+
+                  {/* Version Strip */}
+                  {!page.is_generating && getImageVersions(page).length > 1 && (
+                    <div className="absolute top-4 left-4 flex gap-2 bg-white/90 backdrop-blur-sm p-2 rounded-xl shadow-lg border-2 border-slate-100">
+                      {getImageVersions(page).map((version, versionIndex) => (
+                        <button
+                          key={`${version.createdAt}-${versionIndex}`}
+                          onClick={() => onSelectImageVersion(page.id, version.image_url)}
+                          aria-label={t('book.version', { number: versionIndex + 1 })}
+                          aria-pressed={version.image_url === page.image_url}
+                          className={`w-12 h-12 rounded-lg overflow-hidden border-2 transition-all ${
+                            version.image_url === page.image_url
+                              ? 'border-fun-sky scale-110'
+                              : 'border-transparent opacity-70 hover:opacity-100'
+                          }`}
+                          title={`${t('book.version', { number: versionIndex + 1 })}: ${version.prompt}`}
                         >
-                          Stuck? Retry
+                          <img src={version.image_url} alt="" className="w-full h-full object-cover" />
                         </button>
-                      </div>
-                    ) : (
-                      <>
-                        <ImageIcon size={64} className="mb-4 opacity-50" />
-                        <span className="font-bold">Waiting for magic</span>
-                        {page.error && (
-                           <button 
-                             onClick={() => onRegenerateImage(page.id)}
-                             className="mt-2 text-fun-pink underline font-bold"
-                           >
-                             Retry Failed Image
-                           </button>
-                        )}
-                      </>
-                    )}
-                  </div>
-                )}
-
-                {/* Regenerate Button (Hover) */}
-                {!page.is_generating && page.image_url && (
-                  <div className="absolute top-4 right-4 md:opacity-0 md:group-hover:opacity-100 transition-all">
-                    <button
-                      onClick={() => onRegenerateImage(page.id)}
-                      className="bg-white hover:bg-fun-pink hover:text-white text-slate-700 p-3 rounded-xl shadow-lg border-2 border-slate-100 transition-colors"
-                      title="Redraw this picture"
-                    >
-                      <RefreshCw size={20} strokeWidth={2.5} />
-                    </button>
-                  </div>
-                )}
-              </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {/* Regenerate Button (Hover) */}
+                  {!page.is_generating && page.image_url && (
+                    <div className="absolute top-4 right-4 md:opacity-0 md:group-hover:opacity-100 md:focus-within:opacity-100 transition-all">
+                      <button
+                        onClick={() => onRegenerateImage(page.id)}
+                        className="bg-white hover:bg-fun-pink hover:text-white text-slate-700 p-3 rounded-xl shadow-lg border-2 border-slate-100 transition-colors"
+                        title={t('book.redraw')}
+                        aria-label={t('book.redraw')}
+                      >
+                        <RefreshCw size={20} strokeWidth={2.5} />
+                      </button>
+                    </div>
+                  )}
+                </div>
 
-              {/* Text Side */}
-              <div className="w-full md:w-1/2 p-8 md:p-10 flex flex-col justify-center bg-white relative overflow-hidden">
-                {/* Decorative background element */}
-                <div className="absolute top-0 right-0 w-32 h-32 bg-fun-yellow/10 rounded-full -mr-16 -mt-16"></div>
-                <div className="absolute bottom-0 left-0 w-24 h-24 bg-fun-sky/10 rounded-full -ml-12 -mb-12"></div>
+                {/* Text Side */}
+                <div className="w-full md:w-1/2 p-8 md:p-10 flex flex-col justify-center bg-white relative overflow-hidden">
+                  {/* Decorative background element */}
+                  <div className="absolute top-0 right-0 w-32 h-32 bg-fun-yellow/10 rounded-full -mr-16 -mt-16"></div>
+                  <div className="absolute bottom-0 left-0 w-24 h-24 bg-fun-sky/10 rounded-full -ml-12 -mb-12"></div>
 
-                <div className="relative z-10">
-                  <p className="text-2xl md:text-3xl font-sans font-semibold text-slate-800 leading-snug text-center md:text-left mb-6">
-                    {page.text}
-                  </p>
+                  {editingPageId === page.id ? (
+                    <div
+                      className="relative z-10 space-y-4"
+                      onKeyDown={(e) => {
+                        if (e.key === 'Escape') setEditingPageId(null);
+                      }}
+                    >
+                      <textarea
+                        autoFocus
+                        value={draftText}
+                        onChange={(e) => setDraftText(e.target.value)}
+                        className="w-full h-32 p-3 text-xl font-semibold border-2 border-slate-200 rounded-xl bg-slate-50 focus:bg-white focus:border-fun-sky outline-none resize-none text-slate-800"
+                        aria-label={t('editor.pageText')}
+                      />
+                      {settings.secondary_language && (
+                        <textarea
+                          value={draftSecondary}
+                          onChange={(e) => setDraftSecondary(e.target.value)}
+                          className="w-full h-20 p-3 text-lg border-2 border-slate-200 rounded-xl bg-slate-50 focus:bg-white focus:border-fun-sky outline-none resize-none text-slate-600"
+                          aria-label={t('editor.translation', { language: getLanguage(settings.secondary_language).label })}
+                        />
+                      )}
+                      <label className="block">
+                        <span className="text-xs font-bold text-fun-purple uppercase tracking-widest">{t('book.visualCue')}</span>
+                        <textarea
+                          value={draftCue}
+                          onChange={(e) => setDraftCue(e.target.value)}
+                          className="w-full h-28 p-3 text-sm border-2 border-slate-200 rounded-xl bg-slate-50 focus:bg-white focus:border-fun-purple outline-none resize-none text-slate-600 font-medium"
+                        />
+                      </label>
+                      <label className="block">
+                        <span className="text-xs font-bold text-fun-sky uppercase tracking-widest">{t('book.altText')}</span>
+                        <textarea
+                          value={draftAlt}
+                          onChange={(e) => setDraftAlt(e.target.value)}
+                          placeholder={draftCue}
+                          className="w-full h-20 p-3 text-sm border-2 border-slate-200 rounded-xl bg-slate-50 focus:bg-white focus:border-fun-sky outline-none resize-none text-slate-600 font-medium"
+                        />
+                        <span className="text-xs font-medium text-slate-400">{t('book.altTextHint')}</span>
+                      </label>
+                      <div className="flex flex-wrap gap-2 justify-end">
+                        <button
+                          onClick={() => setEditingPageId(null)}
+                          className="flex items-center gap-1 px-4 py-2 rounded-xl border-2 border-slate-200 text-slate-500 font-bold hover:border-slate-300 transition-colors"
+                        >
+                          <X size={16} /> {t('book.cancel')}
+                        </button>
+                        <button
+                          onClick={() => saveEdit(page, false)}
+                          disabled={!draftText.trim()}
+                          className="flex items-center gap-1 px-4 py-2 rounded-xl bg-fun-mint text-white font-bold shadow-comic hover:shadow-comic-hover disabled:bg-slate-300 disabled:shadow-none transition-all"
+                        >
+                          <Check size={16} /> {t('book.save')}
+                        </button>
+                        {draftCue.trim() !== page.action_description.trim() && (
+                          <button
+                            onClick={() => saveEdit(page, true)}
+                            disabled={!draftText.trim() || !draftCue.trim() || page.is_generating}
+                            className="flex items-center gap-1 px-4 py-2 rounded-xl bg-fun-pink text-white font-bold shadow-comic hover:shadow-comic-hover disabled:bg-slate-300 disabled:shadow-none transition-all"
+                          >
+                            <RefreshCw size={16} /> {t('book.saveRedraw')}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="relative z-10">
+                      <button
+                        onClick={() => startEditing(page)}
+                        className="absolute -top-4 -right-4 p-2 rounded-xl text-slate-300 hover:text-fun-sky hover:bg-fun-bg transition-colors"
+                        title={t('book.edit')}
+                        aria-label={t('book.edit')}
+                      >
+                        <Pencil size={18} />
+                      </button>
+                      <p
+                        lang={settings.language}
+                        className="text-2xl md:text-3xl font-sans font-semibold text-slate-800 leading-snug text-center md:text-left mb-6"
+                      >
+                        <SpokenText text={page.text} language={settings.language} wordIndex={isReading ? readAloud.position!.wordIndex : -1} />
+                      </p>
+                      {page.text_secondary && (
+                        <p
+                          lang={settings.secondary_language}
+                          className="-mt-3 mb-6 text-lg md:text-xl font-sans font-semibold text-slate-500 leading-snug text-center md:text-left"
+                        >
+                          {page.text_secondary}
+                        </p>
+                      )}
+
+                      {showReadAloud && (
+                        <PageVoiceControls
+                          isReading={isReading}
+                          canRead={speechSupported || !!recordings.urls[page.id]}
+                          recordingUrl={recordings.urls[page.id]}
+                          onRead={() => readAloud.readPage(page)}
+                          onStop={readAloud.stop}
+                          onSaveRecording={blob => recordings.save(page.id, blob)}
+                          onDeleteRecording={() => recordings.remove(page.id)}
+                        />
+                      )}
                   
-                  <div className="bg-fun-bg rounded-xl p-4 border-2 border-slate-100">
-                    <h5 className="text-xs font-bold text-fun-purple uppercase tracking-widest mb-1 flex items-center gap-1">
-                      <CheckCircle size={12} />
-                      Visual Cue
-                    </h5>
-                    <p className="text-sm text-slate-600 font-medium">
-                      {page.action_description}
-                    </p>
-                  </div>
+                      <div className="bg-fun-bg rounded-xl p-4 border-2 border-slate-100">
+                        <h5 className="text-xs font-bold text-fun-purple uppercase tracking-widest mb-1 flex items-center gap-1">
+                          <CheckCircle size={12} />
+                          {t('book.visualCue')}
+                        </h5>
+                        <p className="text-sm text-slate-600 font-medium">
+                          {page.action_description}
+                        </p>
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
-            </div>
-          </div>
-        ))}
-      </div>
+            </article>
+          );
+        })}
+      </section>
       
       {/* Footer Info */}
-      <div className="bg-white rounded-2xl p-6 border-2 border-dashed border-slate-300 text-center opacity-70 hover:opacity-100 transition-opacity">
-        <p className="text-sm text-slate-500 font-bold uppercase tracking-widest mb-2">Character Blueprint</p>
+      <aside className="bg-white rounded-2xl p-6 border-2 border-dashed border-slate-300 text-center opacity-70 hover:opacity-100 transition-opacity" aria-label={t('book.blueprint')}>
+        <p className="text-sm text-slate-500 font-bold uppercase tracking-widest mb-2">{t('book.blueprint')}</p>
         <div className="flex justify-center gap-4 text-sm text-slate-700 font-medium flex-wrap">
-           <span className="bg-slate-100 px-3 py-1 rounded-full">{story.character_blueprint.hair} Hair</span>
+           <span className="bg-slate-100 px-3 py-1 rounded-full">{t('book.hair', { hair: story.character_blueprint.hair })}</span>
            <span className="bg-slate-100 px-3 py-1 rounded-full">{story.character_blueprint.clothing}</span>
-           <span className="bg-slate-100 px-3 py-1 rounded-full">{story.character_blueprint.skin_tone} Skin</span>
-           <span className="bg-slate-100 px-3 py-1 rounded-full">{complexity} Style</span>
+           {story.character_blueprint.skin_tone && <span className="bg-slate-100 px-3 py-1 rounded-full">{t('book.skin', { skin: story.character_blueprint.skin_tone })}</span>}
+           <span className="bg-slate-100 px-3 py-1 rounded-full">{t('book.complexityStyle', { complexity: t(`complexity.${settings.complexity}`) })}</span>
+           {settings.sensory && <span className="bg-slate-100 px-3 py-1 rounded-full">{t('book.sensory')}</span>}
+           {artStyleLabel && <span className="bg-slate-100 px-3 py-1 rounded-full" title={settings.style_prompt}>{artStyleLabel}</span>}
         </div>
-      </div>
+
+        {cast.length > 1 && (
+          <>
+            <p className="text-sm text-slate-500 font-bold uppercase tracking-widest mt-6 mb-2">{t('editor.cast')}</p>
+            <div className="flex justify-center gap-4 flex-wrap">
+              {cast.map((character) => (
+                <div key={character.id} className="flex items-center gap-2 bg-slate-100 pl-1 pr-3 py-1 rounded-full text-sm text-slate-700 font-medium">
+                  {character.anchor_image_url ? (
+                    <img src={character.anchor_image_url} alt={character.name} className="w-8 h-8 rounded-full object-cover" />
+                  ) : (
+                    <div className="w-8 h-8 rounded-full bg-white" />
+                  )}
+                  <span className="font-bold">{character.name}</span>
+                  <span className="text-slate-500">{character.role}</span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </aside>
     </div>
   );
 };
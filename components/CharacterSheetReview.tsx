@@ -0,0 +1,112 @@
+import React from 'react';
+import { StoryboardData } from '../types';
+import { getCast } from '../utils/cast';
+import { describeFailure } from '../services/generationErrors';
+import { useI18n } from '../utils/i18n';
+import { ArrowLeft, RefreshCw, Paintbrush, Image as ImageIcon } from 'lucide-react';
+
+interface Props {
+  story: StoryboardData;
+  onRegenerateSheet: (characterId: string) => void;
+  onConfirm: () => void;
+  onBack: () => void;
+}
+
+const CharacterSheetReview: React.FC<Props> = ({ story, onRegenerateSheet, onConfirm, onBack }) => {
+  const { t } = useI18n();
+  const cast = getCast(story);
+  const isBusy = cast.some(c => c.anchor_is_generating);
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      {/* Navigation */}
+      <div className="mb-8">
+        <button
+          onClick={onBack}
+          disabled={isBusy}
+          className="group flex items-center space-x-2 text-slate-500 hover:text-fun-sky disabled:opacity-40 font-bold mb-3 transition-colors px-2"
+        >
+          <div className="bg-white p-2 rounded-full shadow-sm border border-slate-200 group-hover:border-fun-sky">
+            <ArrowLeft size={18} />
+          </div>
+          <span>{t('sheets.back')}</span>
+        </button>
+
+        <h2 className="text-4xl font-display font-bold text-slate-800 text-shadow-sm leading-tight">
+          {t('sheets.title')}
+        </h2>
+        <p className="text-slate-500 font-bold mt-2">
+          {t('sheets.intro')}
+        </p>
+      </div>
+
+      {/* Sheets */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-12">
+        {cast.map((character) => (
+          <div key={character.id} className="bg-white rounded-3xl shadow-comic border-4 border-slate-100 overflow-hidden">
+            <div className="aspect-square relative bg-slate-50 border-b-4 border-slate-100 group">
+              {character.anchor_image_url && !character.anchor_is_generating ? (
+                <img
+                  src={character.anchor_image_url}
+                  alt={t('sheets.sheetAlt', { name: character.name })}
+                  className="w-full h-full object-contain"
+                />
+              ) : (
+                <div className="w-full h-full flex flex-col items-center justify-center text-slate-300 p-8">
+                  {character.anchor_is_generating ? (
+                    <>
+                      <div className="animate-spin rounded-full h-12 w-12 border-b-4 border-fun-sky mb-4"></div>
+                      <span className="text-fun-sky font-bold animate-pulse" role="status">{t('sheets.sketching', { name: character.name })}</span>
+                    </>
+                  ) : (
+                    <>
+                      <ImageIcon size={64} className="mb-4 opacity-50" />
+                      {character.anchor_error ? (
+                        <>
+                          <span className="font-bold text-slate-600">{describeFailure(character.anchor_error, t).title}</span>
+                          <span className="mt-1 text-sm font-medium text-slate-500 text-center max-w-xs">{describeFailure(character.anchor_error, t).hint}</span>
+                        </>
+                      ) : (
+                        <span className="font-bold">{t('sheets.empty')}</span>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+
+              {!character.anchor_is_generating && (
+                <div className="absolute top-4 right-4">
+                  <button
+                    onClick={() => onRegenerateSheet(character.id)}
+                    className="bg-white hover:bg-fun-pink hover:text-white text-slate-700 p-3 rounded-xl shadow-lg border-2 border-slate-100 transition-colors"
+                    title={t('sheets.redraw')}
+                    aria-label={t('sheets.redraw')}
+                  >
+                    <RefreshCw size={20} strokeWidth={2.5} />
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <div className="p-6">
+              <h3 className="text-xl font-display font-bold text-slate-800">{character.name}</h3>
+              <p className="text-xs font-bold text-fun-purple uppercase tracking-widest">{character.role}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Confirm */}
+      <button
+        onClick={onConfirm}
+        disabled={isBusy}
+        className="w-full bg-fun-sky hover:bg-fun-sky/90 disabled:bg-slate-300 disabled:shadow-none disabled:translate-y-0 text-white font-display font-bold text-xl py-5 rounded-2xl shadow-comic hover:shadow-comic-hover active:shadow-comic-active active:translate-y-1 transition-all flex items-center justify-center space-x-3"
+      >
+        <Paintbrush size={28} strokeWidth={2.5} />
+        <span>{t('sheets.confirm')}</span>
+      </button>
+    </div>
+  );
+};
+
+export default CharacterSheetReview;
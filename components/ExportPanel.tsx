@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { StoryPage } from '../types';
+import { PdfOptions, PrintFormat, PdfPageSize, PdfLayout, PDF_PAGE_SIZES, PDF_LAYOUTS, loadPdfOptions, savePdfOptions } from '../utils/pdfGenerator';
+import { PdfFontChoice, PDF_FONT_CHOICES } from '../utils/pdfFonts';
+import { useI18n, MessageKey } from '../utils/i18n';
+import { BookOpen, CalendarCheck, ArrowRightLeft, LayoutGrid, Download, X, Tablet, FileCode } from 'lucide-react';
+
+export type EbookFormat = 'epub' | 'html';
+
+interface Props {
+  pages: StoryPage[];
+  isSaving: boolean;
+  hasRecordings: boolean;
+  onSave: (options: PdfOptions) => void;
+  onExportEbook: (format: EbookFormat, includeRecordings: boolean) => void;
+  onClose: () => void;
+}
+
+const FORMATS: { id: PrintFormat; icon: React.ElementType; label: MessageKey; hint: MessageKey }[] = [
+  { id: 'book', icon: BookOpen, label: 'export.book', hint: 'export.bookHint' },
+  { id: 'schedule', icon: CalendarCheck, label: 'export.schedule', hint: 'export.scheduleHint' },
+  { id: 'first_then', icon: ArrowRightLeft, label: 'export.firstThen', hint: 'export.firstThenHint' },
+  { id: 'cards', icon: LayoutGrid, label: 'export.cards', hint: 'export.cardsHint' }
+];
+
+const PAGE_SIZE_LABELS: Record<PdfPageSize, string> = { a4: 'A4', letter: 'Letter', a5: 'A5' };
+
+const LAYOUT_LABELS: Record<PdfLayout, MessageKey> = {
+  portrait: 'export.layoutPortrait',
+  landscape: 'export.layoutLandscape',
+  spread: 'export.layoutSpread'
+};
+
+const FONT_LABELS: Record<PdfFontChoice, MessageKey> = {
+  standard: 'export.fontStandard',
+  dyslexia: 'export.fontDyslexia',
+  large_print: 'export.fontLargePrint'
+};
+
+const ebookButtonClass = "flex items-center gap-2 px-4 py-2 rounded-xl border-2 border-slate-200 bg-white text-slate-600 font-bold hover:border-fun-mint hover:text-fun-mint disabled:opacity-40 transition-colors";
+
+const selectClass = "px-2 py-1 border-2 border-slate-200 rounded-lg bg-white outline-none focus:border-fun-mint";
+
+const ExportPanel: React.FC<Props> = ({ pages, isSaving, hasRecordings, onSave, onExportEbook, onClose }) => {
+  const { t } = useI18n();
+  const [options, setOptions] = useState<PdfOptions>(() => ({
+    ...loadPdfOptions(),
+    firstPageId: pages[0]?.id,
+    thenPageId: pages[pages.length - 1]?.id
+  }));
+  const [includeRecordings, setIncludeRecordings] = useState(true);
+  const { format } = options;
+  const update = (patch: Partial<PdfOptions>) => setOptions({ ...options, ...patch });
+
+  const handleSave = () => {
+    savePdfOptions(options);
+    onSave(options);
+  };
+
+  const pageOptions = pages.map((page, index) => (
+    <option key={page.id} value={page.id}>
+      {index + 1}. {page.text.length > 50 ? `${page.text.slice(0, 50)}…` : page.text}
+    </option>
+  ));
+
+  return (
+    <div className="mb-8 bg-white rounded-2xl p-4 border-4 border-fun-mint/30 shadow-comic animate-in fade-in">
+      <div className="flex items-center gap-4 mb-4">
+        <h4 className="font-display font-bold text-slate-800 flex items-center gap-2">
+          <Download size={20} className="text-fun-mint" />
+          {t('export.title')}
+        </h4>
+        <button onClick={onClose} className="ml-auto text-slate-400 hover:text-slate-600" title={t('reader.close')} aria-label={t('reader.close')}>
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {FORMATS.map(({ id, icon: Icon, label, hint }) => (
+          <button
+            key={id}
+            onClick={() => update({ format: id })}
+            aria-pressed={format === id}
+            className={`p-3 rounded-xl border-4 text-left transition-all ${
+              format === id ? 'border-fun-mint bg-fun-mint/10' : 'border-slate-100 hover:border-fun-mint/50'
+            }`}
+          >
+            <Icon size={22} className={format === id ? 'text-fun-mint' : 'text-slate-400'} />
+            <div className="mt-1 font-bold text-slate-800">{t(label)}</div>
+            <div className="text-xs font-medium text-slate-500">{t(hint)}</div>
+          </button>
+        ))}
+      </div>
+
+      {format === 'first_then' && (
+        <div className="flex flex-wrap gap-x-6 gap-y-3 mt-4 text-sm font-bold text-slate-600">
+          <label className="flex items-center gap-2">
+            {t('export.first')}
+            <select
+              value={options.firstPageId}
+              onChange={(e) => update({ firstPageId: Number(e.target.value) })}
+              className={`max-w-[16rem] ${selectClass}`}
+            >
+              {pageOptions}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            {t('export.then')}
+            <select
+              value={options.thenPageId}
+              onChange={(e) => update({ thenPageId: Number(e.target.value) })}
+              className={`max-w-[16rem] ${selectClass}`}
+            >
+              {pageOptions}
+            </select>
+          </label>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-3 mt-4 text-sm font-bold text-slate-600">
+        <label className="flex items-center gap-2">
+          {t('export.pageSize')}
+          <select
+            value={options.pageSize}
+            onChange={(e) => update({ pageSize: e.target.value as PdfPageSize })}
+            className={selectClass}
+          >
+            {PDF_PAGE_SIZES.map(size => <option key={size} value={size}>{PAGE_SIZE_LABELS[size]}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          {t('export.font')}
+          <select
+            value={options.font}
+            onChange={(e) => update({ font: e.target.value as PdfFontChoice })}
+            className={selectClass}
+          >
+            {PDF_FONT_CHOICES.map(font => <option key={font} value={font}>{t(FONT_LABELS[font])}</option>)}
+          </select>
+        </label>
+        {format === 'book' && (
+          <>
+            <label className="flex items-center gap-2">
+              {t('export.layout')}
+              <select
+                value={options.layout}
+                onChange={(e) => update({ layout: e.target.value as PdfLayout })}
+                className={selectClass}
+              >
+                {PDF_LAYOUTS.map(layout => <option key={layout} value={layout}>{t(LAYOUT_LABELS[layout])}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer" title={t('export.bookletHint')}>
+              <input
+                type="checkbox"
+                checked={options.booklet}
+                onChange={(e) => update({ booklet: e.target.checked })}
+                className="w-4 h-4 accent-fun-mint"
+              />
+              {t('export.booklet')}
+            </label>
+          </>
+        )}
+      </div>
+      {format === 'book' && options.booklet && (
+        <p className="mt-2 text-xs font-medium text-slate-500">{t('export.bookletHint')}</p>
+      )}
+
+      <div className="flex justify-end mt-4">
+        <button
+          onClick={handleSave}
+          disabled={isSaving || pages.length === 0}
+          className="flex items-center gap-2 px-6 py-3 rounded-xl bg-fun-mint hover:bg-green-500 disabled:bg-slate-300 text-white font-display font-bold shadow-comic hover:shadow-comic-hover transition-all"
+        >
+          <Download size={20} />
+          {isSaving ? t('book.savingPdf') : t('book.savePdf')}
+        </button>
+      </div>
+
+      {/* E-books */}
+      <div className="mt-6 pt-4 border-t-2 border-slate-100">
+        <h5 className="font-display font-bold text-slate-700 mb-1">{t('export.ebookTitle')}</h5>
+        <p className="text-xs font-medium text-slate-500 mb-3">{t('export.ebookHint')}</p>
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => onExportEbook('epub', hasRecordings && includeRecordings)}
+            disabled={isSaving || pages.length === 0}
+            className={ebookButtonClass}
+          >
+            <Tablet size={18} /> {t('export.epub')}
+          </button>
+          <button
+            onClick={() => onExportEbook('html', hasRecordings && includeRecordings)}
+            disabled={isSaving || pages.length === 0}
+            className={ebookButtonClass}
+          >
+            <FileCode size={18} /> {t('export.html')}
+          </button>
+          {hasRecordings && (
+            <label className="flex items-center gap-2 text-sm font-bold text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeRecordings}
+                onChange={(e) => setIncludeRecordings(e.target.checked)}
+                className="w-4 h-4 accent-fun-mint"
+              />
+              {t('export.includeRecordings')}
+            </label>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportPanel;
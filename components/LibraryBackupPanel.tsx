@@ -0,0 +1,172 @@
+import React, { useState, useRef } from 'react';
+import { StorySummary } from '../types';
+import { RestoreMode } from '../services/storageService';
+import { BundleError, describeBundleError } from '../services/storyBundle';
+import { LibraryBackup, readLibraryBackup, planRestore, BACKUP_EXTENSION } from '../services/libraryBackup';
+import { useI18n, Translate } from '../utils/i18n';
+import { Archive, RotateCcw, X } from 'lucide-react';
+
+interface Props {
+  stories: StorySummary[];
+  onBackup: () => void;
+  onRestore: (backup: LibraryBackup, mode: RestoreMode) => Promise<boolean>; // false when the restore failed
+}
+
+const PREVIEW_TITLES = 3;
+
+const listTitles = (titles: string[], t: Translate) => {
+  const names = titles.slice(0, PREVIEW_TITLES).map(title => `"${title}"`).join(', ');
+  return titles.length > PREVIEW_TITLES ? t('backup.andMore', { titles: names, count: titles.length - PREVIEW_TITLES }) : names;
+};
+
+const titlesOf = (stories: StorySummary[]) => stories.map(s => s.title);
+
+const LibraryBackupPanel: React.FC<Props> = ({ stories, onBackup, onRestore }) => {
+  const { t, language } = useI18n();
+  const [backup, setBackup] = useState<LibraryBackup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setBackup(await readLibraryBackup(file));
+      setMode('merge');
+    } catch (error) {
+      console.error("Failed to read backup", error);
+      alert(error instanceof BundleError ? describeBundleError(error, t) : t('backup.readError'));
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    setIsRestoring(true);
+    try {
+      // Keep the loaded backup after a failure so the parent can try again
+      if (await onRestore(backup, mode)) setBackup(null);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const plan = backup ? planRestore(backup, stories, mode) : null;
+  const nothingChanges = plan && plan.added.length + plan.overwritten.length + plan.removed.length === 0;
+
+  return (
+    <div className="mb-6">
+      <div className="flex flex-wrap gap-2 justify-center md:justify-start">
+        <button
+          onClick={onBackup}
+          disabled={stories.length === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-white border-2 border-slate-200 rounded-xl text-sm font-bold text-slate-600 hover:border-fun-mint hover:text-fun-mint disabled:opacity-40 transition-all"
+        >
+          <Archive size={16} />
+          {t('backup.create')}
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-2 px-4 py-2 bg-white border-2 border-slate-200 rounded-xl text-sm font-bold text-slate-600 hover:border-fun-purple hover:text-fun-purple transition-all"
+        >
+          <RotateCcw size={16} />
+          {t('backup.restore')}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={`${BACKUP_EXTENSION},application/zip`}
+          onChange={handleFile}
+          className="hidden"
+        />
+      </div>
+
+      {/* Dry-run summary */}
+      {backup && plan && (
+        <div className="mt-4 bg-white rounded-3xl border-4 border-fun-purple/30 shadow-comic p-6 animate-in fade-in">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h4 className="text-xl font-display font-bold text-slate-800">{t('backup.restore')}</h4>
+              {backup.exportedAt > 0 && (
+                <p className="text-xs font-bold text-slate-400">
+                  {t('backup.made', {
+                    date: new Date(backup.exportedAt).toLocaleString(language),
+                    stories: backup.snapshot.stories.length,
+                    pictures: plan.pictureCount
+                  })}
+                  {plan.recordingCount > 0 && t('backup.recordings', { count: plan.recordingCount })}
+                </p>
+              )}
+            </div>
+            <button onClick={() => setBackup(null)} className="text-slate-400 hover:text-slate-600" title={t('book.cancel')} aria-label={t('book.cancel')}>
+              <X size={20} />
+            </button>
+          </div>
+
+          <div className="flex gap-2 mb-4">
+            {(['merge', 'replace'] as RestoreMode[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                aria-pressed={mode === option}
+                className={`flex-1 px-4 py-3 rounded-2xl border-4 text-left transition-all ${
+                  mode === option ? 'border-fun-purple bg-fun-purple/10' : 'border-slate-100 hover:border-slate-200'
+                }`}
+              >
+                <span className="block font-bold text-slate-800">{option === 'merge' ? t('backup.merge') : t('backup.replace')}</span>
+                <span className="block text-xs font-medium text-slate-500">
+                  {option === 'merge'
+                    ? t('backup.mergeHint')
+                    : t('backup.replaceHint')}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          <ul className="space-y-2 mb-6 text-sm font-medium text-slate-600">
+            {plan.added.length > 0 && (
+              <li><span className="font-bold text-fun-mint">{t('backup.added', { count: plan.added.length })}</span>: {listTitles(titlesOf(plan.added), t)}</li>
+            )}
+            {plan.overwritten.length > 0 && (
+              <li><span className="font-bold text-fun-orange">{t('backup.overwritten', { count: plan.overwritten.length })}</span>: {listTitles(titlesOf(plan.overwritten), t)}</li>
+            )}
+            {plan.removed.length > 0 && (
+              <li><span className="font-bold text-fun-pink">{t('backup.removed', { count: plan.removed.length })}</span>: {listTitles(titlesOf(plan.removed), t)}</li>
+            )}
+            {plan.kept.length > 0 && (
+              <li><span className="font-bold text-slate-500">{t('backup.kept', { count: plan.kept.length })}</span></li>
+            )}
+            {plan.skipped.length > 0 && (
+              <li><span className="font-bold text-fun-pink">{t('backup.skipped', { count: plan.skipped.length })}</span>: {listTitles(plan.skipped, t)}</li>
+            )}
+            <li className="text-xs text-slate-400">
+              {mode === 'merge'
+                ? t('backup.heroMerge')
+                : t('backup.heroReplace')}
+            </li>
+            <li className="text-xs text-slate-400">
+              {!backup.settings
+                ? t('backup.noSettings')
+                : plan.restoresSettings ? t('backup.settingsReplace') : t('backup.settingsKept')}
+            </li>
+          </ul>
+
+          <button
+            onClick={handleRestore}
+            disabled={isRestoring || !!nothingChanges}
+            className={`w-full text-white font-display font-bold text-lg py-4 rounded-2xl shadow-comic hover:shadow-comic-hover active:translate-y-1 disabled:bg-slate-300 disabled:shadow-none transition-all ${
+              mode === 'replace' ? 'bg-fun-pink' : 'bg-fun-purple'
+            }`}
+          >
+            {isRestoring
+              ? t('backup.restoring')
+              : nothingChanges ? t('backup.nothing') : mode === 'replace' ? t('backup.replaceButton') : t('backup.mergeButton')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LibraryBackupPanel;
@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ActiveRecording, isRecordingSupported, startRecording } from '../utils/audioRecorder';
+import { playRecording, Playback } from '../utils/speech';
+import { useI18n } from '../utils/i18n';
+import { Volume2, Square, Mic, Play, Trash2 } from 'lucide-react';
+
+interface Props {
+  isReading: boolean;
+  canRead: boolean;
+  recordingUrl?: string;
+  onRead: () => void;
+  onStop: () => void;
+  onSaveRecording: (blob: Blob) => Promise<void>;
+  onDeleteRecording: () => Promise<void>;
+}
+
+const buttonClass = "flex items-center gap-1 px-3 py-1 rounded-full border-2 text-xs font-bold transition-all";
+
+const PageVoiceControls: React.FC<Props> = ({ isReading, canRead, recordingUrl, onRead, onStop, onSaveRecording, onDeleteRecording }) => {
+  const { t } = useI18n();
+  const [isRecording, setIsRecording] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const recordingRef = useRef<ActiveRecording | null>(null);
+  const playbackRef = useRef<Playback | null>(null);
+
+  // Release the microphone and stop playback if the page goes away mid-way
+  useEffect(() => () => {
+    recordingRef.current?.cancel();
+    playbackRef.current?.cancel();
+  }, []);
+
+  const handleRecord = async () => {
+    if (recordingRef.current) {
+      const blob = await recordingRef.current.stop();
+      recordingRef.current = null;
+      setIsRecording(false);
+      try {
+        await onSaveRecording(blob);
+      } catch (error) {
+        alert(t('read.saveError'));
+      }
+      return;
+    }
+    onStop();
+    try {
+      recordingRef.current = await startRecording();
+      setIsRecording(true);
+    } catch (error) {
+      console.warn("Microphone unavailable", error);
+      alert(t('read.micError'));
+    }
+  };
+
+  const handlePlay = async () => {
+    if (playbackRef.current) {
+      playbackRef.current.cancel();
+      return;
+    }
+    if (!recordingUrl) return;
+    onStop();
+    playbackRef.current = playRecording(recordingUrl);
+    setIsPlaying(true);
+    await playbackRef.current.done;
+    playbackRef.current = null;
+    setIsPlaying(false);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-4">
+      {canRead && (
+        <button
+          onClick={isReading ? onStop : onRead}
+          disabled={isRecording}
+          className={`${buttonClass} ${isReading ? 'bg-fun-sky text-white border-fun-sky' : 'bg-white text-slate-500 border-slate-200 hover:border-fun-sky hover:text-fun-sky'} disabled:opacity-40`}
+        >
+          {isReading ? <Square size={12} fill="currentColor" /> : <Volume2 size={14} />}
+          {isReading ? t('read.stop') : t('read.readPage')}
+        </button>
+      )}
+
+      {isRecordingSupported() && (
+        <button
+          onClick={handleRecord}
+          className={`${buttonClass} ${isRecording ? 'bg-fun-pink text-white border-fun-pink animate-pulse' : 'bg-white text-slate-500 border-slate-200 hover:border-fun-pink hover:text-fun-pink'}`}
+        >
+          {isRecording ? <Square size={12} fill="currentColor" /> : <Mic size={14} />}
+          {isRecording ? t('read.stopRecording') : t('read.record')}
+        </button>
+      )}
+
+      {recordingUrl && !isRecording && (
+        <>
+          <button
+            onClick={handlePlay}
+            className={`${buttonClass} ${isPlaying ? 'bg-fun-mint text-white border-fun-mint' : 'bg-white text-slate-500 border-slate-200 hover:border-fun-mint hover:text-fun-mint'}`}
+          >
+            {isPlaying ? <Square size={12} fill="currentColor" /> : <Play size={14} />}
+            {t('read.playRecording')}
+          </button>
+          <button
+            onClick={() => onDeleteRecording().catch(e => console.warn("Failed to delete recording", e))}
+            className={`${buttonClass} bg-white text-slate-400 border-slate-200 hover:border-fun-pink hover:text-fun-pink`}
+            title={t('read.deleteRecording')}
+            aria-label={t('read.deleteRecording')}
+          >
+            <Trash2 size={14} />
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PageVoiceControls;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { NarrationSettings } from '../utils/speech';
+import { useI18n } from '../utils/i18n';
+import { Play, Square, Volume2, X } from 'lucide-react';
+
+interface Props {
+  settings: NarrationSettings;
+  onChange: (settings: NarrationSettings) => void;
+  voices: SpeechSynthesisVoice[]; // Already narrowed to the story's language
+  speechSupported: boolean;
+  isReading: boolean;
+  onReadBook: () => void;
+  onStop: () => void;
+  onClose: () => void;
+}
+
+const ReadAloudBar: React.FC<Props> = ({ settings, onChange, voices, speechSupported, isReading, onReadBook, onStop, onClose }) => {
+  const { t } = useI18n();
+  const update = (patch: Partial<NarrationSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="mb-8 bg-white rounded-2xl p-4 border-4 border-fun-sky/30 shadow-comic animate-in fade-in">
+      <div className="flex flex-wrap items-center gap-4">
+        <h4 className="font-display font-bold text-slate-800 flex items-center gap-2">
+          <Volume2 size={20} className="text-fun-sky" />
+          {t('read.title')}
+        </h4>
+
+        {isReading ? (
+          <button
+            onClick={onStop}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-fun-pink text-white font-bold shadow-comic hover:shadow-comic-hover transition-all"
+          >
+            <Square size={16} fill="currentColor" /> {t('read.stop')}
+          </button>
+        ) : (
+          <button
+            onClick={onReadBook}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-fun-sky text-white font-bold shadow-comic hover:shadow-comic-hover transition-all"
+          >
+            <Play size={16} fill="currentColor" /> {t('read.readBook')}
+          </button>
+        )}
+
+        <button onClick={onClose} className="ml-auto text-slate-400 hover:text-slate-600" title={t('reader.close')} aria-label={t('reader.close')}>
+          <X size={20} />
+        </button>
+      </div>
+
+      {speechSupported ? (
+        <div className="flex flex-wrap items-center gap-x-6 gap-y-3 mt-4 text-sm font-bold text-slate-600">
+          <label className="flex items-center gap-2">
+            {t('read.voice')}
+            <select
+              value={settings.voiceURI ?? ''}
+              onChange={(e) => update({ voiceURI: e.target.value || undefined })}
+              className="max-w-[14rem] px-2 py-1 border-2 border-slate-200 rounded-lg bg-white outline-none focus:border-fun-sky"
+            >
+              <option value="">{t('read.defaultVoice')}</option>
+              {voices.map(voice => <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            {t('read.speed')}
+            <input
+              type="range"
+              min={0.5}
+              max={1.5}
+              step={0.1}
+              value={settings.rate}
+              onChange={(e) => update({ rate: Number(e.target.value) })}
+              className="accent-fun-sky"
+            />
+            <span className="w-8 text-slate-400">{settings.rate.toFixed(1)}×</span>
+          </label>
+          <label className="flex items-center gap-2">
+            {t('read.pitch')}
+            <input
+              type="range"
+              min={0.5}
+              max={1.5}
+              step={0.1}
+              value={settings.pitch}
+              onChange={(e) => update({ pitch: Number(e.target.value) })}
+              className="accent-fun-sky"
+            />
+          </label>
+        </div>
+      ) : (
+        <p className="mt-3 text-sm font-bold text-slate-500">{t('read.unsupported')}</p>
+      )}
+
+      <label className="flex items-center gap-2 mt-3 text-sm font-bold text-slate-600 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.useRecordings}
+          onChange={(e) => update({ useRecordings: e.target.checked })}
+          className="w-4 h-4 accent-fun-sky"
+        />
+        {t('read.useRecordings')}
+      </label>
+    </div>
+  );
+};
+
+export default ReadAloudBar;
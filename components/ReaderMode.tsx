@@ -0,0 +1,257 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { StoryboardData, StoryPage } from '../types';
+import { getCast } from '../utils/cast';
+import { getGenerationSettings } from '../utils/generationSettings';
+import { useI18n, getLanguage } from '../utils/i18n';
+import { ReadAloud } from '../utils/readAloud';
+import { getAltText } from '../utils/altText';
+import SpokenText from './SpokenText';
+import { ChevronLeft, ChevronRight, X, Volume2, RotateCcw, Image as ImageIcon } from 'lucide-react';
+
+interface Props {
+  story: StoryboardData;
+  readAloud: ReadAloud;
+  canReadAloud: boolean; // Speech or at least one recording is available
+  onClose: () => void;
+}
+
+type Slide = { kind: 'title' } | { kind: 'page'; page: StoryPage } | { kind: 'end' };
+
+const AUTO_ADVANCE_SECONDS = [0, 5, 10, 20];
+const SWIPE_DISTANCE = 60; // Pixels of horizontal travel that count as a page turn
+
+// Keys that turn pages. Space and Enter cover single-switch access devices, which send them.
+const NEXT_KEYS = ['ArrowRight', 'ArrowDown', 'PageDown', ' ', 'Enter'];
+const PREVIOUS_KEYS = ['ArrowLeft', 'ArrowUp', 'PageUp', 'Backspace'];
+
+/**
+ * Distraction-free, full-screen reading: one page at a time with a title and closing page,
+ * and none of the editing controls.
+ */
+const ReaderMode: React.FC<Props> = ({ story, readAloud, canReadAloud, onClose }) => {
+  const { t } = useI18n();
+  const settings = getGenerationSettings(story);
+  const hero = getCast(story)[0];
+  const slides: Slide[] = [
+    { kind: 'title' },
+    ...story.pages.map(page => ({ kind: 'page' as const, page })),
+    { kind: 'end' }
+  ];
+  const [index, setIndex] = useState(0);
+  const [autoAdvance, setAutoAdvance] = useState(0);
+  const [readToMe, setReadToMe] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const swipeStart = useRef<{ x: number; y: number } | null>(null);
+
+  const slide = slides[Math.min(index, slides.length - 1)];
+  const isLast = index >= slides.length - 1;
+  const goTo = (next: number) => setIndex(Math.max(0, Math.min(slides.length - 1, next)));
+  const next = () => goTo(index + 1);
+  const previous = () => goTo(index - 1);
+
+  const close = () => {
+    readAloud.stop();
+    onClose();
+  };
+
+  // Full screen where the browser allows it, and no page scrolling underneath either way
+  useEffect(() => {
+    containerRef.current?.requestFullscreen?.().catch(() => {});
+    const overflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = overflow;
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      // Leave keys to the control that has focus (Space on a button, arrows in a select)
+      const target = event.target as HTMLElement;
+      if (target.closest('button, select, input')) return;
+
+      if (event.key === 'Escape') close();
+      else if (event.key === 'Home') goTo(0);
+      else if (event.key === 'End') goTo(slides.length - 1);
+      else if (NEXT_KEYS.includes(event.key)) next();
+      else if (PREVIOUS_KEYS.includes(event.key)) previous();
+      else return;
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  // Read the page out if asked, then turn to the next one after the chosen pause
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const reading = readToMe && slide.kind === 'page' && slide.page.text.trim()
+      ? readAloud.readPage(slide.page)
+      : Promise.resolve();
+    reading.then(() => {
+      if (!cancelled && autoAdvance > 0 && !isLast) timer = setTimeout(() => goTo(index + 1), autoAdvance * 1000);
+    });
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      readAloud.stop();
+    };
+  }, [index, readToMe, autoAdvance]);
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    swipeStart.current = { x: event.clientX, y: event.clientY };
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    const start = swipeStart.current;
+    swipeStart.current = null;
+    if (!start) return;
+    const dx = event.clientX - start.x;
+    const dy = event.clientY - start.y;
+    if (Math.abs(dx) < SWIPE_DISTANCE || Math.abs(dx) < Math.abs(dy)) return;
+    if (dx < 0) next();
+    else previous();
+  };
+
+  const navButtonClass = "absolute top-1/2 -translate-y-1/2 p-4 rounded-full bg-white/80 border-4 border-slate-100 text-slate-500 shadow-comic hover:text-fun-sky hover:border-fun-sky disabled:opacity-0 transition-all z-10";
+
+  const renderSlide = () => {
+    if (slide.kind === 'title') {
+      return (
+        <div className="flex flex-col items-center justify-center text-center gap-8 h-full">
+          {hero?.anchor_image_url && (
+            <img
+              src={hero.anchor_image_url}
+              alt={hero.name}
+              className="w-48 h-48 md:w-64 md:h-64 rounded-full object-cover border-8 border-white shadow-comic"
+            />
+          )}
+          <h1 lang={settings.language} className="text-5xl md:text-7xl font-display font-bold text-slate-800 leading-tight max-w-4xl">
+            {story.title}
+          </h1>
+        </div>
+      );
+    }
+
+    if (slide.kind === 'end') {
+      return (
+        <div className="flex flex-col items-center justify-center text-center gap-10 h-full">
+          <h1 lang={settings.language} className="text-6xl md:text-8xl font-display font-bold text-fun-orange">
+            {getLanguage(settings.language).theEnd}
+          </h1>
+          <div className="flex flex-wrap justify-center gap-4">
+            <button
+              onClick={() => goTo(0)}
+              className="flex items-center gap-2 px-6 py-4 rounded-2xl bg-fun-sky text-white text-xl font-display font-bold shadow-comic hover:shadow-comic-hover transition-all"
+            >
+              <RotateCcw size={24} /> {t('reader.readAgain')}
+            </button>
+            <button
+              onClick={close}
+              className="flex items-center gap-2 px-6 py-4 rounded-2xl bg-white border-4 border-slate-100 text-slate-600 text-xl font-display font-bold shadow-comic hover:shadow-comic-hover transition-all"
+            >
+              <X size={24} /> {t('reader.close')}
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    const { page } = slide;
+    const isReading = readAloud.position?.pageId === page.id;
+    return (
+      <div className="flex flex-col lg:flex-row items-center justify-center gap-6 lg:gap-12 h-full">
+        <div className="w-full lg:w-1/2 flex items-center justify-center min-h-0 flex-shrink">
+          {page.image_url ? (
+            <img
+              src={page.image_url}
+              alt={getAltText(page)}
+              className="max-h-[55vh] lg:max-h-[80vh] w-auto max-w-full object-contain rounded-3xl border-4 border-white shadow-comic"
+            />
+          ) : (
+            <div className="w-64 h-64 lg:w-96 lg:h-96 rounded-3xl bg-slate-50 border-4 border-slate-100 flex items-center justify-center text-slate-300">
+              <ImageIcon size={80} className="opacity-50" />
+            </div>
+          )}
+        </div>
+        <div className="w-full lg:w-1/2 text-center lg:text-left">
+          <p lang={settings.language} className="text-3xl md:text-5xl font-sans font-bold text-slate-800 leading-snug">
+            <SpokenText text={page.text} language={settings.language} wordIndex={isReading ? readAloud.position!.wordIndex : -1} />
+          </p>
+          {page.text_secondary && (
+            <p lang={settings.secondary_language} className="mt-6 text-2xl md:text-3xl font-sans font-semibold text-slate-500 leading-snug">
+              {page.text_secondary}
+            </p>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="fixed inset-0 z-50 bg-fun-bg flex flex-col select-none"
+      role="dialog"
+      aria-modal="true"
+      aria-label={story.title}
+    >
+      {/* Controls, kept quiet so they don't compete with the page */}
+      <div className="flex flex-wrap items-center gap-4 px-4 py-3 text-sm font-bold text-slate-500 opacity-60 hover:opacity-100 focus-within:opacity-100 transition-opacity">
+        <button onClick={close} className="p-2 rounded-full hover:bg-white hover:text-fun-pink transition-colors" title={t('reader.close')} aria-label={t('reader.close')}>
+          <X size={24} />
+        </button>
+        <span aria-live="polite">{t('reader.position', { current: index + 1, total: slides.length })}</span>
+
+        <label className="ml-auto flex items-center gap-2">
+          {t('reader.turnPages')}
+          <select
+            value={autoAdvance}
+            onChange={(e) => setAutoAdvance(Number(e.target.value))}
+            className="px-2 py-1 border-2 border-slate-200 rounded-lg bg-white outline-none focus:border-fun-sky"
+          >
+            {AUTO_ADVANCE_SECONDS.map(seconds => (
+              <option key={seconds} value={seconds}>
+                {seconds ? t('reader.everySeconds', { seconds }) : t('reader.byHand')}
+              </option>
+            ))}
+          </select>
+        </label>
+        {canReadAloud && (
+          <button
+            onClick={() => setReadToMe(!readToMe)}
+            aria-pressed={readToMe}
+            className={`flex items-center gap-1 px-3 py-1 rounded-full border-2 transition-colors ${
+              readToMe ? 'bg-fun-sky text-white border-fun-sky' : 'bg-white border-slate-200 hover:border-fun-sky hover:text-fun-sky'
+            }`}
+          >
+            <Volume2 size={16} /> {t('reader.readToMe')}
+          </button>
+        )}
+      </div>
+
+      {/* Page */}
+      <div
+        className="relative flex-grow min-h-0 px-20 pb-10"
+        style={{ touchAction: 'pan-y' }}
+        onPointerDown={handlePointerDown}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => { swipeStart.current = null; }}
+      >
+        <button onClick={previous} disabled={index === 0} className={`${navButtonClass} left-4`} title={t('reader.previous')} aria-label={t('reader.previous')}>
+          <ChevronLeft size={36} strokeWidth={3} />
+        </button>
+        <div key={index} className="h-full animate-in fade-in">
+          {renderSlide()}
+        </div>
+        <button onClick={next} disabled={isLast} className={`${navButtonClass} right-4`} title={t('reader.next')} aria-label={t('reader.next')}>
+          <ChevronRight size={36} strokeWidth={3} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReaderMode;
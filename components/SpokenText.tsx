@@ -0,0 +1,30 @@
+import React from 'react';
+import { LanguageCode } from '../types';
+import { tokenizeWords } from '../utils/speech';
+
+interface Props {
+  text: string;
+  language?: LanguageCode;
+  wordIndex: number; // Word being spoken, or -1 for none
+}
+
+/**
+ * Page text with the word being read aloud highlighted.
+ */
+const SpokenText: React.FC<Props> = ({ text, language, wordIndex }) => {
+  if (wordIndex < 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let offset = 0;
+  tokenizeWords(text, language).forEach((token, i) => {
+    parts.push(text.slice(offset, token.start));
+    parts.push(
+      <span key={i} className={i === wordIndex ? 'bg-fun-yellow rounded-md' : undefined}>{token.text}</span>
+    );
+    offset = token.end;
+  });
+  parts.push(text.slice(offset));
+  return <>{parts}</>;
+};
+
+export default SpokenText;
@@ -1,12 +1,19 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { TEMPLATES, VisualComplexity, StoryMode, StoryboardData, Gender } from '../types';
-import { Wand2, BookOpen, PenTool, Star, Zap, Layout, Sparkles, Library, ArrowRight, History, Calendar, Smile, User } from 'lucide-react';
+import { TEMPLATES, VisualComplexity, StoryMode, StorySummary, Gender, HeroProfile, GenerationChoices, ART_STYLE_PRESETS, CUSTOM_ART_STYLE, SensoryProfile, SENSORY_FRIENDLY_PROFILE, TextOptions, DEFAULT_TEXT_OPTIONS, READING_LEVELS, Narration, LanguageCode, LANGUAGES } from '../types';
+import { Wand2, BookOpen, PenTool, Star, Zap, Layout, Sparkles, Library, ArrowRight, Smile, User, Camera, X, Palette, Leaf, AlignLeft, Languages, Square } from 'lucide-react';
+import { getHeroProfileFromDB, saveHeroProfileToDB, clearHeroProfileFromDB } from '../services/storageService';
+import { readImageFile } from '../utils/image';
+import { useI18n, localizeTemplate, MessageKey } from '../utils/i18n';
+import StoryLibrary, { StoryLibraryActions } from './StoryLibrary';
+
+const PAGE_COUNTS = [3, 4, 5, 6, 8, 10, 12];
 
 interface Props {
-  onGenerate: (text: string, complexity: VisualComplexity, gender: Gender) => void;
+  onGenerate: (text: string, choices: GenerationChoices, hero?: HeroProfile) => void;
   isLoading: boolean;
-  history?: StoryboardData[];
-  onSelectHistory?: (story: StoryboardData) => void;
+  onStop?: () => void; // Cancels the storyboard while it is being written
+  history?: StorySummary[];
+  library?: StoryLibraryActions;
 }
 
 const SHOWCASE_EXAMPLES = [
@@ -60,15 +67,55 @@ const SHOWCASE_EXAMPLES = [
   }
 ];
 
-const StoryInput: React.FC<Props> = ({ onGenerate, isLoading, history = [], onSelectHistory }) => {
+const StoryInput: React.FC<Props> = ({ onGenerate, isLoading, onStop, history = [], library }) => {
+  const { t, tOption, language: uiLanguage } = useI18n();
   const [mode, setMode] = useState<StoryMode>(StoryMode.TEMPLATE);
   const [customText, setCustomText] = useState('');
   const [selectedTemplate, setSelectedTemplate] = useState(TEMPLATES[0]);
   const [complexity, setComplexity] = useState<VisualComplexity>(VisualComplexity.BALANCED);
   const [gender, setGender] = useState<Gender>('boy');
+  const [artStyle, setArtStyle] = useState(ART_STYLE_PRESETS[0].id);
+  const [customStyle, setCustomStyle] = useState('');
+  const [sensory, setSensory] = useState<SensoryProfile | null>(null);
+  const [textOptions, setTextOptions] = useState<TextOptions>(DEFAULT_TEXT_OPTIONS);
+  const [narrationChosen, setNarrationChosen] = useState(false);
+  const [storyLanguage, setStoryLanguage] = useState<LanguageCode>(uiLanguage);
+  const [secondaryLanguage, setSecondaryLanguage] = useState<LanguageCode | ''>('');
+  const [hero, setHero] = useState<HeroProfile>({});
+  const [showHeroForm, setShowHeroForm] = useState(false);
   
   const textAreaRef = useRef<HTMLTextAreaElement>(null);
 
+  // Restore the hero profile saved on this device
+  useEffect(() => {
+    getHeroProfileFromDB().then(saved => {
+      if (saved) {
+        setHero(saved);
+        setShowHeroForm(true);
+      }
+    });
+  }, []);
+
+  const hasHeroProfile = Object.values(hero).some(v => v !== undefined && v !== '' && v !== false);
+
+  const updateHero = (patch: Partial<HeroProfile>) => setHero(prev => ({ ...prev, ...patch }));
+
+  const handlePhotoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      updateHero({ photo_url: await readImageFile(file) });
+    } catch (error) {
+      console.error("Failed to read photo", error);
+      alert(t('input.photoError'));
+    }
+  };
+
+  const handleForgetHero = () => {
+    setHero({});
+    clearHeroProfileFromDB().catch(e => console.warn("Failed to clear hero profile", e));
+  };
+
   // Emojis mapping for templates
   const getTemplateIcon = (id: string) => {
     switch(id) {
@@ -87,11 +134,40 @@ const StoryInput: React.FC<Props> = ({ onGenerate, isLoading, history = [], onSe
     }
   };
 
+  // Templates keep the voice they are written in until the parent picks one, so their pages
+  // aren't all flagged and rewritten for the wrong narrator
+  const narration = mode === StoryMode.TEMPLATE && !narrationChosen ? selectedTemplate.narration : textOptions.narration;
+
   const handleSubmit = () => {
     console.log("Submitting story...", { mode, customText, template: selectedTemplate.title });
-    const text = mode === StoryMode.CUSTOM ? customText : selectedTemplate.text;
+    const text = mode === StoryMode.CUSTOM ? customText : localizeTemplate(selectedTemplate, storyLanguage).text;
     if (!text.trim()) return;
-    onGenerate(text, complexity, gender);
+    if (hasHeroProfile) {
+      saveHeroProfileToDB(hero).catch(e => console.warn("Failed to save hero profile", e));
+    }
+    const stylePrompt = artStyle === CUSTOM_ART_STYLE
+      ? customStyle.trim()
+      : ART_STYLE_PRESETS.find(p => p.id === artStyle)?.prompt || '';
+    onGenerate(
+      text,
+      {
+        complexity, gender, art_style: artStyle, style_prompt: stylePrompt, sensory: sensory || undefined, text: { ...textOptions, narration },
+        language: storyLanguage,
+        secondary_language: secondaryLanguage && secondaryLanguage !== storyLanguage ? secondaryLanguage : undefined
+      },
+      hasHeroProfile ? hero : undefined
+    );
+  };
+
+  const updateTextOptions = (patch: Partial<TextOptions>) => {
+    setTextOptions(prev => {
+      const next = { ...prev, ...patch };
+      // Keep the page range valid whichever end was moved
+      if (next.min_pages > next.max_pages) {
+        return 'min_pages' in patch ? { ...next, max_pages: next.min_pages } : { ...next, min_pages: next.max_pages };
+      }
+      return next;
+    });
   };
 
   const handleLoadShowcase = (example: typeof SHOWCASE_EXAMPLES[0]) => {
@@ -101,22 +177,15 @@ const StoryInput: React.FC<Props> = ({ onGenerate, isLoading, history = [], onSe
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  const formatDate = (timestamp: number) => {
-    return new Date(timestamp).toLocaleDateString('en-US', {
-      month: 'short',
-      day: 'numeric'
-    });
-  };
-
   return (
     <div className="max-w-4xl mx-auto space-y-16">
       {/* Intro Banner */}
       <div className="text-center">
         <h2 className="text-4xl md:text-5xl font-display font-bold text-slate-800 mb-4 text-shadow-sm">
-          Let's Make a Story! 🎨
+          {t('input.heading')}
         </h2>
         <p className="text-lg text-slate-600 font-medium max-w-2xl mx-auto">
-          Create a personalized social story in seconds. Just pick a topic or write your own!
+          {t('input.intro')}
         </p>
       </div>
 
@@ -124,14 +193,15 @@ const StoryInput: React.FC<Props> = ({ onGenerate, isLoading, history = [], onSe
         
         {/* Step 1: Choose Mode */}
         <div className="p-6 md:p-8 bg-fun-bg border-b-4 border-slate-100">
-          <label className="block text-xl font-display font-bold text-slate-700 mb-6 flex items-center gap-2">
+          <h3 className="text-xl font-display font-bold text-slate-700 mb-6 flex items-center gap-2">
             <span className="bg-fun-yellow text-slate-800 w-8 h-8 rounded-full flex items-center justify-center text-sm shadow-sm border-2 border-white">1</span>
-            How do you want to start?
-          </label>
+            {t('input.step1')}
+          </h3>
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <button
               onClick={() => handleModeChange(StoryMode.TEMPLATE)}
+              aria-pressed={mode === StoryMode.TEMPLATE}
               className={`relative p-6 rounded-3xl border-4 text-left transition-all transform ${
                 mode === StoryMode.TEMPLATE
                   ? 'bg-white border-fun-sky shadow-comic scale-[1.02] z-10'
@@ -141,13 +211,14 @@ const StoryInput: React.FC<Props> = ({ onGenerate, isLoading, history = [], onSe
               <div className={`w-14 h-14 rounded-2xl flex items-center justify-center mb-4 ${mode === StoryMode.TEMPLATE ? 'bg-fun-sky text-white' : 'bg-slate-200 text-slate-400'}`}>
                 <BookOpen size={28} strokeWidth={2.5} />
               </div>
-              <h3 className={`text-xl font-bold mb-1 ${mode === StoryMode.TEMPLATE ? 'text-slate-800' : 'text-slate-500'}`}>Pick a Topic</h3>
-              <p className="text-sm font-bold opacity-80">Use our ready-made themes like sharing, waiting, or greeting.</p>
+              <h3 className={`text-xl font-bold mb-1 ${mode === StoryMode.TEMPLATE ? 'text-slate-800' : 'text-slate-500'}`}>{t('input.templateMode')}</h3>
+              <p className="text-sm font-bold opacity-80">{t('input.templateModeHint')}</p>
               {mode === StoryMode.TEMPLATE && <div className="absolute top-4 right-4 text-fun-sky"><Star size={24} fill="currentColor" /></div>}
             </button>
 
             <button
               onClick={() => handleModeChange(StoryMode.CUSTOM)}
+              aria-pressed={mode === StoryMode.CUSTOM}
               className={`relative p-6 rounded-3xl border-4 text-left transition-all transform ${
                 mode === StoryMode.CUSTOM
                   ? 'bg-white border-fun-pink shadow-comic scale-[1.02] z-10'
@@ -157,46 +228,76 @@ const StoryInput: React.FC<Props> = ({ onGenerate, isLoading, history = [], onSe
               <div className={`w-14 h-14 rounded-2xl flex items-center justify-center mb-4 ${mode === StoryMode.CUSTOM ? 'bg-fun-pink text-white' : 'bg-slate-200 text-slate-400'}`}>
                 <PenTool size={28} strokeWidth={2.5} />
               </div>
-              <h3 className={`text-xl font-bold mb-1 ${mode === StoryMode.CUSTOM ? 'text-slate-800' : 'text-slate-500'}`}>Write My Own</h3>
-              <p className="text-sm font-bold opacity-80">Paste a specific scenario or write a custom story text.</p>
+              <h3 className={`text-xl font-bold mb-1 ${mode === StoryMode.CUSTOM ? 'text-slate-800' : 'text-slate-500'}`}>{t('input.customMode')}</h3>
+              <p className="text-sm font-bold opacity-80">{t('input.customModeHint')}</p>
               {mode === StoryMode.CUSTOM && <div className="absolute top-4 right-4 text-fun-pink"><Star size={24} fill="currentColor" /></div>}
             </button>
           </div>
+
+          {/* Story Language */}
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-3 mt-6 text-sm font-bold text-slate-600">
+            <label className="flex items-center gap-2">
+              <Languages size={18} className="text-fun-sky" />
+              {t('input.language')}
+              <select
+                value={storyLanguage}
+                onChange={(e) => setStoryLanguage(e.target.value as LanguageCode)}
+                className="px-2 py-1 border-2 border-slate-200 rounded-lg bg-white outline-none focus:border-fun-sky"
+              >
+                {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              {t('input.secondLanguage')}
+              <select
+                value={secondaryLanguage}
+                onChange={(e) => setSecondaryLanguage(e.target.value as LanguageCode | '')}
+                className="px-2 py-1 border-2 border-slate-200 rounded-lg bg-white outline-none focus:border-fun-sky"
+              >
+                <option value="">{t('input.noSecondLanguage')}</option>
+                {LANGUAGES.filter(l => l.code !== storyLanguage).map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+              </select>
+            </label>
+            {secondaryLanguage && secondaryLanguage !== storyLanguage && (
+              <span className="text-xs text-slate-400">{t('input.bilingualHint')}</span>
+            )}
+          </div>
         </div>
 
         {/* Step 2: Input Content */}
         <div className="p-6 md:p-8 border-b-4 border-slate-100 relative">
-           <label className="block text-xl font-display font-bold text-slate-700 mb-6 flex items-center gap-2">
+           <h3 className="text-xl font-display font-bold text-slate-700 mb-6 flex items-center gap-2">
             <span className="bg-fun-orange text-white w-8 h-8 rounded-full flex items-center justify-center text-sm shadow-sm border-2 border-white">2</span>
-            {mode === StoryMode.TEMPLATE ? 'Choose a Theme' : 'Type your Story'}
-          </label>
+            {mode === StoryMode.TEMPLATE ? t('input.chooseTheme') : t('input.typeStory')}
+          </h3>
 
           {mode === StoryMode.TEMPLATE ? (
             <div className="space-y-6 animate-in fade-in duration-300">
               <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-                {TEMPLATES.map((t) => (
+                {TEMPLATES.map((template) => (
                   <button
-                    key={t.id}
-                    onClick={() => setSelectedTemplate(t)}
+                    key={template.id}
+                    onClick={() => setSelectedTemplate(template)}
+                    aria-pressed={selectedTemplate.id === template.id}
                     className={`p-4 rounded-2xl border-4 transition-all text-center group ${
-                      selectedTemplate.id === t.id
+                      selectedTemplate.id === template.id
                         ? 'bg-fun-yellow/10 border-fun-yellow shadow-comic scale-[1.02]'
                         : 'bg-white border-slate-200 hover:border-fun-yellow/50'
                     }`}
                   >
-                    <div className="text-5xl mb-3 transform group-hover:scale-110 transition-transform duration-300">
-                      {getTemplateIcon(t.id)}
+                    <div className="text-5xl mb-3 transform group-hover:scale-110 transition-transform duration-300" aria-hidden="true">
+                      {getTemplateIcon(template.id)}
                     </div>
-                    <div className="font-bold text-slate-800 mb-1">{t.title}</div>
+                    <div className="font-bold text-slate-800 mb-1">{localizeTemplate(template, storyLanguage).title}</div>
                   </button>
                 ))}
               </div>
               <div className="bg-slate-50 p-6 rounded-2xl border-2 border-slate-200 border-dashed relative">
                 <div className="absolute -top-3 left-6 bg-slate-200 text-slate-600 text-xs font-bold px-3 py-1 rounded-full uppercase tracking-wider">
-                  Story Preview
+                  {t('input.preview')}
                 </div>
                 <p className="text-slate-600 font-medium italic text-lg leading-relaxed">
-                  "{selectedTemplate.text}"
+                  "{localizeTemplate(selectedTemplate, storyLanguage).text}"
                 </p>
               </div>
             </div>
@@ -206,12 +307,12 @@ const StoryInput: React.FC<Props> = ({ onGenerate, isLoading, history = [], onSe
                 ref={textAreaRef}
                 value={customText}
                 onChange={(e) => setCustomText(e.target.value)}
-                placeholder="Start typing here... Example: 'Tom wants the toy train, but Sally is playing with it. Tom takes a deep breath and asks nicely...'"
+                placeholder={t('input.placeholder')}
                 className="w-full h-48 p-6 text-lg border-4 border-slate-300 rounded-3xl bg-slate-50 focus:bg-white focus:border-fun-pink focus:ring-4 focus:ring-fun-pink/10 outline-none resize-none transition-all placeholder:text-slate-400 font-medium text-slate-800 caret-pink-500"
               />
               <div className="mt-2 text-right">
                 <span className={`text-sm font-bold ${!customText ? 'text-slate-400' : 'text-fun-pink'}`}>
-                  {customText.length > 0 ? 'Ready to go!' : 'Please enter your story text above'}
+                  {customText.length > 0 ? t('input.ready') : t('input.empty')}
                 </span>
               </div>
             </div>
@@ -220,52 +321,162 @@ const StoryInput: React.FC<Props> = ({ onGenerate, isLoading, history = [], onSe
 
         {/* Step 3: Main Character (New) */}
         <div className="p-6 md:p-8 bg-slate-50 border-b-4 border-slate-100">
-          <label className="block text-xl font-display font-bold text-slate-700 mb-6 flex items-center gap-2">
+          <h3 className="text-xl font-display font-bold text-slate-700 mb-6 flex items-center gap-2">
             <span className="bg-fun-pink text-white w-8 h-8 rounded-full flex items-center justify-center text-sm shadow-sm border-2 border-white">3</span>
-            Who is the hero?
-          </label>
+            {t('input.step3')}
+          </h3>
           
           <div className="flex gap-4">
             <button
               onClick={() => setGender('boy')}
+              aria-pressed={gender === 'boy'}
               className={`flex-1 p-4 rounded-2xl border-4 transition-all flex items-center justify-center gap-3 ${
                 gender === 'boy'
                   ? 'bg-white border-blue-400 shadow-comic scale-[1.02] z-10'
                   : 'bg-white border-slate-200 hover:border-blue-200'
               }`}
             >
-              <div className="text-3xl">👦</div>
-              <span className="font-bold text-lg text-slate-700">Boy</span>
+              <div className="text-3xl" aria-hidden="true">👦</div>
+              <span className="font-bold text-lg text-slate-700">{t('input.boy')}</span>
               {gender === 'boy' && <div className="text-blue-500"><Smile size={20} /></div>}
             </button>
             
             <button
               onClick={() => setGender('girl')}
+              aria-pressed={gender === 'girl'}
               className={`flex-1 p-4 rounded-2xl border-4 transition-all flex items-center justify-center gap-3 ${
                 gender === 'girl'
                   ? 'bg-white border-pink-400 shadow-comic scale-[1.02] z-10'
                   : 'bg-white border-slate-200 hover:border-pink-200'
               }`}
             >
-              <div className="text-3xl">👧</div>
-              <span className="font-bold text-lg text-slate-700">Girl</span>
+              <div className="text-3xl" aria-hidden="true">👧</div>
+              <span className="font-bold text-lg text-slate-700">{t('input.girl')}</span>
               {gender === 'girl' && <div className="text-pink-500"><Smile size={20} /></div>}
             </button>
           </div>
+
+          {/* Personalized Hero */}
+          <button
+            onClick={() => setShowHeroForm(!showHeroForm)}
+            className="mt-4 flex items-center gap-2 text-sm font-bold text-fun-purple hover:text-fun-pink transition-colors"
+            aria-expanded={showHeroForm}
+          >
+            <User size={16} />
+            {showHeroForm ? t('input.hideHero') : t('input.showHero')}
+          </button>
+
+          {showHeroForm && (
+            <div className="mt-4 bg-white p-6 rounded-2xl border-4 border-slate-100 animate-in fade-in duration-300">
+              <div className="flex flex-col md:flex-row gap-6">
+                {/* Photo */}
+                <div className="shrink-0 flex flex-col items-center">
+                  <label className="w-32 h-32 rounded-2xl border-4 border-dashed border-slate-200 bg-slate-50 hover:border-fun-pink focus-within:border-fun-pink focus-within:ring-4 focus-within:ring-fun-pink/30 cursor-pointer overflow-hidden flex items-center justify-center transition-colors">
+                    {hero.photo_url ? (
+                      <img src={hero.photo_url} alt={t('input.childPhoto')} className="w-full h-full object-cover" />
+                    ) : (
+                      <div className="flex flex-col items-center text-slate-400">
+                        <Camera size={28} />
+                        <span className="text-xs font-bold mt-1">{t('input.addPhoto')}</span>
+                      </div>
+                    )}
+                    {/* Visually hidden rather than display:none, so it can still be reached with Tab */}
+                    <input type="file" accept="image/*" onChange={handlePhotoUpload} className="sr-only" aria-label={t('input.addPhoto')} />
+                  </label>
+                  {hero.photo_url && (
+                    <button
+                      onClick={() => updateHero({ photo_url: undefined })}
+                      className="mt-2 text-xs font-bold text-slate-400 hover:text-fun-pink flex items-center gap-1"
+                    >
+                      <X size={12} /> {t('input.removePhoto')}
+                    </button>
+                  )}
+                  <p className="mt-2 text-[10px] font-bold text-slate-400 text-center max-w-[8rem]">
+                    {t('input.photoPrivacy')}
+                  </p>
+                </div>
+
+                {/* Blueprint */}
+                <div className="flex-grow grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {([
+                    ['name', 'input.heroName', 'input.heroNamePlaceholder'],
+                    ['hair', 'blueprint.hair', 'input.hairPlaceholder'],
+                    ['skin_tone', 'blueprint.skin_tone', 'input.skinTonePlaceholder'],
+                    ['clothing', 'input.favoriteClothing', 'input.clothingPlaceholder'],
+                  ] as const).map(([key, label, placeholder]) => (
+                    <label key={key} className="block">
+                      <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{t(label)}</span>
+                      <input
+                        value={hero[key] ?? ''}
+                        placeholder={t(placeholder)}
+                        onChange={(e) => updateHero({ [key]: e.target.value })}
+                        className="w-full p-3 border-2 border-slate-200 rounded-xl bg-slate-50 focus:bg-white focus:border-fun-pink outline-none transition-all font-medium text-slate-800"
+                      />
+                    </label>
+                  ))}
+
+                  <div className="sm:col-span-2 flex flex-wrap gap-3">
+                    {([
+                      ['glasses', '👓', 'input.glasses'],
+                      ['wheelchair', '🦽', 'input.wheelchair'],
+                      ['aac_device', '💬', 'input.aacDevice'],
+                    ] as const).map(([key, icon, label]) => (
+                      <label
+                        key={key}
+                        className={`px-4 py-2 rounded-full border-2 font-bold text-sm cursor-pointer transition-all ${
+                          hero[key] ? 'bg-fun-pink/10 border-fun-pink text-slate-800' : 'bg-white border-slate-200 text-slate-500 hover:border-fun-pink/50'
+                        }`}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={!!hero[key]}
+                          onChange={(e) => updateHero({ [key]: e.target.checked })}
+                          className="sr-only"
+                        />
+                        {icon} {t(label)}
+                      </label>
+                    ))}
+                  </div>
+
+                  <label className="block sm:col-span-2">
+                    <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{t('input.notes')}</span>
+                    <input
+                      value={hero.notes ?? ''}
+                      placeholder={t('input.notesPlaceholder')}
+                      onChange={(e) => updateHero({ notes: e.target.value })}
+                      className="w-full p-3 border-2 border-slate-200 rounded-xl bg-slate-50 focus:bg-white focus:border-fun-pink outline-none transition-all font-medium text-slate-800"
+                    />
+                  </label>
+                </div>
+              </div>
+
+              {hasHeroProfile && (
+                <div className="mt-4 text-right">
+                  <button
+                    onClick={handleForgetHero}
+                    className="text-xs font-bold text-slate-400 hover:text-fun-pink underline"
+                  >
+                    {t('input.forgetHero')}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Step 4: Complexity */}
         <div className="p-6 md:p-8 bg-white border-t-4 border-slate-100">
-          <label className="block text-xl font-display font-bold text-slate-700 mb-6 flex items-center gap-2">
+          <h3 className="text-xl font-display font-bold text-slate-700 mb-6 flex items-center gap-2">
             <span className="bg-fun-mint text-white w-8 h-8 rounded-full flex items-center justify-center text-sm shadow-sm border-2 border-white">4</span>
-            Choose Visual Style
-          </label>
+            {t('input.step4')}
+          </h3>
 
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             {[VisualComplexity.MINIMAL, VisualComplexity.BALANCED, VisualComplexity.RICH].map((level) => (
               <button
                 key={level}
                 onClick={() => setComplexity(level)}
+                aria-pressed={complexity === level}
                 className={`p-4 rounded-2xl border-4 flex flex-col items-center transition-all ${
                   complexity === level
                     ? 'bg-fun-bg border-fun-purple shadow-comic scale-[1.02] z-10'
@@ -279,15 +490,161 @@ const StoryInput: React.FC<Props> = ({ onGenerate, isLoading, history = [], onSe
                   {level === VisualComplexity.BALANCED && <Zap size={24} />}
                   {level === VisualComplexity.RICH && <Sparkles size={24} />}
                 </div>
-                <span className="font-bold text-slate-800">{level}</span>
-                <span className="text-xs text-slate-500 font-bold mt-1 text-center">
-                  {level === VisualComplexity.MINIMAL && "Simple & Clear"}
-                  {level === VisualComplexity.BALANCED && "Standard Detail"}
-                  {level === VisualComplexity.RICH && "Full Backgrounds"}
-                </span>
+                <span className="font-bold text-slate-800">{t(`complexity.${level}`)}</span>
+                <span className="text-xs text-slate-500 font-bold mt-1 text-center">{t(`complexity.${level}Hint`)}</span>
               </button>
             ))}
           </div>
+
+          {/* Art Style */}
+          <p className="text-sm font-bold text-slate-500 uppercase tracking-wider mt-8 mb-3 flex items-center gap-2">
+            <Palette size={16} /> {t('input.artStyle')}
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {[...ART_STYLE_PRESETS, { id: CUSTOM_ART_STYLE, label: 'Custom', description: 'Describe your own style' }].map((preset) => (
+              <button
+                key={preset.id}
+                onClick={() => setArtStyle(preset.id)}
+                aria-pressed={artStyle === preset.id}
+                className={`p-3 rounded-2xl border-4 text-left transition-all ${
+                  artStyle === preset.id
+                    ? 'bg-fun-bg border-fun-purple shadow-comic'
+                    : 'bg-white border-slate-200 hover:border-fun-purple/50'
+                }`}
+              >
+                <span className="block font-bold text-slate-800">{tOption(`artStyle.${preset.id}`, preset.label)}</span>
+                <span className="block text-xs text-slate-500 font-bold mt-1">{tOption(`artStyle.${preset.id}Hint`, preset.description)}</span>
+              </button>
+            ))}
+          </div>
+          {artStyle === CUSTOM_ART_STYLE && (
+            <textarea
+              value={customStyle}
+              onChange={(e) => setCustomStyle(e.target.value)}
+              placeholder={t('input.customStylePlaceholder')}
+              className="w-full mt-3 p-4 border-4 border-slate-100 rounded-2xl focus:border-fun-purple outline-none font-medium text-slate-800 resize-none h-24"
+              aria-label={t('input.customStyleLabel')}
+            />
+          )}
+
+          {/* Sensory Profile */}
+          <div className={`mt-8 rounded-2xl border-4 p-4 transition-all ${sensory ? 'border-fun-mint bg-fun-mint/5' : 'border-slate-100'}`}>
+            <label className="flex items-center gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!sensory}
+                onChange={(e) => setSensory(e.target.checked ? SENSORY_FRIENDLY_PROFILE : null)}
+                className="w-5 h-5 accent-fun-mint"
+              />
+              <Leaf size={20} className="text-fun-mint" />
+              <span>
+                <span className="block font-bold text-slate-800">{t('input.sensory')}</span>
+                <span className="block text-xs font-bold text-slate-500">{t('input.sensoryHint')}</span>
+              </span>
+            </label>
+
+            {sensory && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-4 pl-8">
+                {([
+                  ['muted_palette', 'input.mutedPalette'],
+                  ['literal_only', 'input.literalOnly'],
+                  ['no_busy_patterns', 'input.noBusyPatterns']
+                ] as [keyof SensoryProfile, MessageKey][]).map(([key, label]) => (
+                  <label key={key} className="flex items-center gap-2 text-sm font-bold text-slate-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!!sensory[key]}
+                      onChange={(e) => setSensory({ ...sensory, [key]: e.target.checked })}
+                      className="w-4 h-4 accent-fun-mint"
+                    />
+                    {t(label)}
+                  </label>
+                ))}
+                <label className="flex items-center gap-2 text-sm font-bold text-slate-600">
+                  {t('input.maxColors')}
+                  <select
+                    value={sensory.max_colors ?? 0}
+                    onChange={(e) => setSensory({ ...sensory, max_colors: Number(e.target.value) || undefined })}
+                    className="px-2 py-1 border-2 border-slate-200 rounded-lg bg-white outline-none focus:border-fun-mint"
+                  >
+                    <option value={0}>{t('input.anyColors')}</option>
+                    {[3, 4, 5, 6, 8].map(n => <option key={n} value={n}>{n}</option>)}
+                  </select>
+                </label>
+              </div>
+            )}
+          </div>
+
+          {/* Words on the Page */}
+          <p className="text-sm font-bold text-slate-500 uppercase tracking-wider mt-8 mb-3 flex items-center gap-2">
+            <AlignLeft size={16} /> {t('input.words')}
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {READING_LEVELS.map((level) => (
+              <button
+                key={level.id}
+                onClick={() => updateTextOptions({ reading_level: level.id })}
+                aria-pressed={textOptions.reading_level === level.id}
+                className={`p-3 rounded-2xl border-4 text-left transition-all ${
+                  textOptions.reading_level === level.id
+                    ? 'bg-fun-bg border-fun-purple shadow-comic'
+                    : 'bg-white border-slate-200 hover:border-fun-purple/50'
+                }`}
+              >
+                <span className="block font-bold text-slate-800">{tOption(`readingLevel.${level.id}`, level.label)}</span>
+                <span className="block text-xs text-slate-500 font-bold mt-1">{t('input.ages', { ages: level.ages })}</span>
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-3 mt-4 text-sm font-bold text-slate-600">
+            <label className="flex items-center gap-2">
+              {t('input.maxWords')}
+              <select
+                value={textOptions.max_words_per_page}
+                onChange={(e) => updateTextOptions({ max_words_per_page: Number(e.target.value) })}
+                className="px-2 py-1 border-2 border-slate-200 rounded-lg bg-white outline-none focus:border-fun-purple"
+              >
+                {[5, 10, 15, 20, 30, 40].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              {t('input.pages')}
+              <select
+                value={textOptions.min_pages}
+                onChange={(e) => updateTextOptions({ min_pages: Number(e.target.value) })}
+                className="px-2 py-1 border-2 border-slate-200 rounded-lg bg-white outline-none focus:border-fun-purple"
+                aria-label={t('input.fewestPages')}
+              >
+                {PAGE_COUNTS.map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+              {t('input.pagesTo')}
+              <select
+                value={textOptions.max_pages}
+                onChange={(e) => updateTextOptions({ max_pages: Number(e.target.value) })}
+                className="px-2 py-1 border-2 border-slate-200 rounded-lg bg-white outline-none focus:border-fun-purple"
+                aria-label={t('input.mostPages')}
+              >
+                {PAGE_COUNTS.map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <div className="flex rounded-xl border-2 border-slate-200 overflow-hidden" role="group" aria-label={t('input.narration')}>
+              {([['first_person', 'input.firstPerson'], ['third_person', 'input.thirdPerson']] as [Narration, MessageKey][]).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => {
+                    setNarrationChosen(true);
+                    updateTextOptions({ narration: value });
+                  }}
+                  aria-pressed={narration === value}
+                  className={`px-3 py-1 transition-colors ${
+                    narration === value ? 'bg-fun-purple text-white' : 'bg-white hover:bg-slate-50'
+                  }`}
+                >
+                  {t(label)}
+                </button>
+              ))}
+            </div>
+          </div>
         </div>
 
         {/* Submit Area */}
@@ -295,69 +652,35 @@ const StoryInput: React.FC<Props> = ({ onGenerate, isLoading, history = [], onSe
           <button
             onClick={handleSubmit}
             disabled={isLoading || (mode === StoryMode.CUSTOM && !customText.trim())}
+            aria-busy={isLoading}
             className="w-full bg-fun-sky hover:bg-fun-sky/90 disabled:bg-slate-300 disabled:shadow-none disabled:translate-y-0 text-white font-display font-bold text-xl py-5 rounded-2xl shadow-comic hover:shadow-comic-hover active:shadow-comic-active active:translate-y-1 transition-all flex items-center justify-center space-x-3"
           >
             {isLoading ? (
               <>
                 <div className="animate-spin rounded-full h-6 w-6 border-b-4 border-white"></div>
-                <span>Dreaming up your story...</span>
+                <span>{t('input.loading')}</span>
               </>
             ) : (
               <>
                 <Wand2 size={28} strokeWidth={2.5} />
-                <span>Create Magic Storybook!</span>
+                <span>{t('input.submit')}</span>
               </>
             )}
           </button>
+          {isLoading && onStop && (
+            <button
+              onClick={onStop}
+              className="mt-3 mx-auto flex items-center gap-1 px-4 py-2 rounded-xl border-2 border-slate-200 text-slate-500 font-bold hover:text-fun-pink hover:border-fun-pink transition-colors"
+            >
+              <Square size={14} fill="currentColor" /> {t('book.stop')}
+            </button>
+          )}
+          <p role="status" className="sr-only">{isLoading ? t('input.loading') : ''}</p>
         </div>
       </div>
       
-      {/* History Showcase - NEW SECTION */}
-      {history.length > 0 && (
-        <div className="animate-in fade-in slide-in-from-bottom-4 duration-700">
-           <div className="flex items-center space-x-3 mb-6 justify-center md:justify-start">
-            <div className="bg-white p-3 rounded-2xl shadow-sm border-2 border-slate-100">
-               <History size={24} className="text-fun-pink" />
-            </div>
-            <h3 className="text-3xl font-display font-bold text-slate-800">
-              Your Story Collection
-            </h3>
-          </div>
-          
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-16">
-            {history.map((story) => (
-              <button
-                key={story.uid}
-                onClick={() => onSelectHistory?.(story)}
-                className="group bg-white p-5 rounded-3xl border-4 border-slate-100 hover:border-fun-pink hover:shadow-comic transition-all text-left flex flex-col relative overflow-hidden"
-              >
-                 {/* Preview Image or Placeholder */}
-                 <div className="w-full h-40 bg-slate-100 rounded-xl mb-4 overflow-hidden border-2 border-slate-50 relative">
-                    {story.pages[0]?.image_url ? (
-                      <img src={story.pages[0].image_url} alt="Cover" className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500" />
-                    ) : (
-                      <div className="w-full h-full flex flex-col items-center justify-center text-slate-300">
-                        <Sparkles size={32} />
-                      </div>
-                    )}
-                    {/* Timestamp Badge */}
-                    <div className="absolute top-2 right-2 bg-white/90 backdrop-blur-sm px-2 py-1 rounded-lg text-[10px] font-bold text-slate-500 flex items-center gap-1 shadow-sm">
-                      <Calendar size={10} />
-                      {formatDate(story.createdAt)}
-                    </div>
-                 </div>
-
-                 <h4 className="text-lg font-bold text-slate-800 line-clamp-1 mb-1 group-hover:text-fun-pink transition-colors">
-                   {story.title}
-                 </h4>
-                 <p className="text-slate-500 text-xs font-bold uppercase tracking-wider mb-2 line-clamp-1">
-                   {story.purpose.split(':')[0]}
-                 </p>
-              </button>
-            ))}
-          </div>
-        </div>
-      )}
+      {/* Story Collection */}
+      {library && <StoryLibrary stories={history} {...library} />}
 
       {/* Library Showcase */}
       <div>
@@ -366,7 +689,7 @@ const StoryInput: React.FC<Props> = ({ onGenerate, isLoading, history = [], onSe
              <Library size={24} className="text-fun-purple" />
           </div>
           <h3 className="text-3xl font-display font-bold text-slate-800">
-            Explore Our Story Library
+            {t('input.showcase')}
           </h3>
         </div>
 
@@ -401,8 +724,8 @@ const StoryInput: React.FC<Props> = ({ onGenerate, isLoading, history = [], onSe
                    "{story.text}"
                  </p>
                  <div className="mt-4 pt-4 border-t border-slate-100 flex items-center gap-2">
-                    <span className="text-xs font-bold text-slate-400">Style:</span>
-                    <span className="text-xs font-bold bg-slate-100 px-2 py-1 rounded text-slate-600">{story.complexity}</span>
+                    <span className="text-xs font-bold text-slate-400">{t('input.showcaseStyle')}</span>
+                    <span className="text-xs font-bold bg-slate-100 px-2 py-1 rounded text-slate-600">{t(`complexity.${story.complexity}`)}</span>
                  </div>
                </div>
             </button>
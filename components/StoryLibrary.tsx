@@ -0,0 +1,353 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { StorySummary, STORY_CATEGORIES } from '../types';
+import { getImageFromDB } from '../services/storageService';
+import { BUNDLE_EXTENSION } from '../services/storyBundle';
+import { RestoreMode } from '../services/storageService';
+import { LibraryBackup } from '../services/libraryBackup';
+import LibraryBackupPanel from './LibraryBackupPanel';
+import { collectTags, filterStories, LibrarySort } from '../utils/library';
+import { useI18n, UiLanguage } from '../utils/i18n';
+import { History, Calendar, Sparkles, Search, Pencil, Copy, Trash2, Tag, Check, X, Share2, Upload } from 'lucide-react';
+
+export interface StoryLibraryActions {
+  onSelect: (story: StorySummary) => void;
+  onRename: (uid: string, title: string) => void;
+  onUpdateTags: (uid: string, tags: string[]) => void;
+  onDuplicate: (story: StorySummary) => void;
+  onDelete: (uid: string) => void;
+  onExport: (story: StorySummary) => void;
+  onImport: (file: File) => void;
+  onBackup: () => void;
+  onRestore: (backup: LibraryBackup, mode: RestoreMode) => Promise<boolean>; // false when the restore failed
+}
+
+interface Props extends StoryLibraryActions {
+  stories: StorySummary[];
+}
+
+const PAGE_SIZE = 12;
+
+const formatDate = (timestamp: number, language: UiLanguage) => {
+  return new Date(timestamp).toLocaleDateString(language, {
+    month: 'short',
+    day: 'numeric'
+  });
+};
+
+/**
+ * Loads a cover from the image store only once its card is rendered.
+ */
+const LazyCover: React.FC<{ imageKey: string }> = ({ imageKey }) => {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    getImageFromDB(imageKey).then(blob => {
+      if (blob && !cancelled) {
+        objectUrl = URL.createObjectURL(blob);
+        setSrc(objectUrl);
+      }
+    });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [imageKey]);
+
+  if (!src) return <div className="w-full h-full bg-slate-100 animate-pulse" />;
+  return <img src={src} alt="" className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500" />;
+};
+
+const StoryLibrary: React.FC<Props> = ({ stories, onSelect, onRename, onUpdateTags, onDuplicate, onDelete, onExport, onImport, onBackup, onRestore }) => {
+  const { t, language } = useI18n();
+  const [query, setQuery] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [sort, setSort] = useState<LibrarySort>('newest');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [renamingUid, setRenamingUid] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [taggingUid, setTaggingUid] = useState<string | null>(null);
+  const [newTag, setNewTag] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const allTags = collectTags(stories);
+  const tagSuggestions = [...new Set([...STORY_CATEGORIES, ...allTags])];
+  const results = filterStories(stories, query, activeTag, sort);
+  const visible = results.slice(0, visibleCount);
+
+  const startRename = (story: StorySummary) => {
+    setRenamingUid(story.uid);
+    setRenameValue(story.title);
+  };
+
+  const commitRename = () => {
+    if (renamingUid && renameValue.trim()) {
+      onRename(renamingUid, renameValue.trim());
+    }
+    setRenamingUid(null);
+  };
+
+  const toggleTag = (story: StorySummary, tag: string) => {
+    const tags = story.tags || [];
+    onUpdateTags(story.uid, tags.includes(tag) ? tags.filter(other => other !== tag) : [...tags, tag]);
+  };
+
+  const addCustomTag = (story: StorySummary) => {
+    const tag = newTag.trim();
+    if (tag && !story.tags?.includes(tag)) {
+      onUpdateTags(story.uid, [...(story.tags || []), tag]);
+    }
+    setNewTag('');
+  };
+
+  const handleDelete = (story: StorySummary) => {
+    if (window.confirm(t('library.confirmDelete', { title: story.title }))) {
+      onDelete(story.uid);
+    }
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = '';
+  };
+
+  const importButton = (
+    <>
+      <button
+        onClick={() => importInputRef.current?.click()}
+        className="flex items-center gap-2 px-4 py-2 bg-white border-2 border-slate-200 rounded-xl text-sm font-bold text-slate-600 hover:border-fun-sky hover:text-fun-sky transition-all"
+      >
+        <Upload size={16} />
+        {t('library.import')}
+      </button>
+      <input
+        ref={importInputRef}
+        type="file"
+        accept={`${BUNDLE_EXTENSION},application/zip`}
+        onChange={handleImportFile}
+        className="hidden"
+      />
+    </>
+  );
+
+  const backupPanel = <LibraryBackupPanel stories={stories} onBackup={onBackup} onRestore={onRestore} />;
+
+  if (stories.length === 0) {
+    return (
+      <div className="mb-16 flex flex-col items-center">
+        <div className="mb-2">{importButton}</div>
+        {backupPanel}
+      </div>
+    );
+  }
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="flex items-center space-x-3 mb-6 justify-center md:justify-start">
+        <div className="bg-white p-3 rounded-2xl shadow-sm border-2 border-slate-100">
+          <History size={24} className="text-fun-pink" />
+        </div>
+        <h3 className="text-3xl font-display font-bold text-slate-800">
+          {t('library.title')}
+        </h3>
+        <span className="text-sm font-bold text-slate-400">({stories.length})</span>
+        <div className="flex-grow" />
+        {importButton}
+      </div>
+
+      {backupPanel}
+
+      {/* Search & Filters */}
+      <div className="flex flex-col md:flex-row gap-3 mb-4">
+        <div className="relative flex-grow">
+          <Search size={18} className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            value={query}
+            onChange={(e) => { setQuery(e.target.value); setVisibleCount(PAGE_SIZE); }}
+            placeholder={t('library.searchPlaceholder')}
+            className="w-full pl-11 pr-4 py-3 border-4 border-slate-100 rounded-2xl bg-white focus:border-fun-pink outline-none font-medium text-slate-800"
+            aria-label={t('library.search')}
+          />
+        </div>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as LibrarySort)}
+          className="px-4 py-3 border-4 border-slate-100 rounded-2xl bg-white font-bold text-slate-600 outline-none focus:border-fun-pink"
+          aria-label={t('library.sort')}
+        >
+          <option value="newest">{t('library.newest')}</option>
+          <option value="oldest">{t('library.oldest')}</option>
+          <option value="title">{t('library.byTitle')}</option>
+        </select>
+      </div>
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-6">
+          <button
+            onClick={() => setActiveTag(null)}
+            className={`px-3 py-1 rounded-full text-xs font-bold border-2 transition-all ${
+              activeTag === null ? 'bg-fun-pink text-white border-fun-pink' : 'bg-white text-slate-500 border-slate-200 hover:border-fun-pink'
+            }`}
+          >
+            {t('library.all')}
+          </button>
+          {allTags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => { setActiveTag(activeTag === tag ? null : tag); setVisibleCount(PAGE_SIZE); }}
+              className={`px-3 py-1 rounded-full text-xs font-bold border-2 transition-all ${
+                activeTag === tag ? 'bg-fun-pink text-white border-fun-pink' : 'bg-white text-slate-500 border-slate-200 hover:border-fun-pink'
+              }`}
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {results.length === 0 ? (
+        <p className="text-center text-slate-400 font-bold py-12 mb-16">{t('library.noResults')}</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-6">
+          {visible.map((story) => (
+            <div
+              key={story.uid}
+              className="group bg-white p-5 rounded-3xl border-4 border-slate-100 hover:border-fun-pink hover:shadow-comic transition-all text-left flex flex-col relative overflow-hidden"
+            >
+              {/* Preview Image or Placeholder */}
+              <button
+                onClick={() => onSelect(story)}
+                className="w-full h-40 bg-slate-100 rounded-xl mb-4 overflow-hidden border-2 border-slate-50 relative"
+                aria-label={t('library.open', { title: story.title })}
+              >
+                {story.coverImageKey ? (
+                  <LazyCover imageKey={story.coverImageKey} />
+                ) : (
+                  <div className="w-full h-full flex flex-col items-center justify-center text-slate-300">
+                    <Sparkles size={32} />
+                    {story.phase && story.phase !== 'book' && (
+                      <span className="text-xs font-bold mt-2">{t('library.draft')}</span>
+                    )}
+                  </div>
+                )}
+                {/* Timestamp Badge */}
+                <div className="absolute top-2 right-2 bg-white/90 backdrop-blur-sm px-2 py-1 rounded-lg text-[10px] font-bold text-slate-500 flex items-center gap-1 shadow-sm">
+                  <Calendar size={10} />
+                  {formatDate(story.createdAt, language)}
+                </div>
+              </button>
+
+              {renamingUid === story.uid ? (
+                <div className="flex gap-2 mb-1">
+                  <input
+                    value={renameValue}
+                    autoFocus
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setRenamingUid(null);
+                    }}
+                    className="flex-grow min-w-0 px-2 py-1 border-2 border-fun-pink rounded-lg font-bold text-slate-800 outline-none"
+                    aria-label={t('library.newTitle')}
+                  />
+                  <button onClick={commitRename} className="text-fun-mint" title={t('library.saveTitle')} aria-label={t('library.saveTitle')}><Check size={18} /></button>
+                  <button onClick={() => setRenamingUid(null)} className="text-slate-400" title={t('book.cancel')} aria-label={t('book.cancel')}><X size={18} /></button>
+                </div>
+              ) : (
+                <button onClick={() => onSelect(story)} className="text-left">
+                  <h4 className="text-lg font-bold text-slate-800 line-clamp-1 mb-1 group-hover:text-fun-pink transition-colors">
+                    {story.title}
+                  </h4>
+                </button>
+              )}
+              <p className="text-slate-500 text-xs font-bold uppercase tracking-wider mb-2 line-clamp-1">
+                {story.purpose.split(':')[0]}
+              </p>
+
+              {story.tags && story.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1 mb-2">
+                  {story.tags.map(tag => (
+                    <span key={tag} className="px-2 py-0.5 rounded-full bg-fun-bg border border-slate-200 text-[10px] font-bold text-slate-600">
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {/* Tag Editor */}
+              {taggingUid === story.uid && (
+                <div className="mb-2 p-3 bg-slate-50 rounded-xl border-2 border-slate-100">
+                  <div className="flex flex-wrap gap-1 mb-2">
+                    {tagSuggestions.map(tag => (
+                      <button
+                        key={tag}
+                        onClick={() => toggleTag(story, tag)}
+                        aria-pressed={!!story.tags?.includes(tag)}
+                        className={`px-2 py-0.5 rounded-full text-[10px] font-bold border transition-all ${
+                          story.tags?.includes(tag) ? 'bg-fun-sky text-white border-fun-sky' : 'bg-white text-slate-500 border-slate-200'
+                        }`}
+                      >
+                        {tag}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex gap-2">
+                    <input
+                      value={newTag}
+                      onChange={(e) => setNewTag(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && addCustomTag(story)}
+                      placeholder={t('library.tagPlaceholder')}
+                      className="flex-grow min-w-0 px-2 py-1 border-2 border-slate-200 rounded-lg text-xs font-medium outline-none focus:border-fun-sky"
+                    />
+                    <button onClick={() => addCustomTag(story)} className="text-xs font-bold text-fun-sky">{t('library.addTag')}</button>
+                  </div>
+                </div>
+              )}
+
+              {/* Actions */}
+              <div className="mt-auto pt-3 border-t border-slate-100 flex gap-1 justify-end">
+                <button onClick={() => startRename(story)} className="p-2 rounded-lg text-slate-400 hover:text-fun-sky hover:bg-fun-bg" title={t('library.rename')} aria-label={t('library.rename')}>
+                  <Pencil size={16} />
+                </button>
+                <button
+                  onClick={() => setTaggingUid(taggingUid === story.uid ? null : story.uid)}
+                  className={`p-2 rounded-lg hover:bg-fun-bg ${taggingUid === story.uid ? 'text-fun-sky' : 'text-slate-400 hover:text-fun-sky'}`}
+                  title={t('library.editTags')}
+                  aria-label={t('library.editTags')}
+                  aria-expanded={taggingUid === story.uid}
+                >
+                  <Tag size={16} />
+                </button>
+                <button onClick={() => onDuplicate(story)} className="p-2 rounded-lg text-slate-400 hover:text-fun-mint hover:bg-fun-bg" title={t('library.duplicate')} aria-label={t('library.duplicate')}>
+                  <Copy size={16} />
+                </button>
+                <button onClick={() => onExport(story)} className="p-2 rounded-lg text-slate-400 hover:text-fun-purple hover:bg-fun-bg" title={t('library.share')} aria-label={t('library.share')}>
+                  <Share2 size={16} />
+                </button>
+                <button onClick={() => handleDelete(story)} className="p-2 rounded-lg text-slate-400 hover:text-fun-pink hover:bg-fun-bg" title={t('library.delete')} aria-label={t('library.delete')}>
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {results.length > visibleCount && (
+        <div className="text-center mb-16">
+          <button
+            onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+            className="px-6 py-3 bg-white border-4 border-slate-100 rounded-2xl font-bold text-slate-600 hover:border-fun-pink hover:text-fun-pink transition-all"
+          >
+            {t('library.showMore', { count: results.length - visibleCount })}
+          </button>
+        </div>
+      )}
+      {results.length > 0 && results.length <= visibleCount && <div className="mb-10" />}
+    </div>
+  );
+};
+
+export default StoryLibrary;
@@ -0,0 +1,430 @@
+import React, { useState } from 'react';
+import { StoryboardData, StoryPage, StoryCharacter, CharacterBlueprint } from '../types';
+import { getCast, getMainCharacter, updateCharacter } from '../utils/cast';
+import { useI18n, getLanguage } from '../utils/i18n';
+import { analyzeStory, describeIssue, describeIssues, describePageCountIssue, getReadingLevel, MIN_DESCRIPTIVE_RATIO, SentenceType } from '../utils/storyGuidelines';
+import { ArrowLeft, ArrowUp, ArrowDown, Trash2, Plus, Palette, Users, Paintbrush, Star, ClipboardCheck, AlertTriangle, CheckCircle, Wand2 } from 'lucide-react';
+
+interface Props {
+  story: StoryboardData;
+  onChange: (story: StoryboardData) => void;
+  onRewritePage: (pageId: number, problems: string[]) => Promise<void>;
+  onConfirm: () => void;
+  onReset: () => void;
+}
+
+const BLUEPRINT_FIELDS: Exclude<keyof CharacterBlueprint, 'age'>[] = ['hair', 'skin_tone', 'clothing', 'expression_style', 'accessories'];
+
+const SENTENCE_TYPES: SentenceType[] = ['descriptive', 'perspective', 'affirmative', 'directive'];
+
+const inputClass = "w-full p-3 border-2 border-slate-200 rounded-xl bg-slate-50 focus:bg-white focus:border-fun-sky outline-none transition-all font-medium text-slate-800";
+
+const StoryboardEditor: React.FC<Props> = ({ story, onChange, onRewritePage, onConfirm, onReset }) => {
+  const { t, tOption } = useI18n();
+  const [rewritingIds, setRewritingIds] = useState<number[]>([]);
+  const secondaryLanguage = story.settings?.secondary_language;
+  const analysis = analyzeStory(story);
+  const flaggedPages = analysis.pages.filter(p => p.issues.length > 0).length;
+
+  const handleRewrite = async (pageId: number) => {
+    const page = analysis.pages.find(p => p.pageId === pageId);
+    if (!page) return;
+    setRewritingIds(prev => [...prev, pageId]);
+    try {
+      await onRewritePage(pageId, describeIssues(page.issues));
+    } finally {
+      setRewritingIds(prev => prev.filter(id => id !== pageId));
+    }
+  };
+
+  const updatePage = (pageId: number, patch: Partial<StoryPage>) => {
+    onChange({
+      ...story,
+      pages: story.pages.map(p => p.id === pageId ? { ...p, ...patch } : p)
+    });
+  };
+
+  const cast = getCast(story);
+
+  const updateBlueprint = (character: StoryCharacter, patch: Partial<CharacterBlueprint>) => {
+    onChange(updateCharacter(story, character.id, { blueprint: { ...character.blueprint, ...patch } }));
+  };
+
+  const addCharacter = () => {
+    const main = getMainCharacter(story);
+    const newCharacter: StoryCharacter = {
+      id: `character-${Date.now().toString(36)}`,
+      name: '',
+      role: 'friend',
+      is_main: false,
+      blueprint: { ...main.blueprint, hair: '', clothing: '' },
+    };
+    onChange({ ...story, characters: [...cast, newCharacter] });
+  };
+
+  const deleteCharacter = (characterId: string) => {
+    onChange({
+      ...story,
+      characters: cast.filter(c => c.id !== characterId),
+      pages: story.pages.map(p => p.character_ids
+        ? { ...p, character_ids: p.character_ids.filter(id => id !== characterId) }
+        : p)
+    });
+  };
+
+  const togglePageCharacter = (page: StoryPage, characterId: string) => {
+    const current = page.character_ids ?? [getMainCharacter(story).id];
+    const character_ids = current.includes(characterId)
+      ? current.filter(id => id !== characterId)
+      : [...current, characterId];
+    updatePage(page.id, { character_ids });
+  };
+
+  const movePage = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= story.pages.length) return;
+    const pages = [...story.pages];
+    [pages[index], pages[target]] = [pages[target], pages[index]];
+    onChange({ ...story, pages });
+  };
+
+  const deletePage = (pageId: number) => {
+    onChange({ ...story, pages: story.pages.filter(p => p.id !== pageId) });
+  };
+
+  const addPage = (afterIndex: number) => {
+    const nextId = story.pages.reduce((max, p) => Math.max(max, p.id), 0) + 1;
+    const pages = [...story.pages];
+    pages.splice(afterIndex + 1, 0, {
+      id: nextId,
+      text: '',
+      action_description: '',
+      character_ids: [getMainCharacter(story).id],
+      is_generating: false
+    });
+    onChange({ ...story, pages });
+  };
+
+  const readingLevelLabel = (id: string) => {
+    const level = getReadingLevel(id);
+    return tOption(`readingLevel.${level.id}`, level.label);
+  };
+
+  const canConfirm = story.pages.length > 0
+    && story.pages.every(p => p.text.trim() && p.action_description.trim())
+    && cast.every(c => c.name.trim());
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      {/* Navigation */}
+      <div className="mb-8">
+        <button
+          onClick={onReset}
+          className="group flex items-center space-x-2 text-slate-500 hover:text-fun-sky font-bold mb-3 transition-colors px-2"
+        >
+          <div className="bg-white p-2 rounded-full shadow-sm border border-slate-200 group-hover:border-fun-sky">
+            <ArrowLeft size={18} />
+          </div>
+          <span>{t('editor.startOver')}</span>
+        </button>
+
+        <input
+          value={story.title}
+          onChange={(e) => onChange({ ...story, title: e.target.value })}
+          className="w-full text-4xl font-display font-bold text-slate-800 bg-transparent border-b-4 border-transparent focus:border-fun-yellow outline-none leading-tight"
+          aria-label={t('editor.storyTitle')}
+        />
+        <p className="text-slate-500 font-bold mt-2">
+          {t('editor.intro')}
+        </p>
+      </div>
+
+      {/* Cast */}
+      <div className="bg-white rounded-3xl shadow-comic border-4 border-slate-100 p-6 mb-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-display font-bold text-slate-700 flex items-center gap-2">
+            <Users size={20} className="text-fun-pink" />
+            {t('editor.cast')}
+          </h3>
+          <button
+            onClick={addCharacter}
+            className="flex items-center gap-1 px-3 py-1 bg-white border-2 border-dashed border-slate-200 rounded-full text-xs font-bold text-slate-400 hover:text-fun-mint hover:border-fun-mint transition-all"
+          >
+            <Plus size={14} />
+            {t('editor.addCharacter')}
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {cast.map((character) => (
+            <div key={character.id} className="rounded-2xl border-2 border-slate-100 bg-fun-bg p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                {character.is_main && <Star size={18} className="text-fun-yellow shrink-0" fill="currentColor" />}
+                <input
+                  value={character.name}
+                  placeholder={t('editor.characterName')}
+                  onChange={(e) => onChange(updateCharacter(story, character.id, { name: e.target.value }))}
+                  className={`${inputClass} font-bold`}
+                  aria-label={t('editor.characterName')}
+                />
+                {!character.is_main && (
+                  <button
+                    onClick={() => deleteCharacter(character.id)}
+                    className="p-2 rounded-xl border-2 border-slate-100 bg-white text-slate-500 hover:text-fun-pink hover:border-fun-pink transition-colors"
+                    title={t('editor.removeCharacter')}
+                    aria-label={t('editor.removeCharacter')}
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block">
+                  <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{t('editor.role')}</span>
+                  <input
+                    value={character.role}
+                    onChange={(e) => onChange(updateCharacter(story, character.id, { role: e.target.value }))}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{t('blueprint.age')}</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={character.blueprint.age}
+                    onChange={(e) => updateBlueprint(character, { age: Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                </label>
+                {BLUEPRINT_FIELDS.map((key) => (
+                  <label key={key} className="block">
+                    <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{t(`blueprint.${key}`)}</span>
+                    <input
+                      value={(character.blueprint[key] as string | undefined) ?? ''}
+                      onChange={(e) => updateBlueprint(character, { [key]: e.target.value })}
+                      className={inputClass}
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Style */}
+      <div className="bg-white rounded-3xl shadow-comic border-4 border-slate-100 p-6 mb-12">
+        <h3 className="text-xl font-display font-bold text-slate-700 mb-4 flex items-center gap-2">
+          <Palette size={20} className="text-fun-purple" />
+          {t('editor.styleGuide')}
+        </h3>
+        <textarea
+          value={story.visual_style_guide}
+          onChange={(e) => onChange({ ...story, visual_style_guide: e.target.value })}
+          className={`${inputClass} h-40 resize-none`}
+        />
+      </div>
+
+      {/* Social Story Guidelines */}
+      <div className="bg-white rounded-3xl shadow-comic border-4 border-slate-100 p-6 mb-12">
+        <h3 className="text-xl font-display font-bold text-slate-700 mb-4 flex items-center gap-2">
+          <ClipboardCheck size={20} className="text-fun-mint" />
+          {t('editor.check')}
+        </h3>
+        <div className="flex flex-wrap gap-2 mb-4">
+          {analysis.wordingChecked && SENTENCE_TYPES.map((type) => (
+            <span key={type} className="px-3 py-1 rounded-full bg-slate-100 text-xs font-bold text-slate-600">
+              {t(`sentence.${type}`)}: {analysis.counts[type]}
+            </span>
+          ))}
+          {analysis.wordingChecked && (
+            <span className="px-3 py-1 rounded-full bg-slate-100 text-xs font-bold text-slate-600">
+              {t('editor.grade', { grade: analysis.gradeLevel })}
+            </span>
+          )}
+          {story.settings?.text && (
+            <span className="px-3 py-1 rounded-full bg-slate-100 text-xs font-bold text-slate-600">
+              {t('editor.levelLimit', { level: readingLevelLabel(story.settings.text.reading_level), words: story.settings.text.max_words_per_page })}
+            </span>
+          )}
+        </div>
+        {analysis.wordingChecked ? (
+          <p className={`flex items-center gap-2 text-sm font-bold ${analysis.meetsRatio ? 'text-fun-mint' : 'text-fun-orange'}`}>
+            {analysis.meetsRatio ? <CheckCircle size={16} /> : <AlertTriangle size={16} />}
+            {analysis.ratio === null
+              ? t('editor.noDirectives')
+              : t('editor.ratio', { ratio: analysis.ratio, target: MIN_DESCRIPTIVE_RATIO })}
+          </p>
+        ) : (
+          <p className="text-sm font-bold text-slate-500">
+            {t('editor.englishOnly')}
+          </p>
+        )}
+        {analysis.pageCountIssue && (
+          <p className="flex items-center gap-2 text-sm font-bold text-fun-orange mt-1">
+            <AlertTriangle size={16} />
+            {describePageCountIssue(analysis.pageCountIssue, t)}
+          </p>
+        )}
+        <p className="text-sm font-medium text-slate-500 mt-1">
+          {flaggedPages === 0
+            ? t('editor.noProblems')
+            : flaggedPages === 1 ? t('editor.flaggedOne') : t('editor.flaggedMany', { count: flaggedPages })}
+        </p>
+      </div>
+
+      {/* Pages */}
+      <div className="space-y-6 mb-12">
+        {story.pages.map((page, index) => {
+          const issues = analysis.pages[index].issues;
+          const isRewriting = rewritingIds.includes(page.id);
+          return (
+            <div key={page.id} className="relative bg-white rounded-3xl shadow-comic border-4 border-slate-100 p-6">
+              <div className="absolute -left-3 -top-3 w-10 h-10 bg-fun-orange text-white font-display font-bold text-xl rounded-full flex items-center justify-center shadow-lg border-2 border-white z-10">
+                {index + 1}
+              </div>
+
+              <div className="flex justify-end gap-2 mb-3">
+                <button
+                  onClick={() => movePage(index, -1)}
+                  disabled={index === 0}
+                  className="p-2 rounded-xl border-2 border-slate-100 text-slate-500 hover:text-fun-sky hover:border-fun-sky disabled:opacity-30 transition-colors"
+                  title={t('editor.moveUp')}
+                  aria-label={t('editor.moveUp')}
+                >
+                  <ArrowUp size={18} />
+                </button>
+                <button
+                  onClick={() => movePage(index, 1)}
+                  disabled={index === story.pages.length - 1}
+                  className="p-2 rounded-xl border-2 border-slate-100 text-slate-500 hover:text-fun-sky hover:border-fun-sky disabled:opacity-30 transition-colors"
+                  title={t('editor.moveDown')}
+                  aria-label={t('editor.moveDown')}
+                >
+                  <ArrowDown size={18} />
+                </button>
+                <button
+                  onClick={() => deletePage(page.id)}
+                  disabled={story.pages.length === 1}
+                  className="p-2 rounded-xl border-2 border-slate-100 text-slate-500 hover:text-fun-pink hover:border-fun-pink disabled:opacity-30 transition-colors"
+                  title={t('editor.deletePage')}
+                  aria-label={t('editor.deletePage')}
+                >
+                  <Trash2 size={18} />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-3">
+                  <label className="block">
+                    <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{t('editor.pageText')}</span>
+                    <textarea
+                      value={page.text}
+                      onChange={(e) => updatePage(page.id, { text: e.target.value })}
+                      className={`${inputClass} h-32 resize-none text-lg`}
+                    />
+                  </label>
+                  {secondaryLanguage && (
+                    <label className="block">
+                      <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+                        {t('editor.translation', { language: getLanguage(secondaryLanguage).label })}
+                      </span>
+                      <textarea
+                        value={page.text_secondary ?? ''}
+                        onChange={(e) => updatePage(page.id, { text_secondary: e.target.value })}
+                        className={`${inputClass} h-20 resize-none`}
+                      />
+                    </label>
+                  )}
+                </div>
+                <label className="block">
+                  <span className="text-xs font-bold text-fun-purple uppercase tracking-wider">{t('editor.visualCue')}</span>
+                  <textarea
+                    value={page.action_description}
+                    onChange={(e) => updatePage(page.id, { action_description: e.target.value })}
+                    className={`${inputClass} h-32 resize-none text-sm`}
+                  />
+                </label>
+              </div>
+
+              {issues.length > 0 && (
+                <div className="mt-4 p-4 bg-fun-orange/10 border-2 border-fun-orange/30 rounded-2xl">
+                  <div className="flex justify-between items-start gap-4">
+                    <ul className="space-y-1 text-sm text-slate-700">
+                      {issues.map((issue, issueIndex) => (
+                        <li key={issueIndex}>
+                          <span className="font-bold">{t(`issue.${issue.kind}`)}</span>
+                          {issue.kind !== 'reading_level' && <span className="italic"> "{issue.sentence}"</span>}
+                          <span className="text-slate-500"> · {describeIssue(issue, t)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                    <button
+                      onClick={() => handleRewrite(page.id)}
+                      disabled={isRewriting}
+                      className="shrink-0 flex items-center gap-1 px-3 py-2 bg-white border-2 border-fun-orange/40 rounded-xl text-xs font-bold text-slate-700 hover:border-fun-orange disabled:opacity-50 transition-all"
+                    >
+                      <Wand2 size={14} className={isRewriting ? 'animate-spin' : ''} />
+                      {isRewriting ? t('editor.rewriting') : t('editor.rewrite')}
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {cast.length > 1 && (
+                <div className="flex flex-wrap items-center gap-2 mt-4">
+                  <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{t('editor.onThisPage')}</span>
+                  {cast.map((character) => {
+                    const present = (page.character_ids ?? [getMainCharacter(story).id]).includes(character.id);
+                    return (
+                      <button
+                        key={character.id}
+                        onClick={() => togglePageCharacter(page, character.id)}
+                        aria-pressed={present}
+                        className={`px-3 py-1 rounded-full text-xs font-bold border-2 transition-all ${
+                          present
+                            ? 'bg-fun-sky text-white border-fun-sky'
+                            : 'bg-white text-slate-400 border-slate-200 hover:border-fun-sky'
+                        }`}
+                      >
+                        {character.name || t('editor.unnamed')}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+
+              <div className="flex justify-center mt-4">
+                <button
+                  onClick={() => addPage(index)}
+                  className="flex items-center gap-1 px-3 py-1 bg-white border-2 border-dashed border-slate-200 rounded-full text-xs font-bold text-slate-400 hover:text-fun-mint hover:border-fun-mint transition-all"
+                >
+                  <Plus size={14} />
+                  {t('editor.addPage')}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Confirm */}
+      <button
+        onClick={onConfirm}
+        disabled={!canConfirm}
+        className="w-full bg-fun-sky hover:bg-fun-sky/90 disabled:bg-slate-300 disabled:shadow-none disabled:translate-y-0 text-white font-display font-bold text-xl py-5 rounded-2xl shadow-comic hover:shadow-comic-hover active:shadow-comic-active active:translate-y-1 transition-all flex items-center justify-center space-x-3"
+      >
+        <Paintbrush size={28} strokeWidth={2.5} />
+        <span>{t('editor.confirm')}</span>
+      </button>
+      {!canConfirm && (
+        <p className="mt-2 text-center text-sm font-bold text-fun-pink">
+          {t('editor.incomplete')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default StoryboardEditor;
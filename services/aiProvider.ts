@@ -0,0 +1,90 @@
+import { StoryboardData, VisualComplexity, CharacterBlueprint, StoryCharacter, HeroProfile, GenerationChoices, SensoryProfile, LanguageCode } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockService";
+
+/**
+ * Style inputs shared by every image backend.
+ */
+export interface ImageStyleConfig {
+  globalPrompt?: string; // The Master Style Guide
+  blueprint?: CharacterBlueprint; // Fallback
+  complexity: VisualComplexity;
+  characters?: StoryCharacter[]; // Cast present in this scene
+  stylePrompt?: string; // Art style chosen for the book
+  sensory?: SensoryProfile;
+}
+
+/**
+ * A visual reference passed alongside the prompt, labelled so the model knows whom it shows.
+ */
+export interface ReferenceImage {
+  url: string;
+  label?: string;
+}
+
+/**
+ * Per-call controls. Aborting `signal` stops waiting on the backend.
+ */
+export interface GenerationOptions {
+  signal?: AbortSignal;
+  model?: string; // Overrides the provider's default, e.g. to redraw with the model a book was made with
+}
+
+/**
+ * Turns raw story text into a structured storyboard (Phase 1).
+ */
+export interface StoryboardGenerator {
+  generateStoryboard(
+    storyText: string,
+    choices: GenerationChoices,
+    hero?: HeroProfile,
+    options?: GenerationOptions
+  ): Promise<StoryboardData>;
+}
+
+/**
+ * Paints a single page and returns it as a data URL (Phase 2).
+ */
+export interface ImageGenerator {
+  generatePageImage(
+    pageDesc: string,
+    styleConfig: ImageStyleConfig,
+    references?: ReferenceImage[],
+    options?: GenerationOptions
+  ): Promise<string>;
+}
+
+/**
+ * Rewrites one page's text to fix the listed problems (e.g. social story guideline issues),
+ * and translates page text for bilingual books.
+ */
+export interface TextRewriter {
+  rewritePageText(text: string, problems: string[], options?: GenerationOptions): Promise<string>;
+  translatePageText(text: string, language: LanguageCode, options?: GenerationOptions): Promise<string>;
+}
+
+export type ProviderId = 'gemini' | 'mock';
+
+export interface AIProvider extends StoryboardGenerator, ImageGenerator, TextRewriter {
+  id: ProviderId;
+  label: string;
+  models: { storyboard: string; image: string }; // Defaults, recorded on each new story
+}
+
+const PROVIDERS: Record<ProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+/**
+ * Resolves the active backend.
+ * `AI_PROVIDER` wins when set; otherwise Gemini is used if a key is configured,
+ * and the offline mock if not.
+ */
+export const getAIProvider = (): AIProvider => {
+  const requested = process.env.AI_PROVIDER as ProviderId | undefined;
+  if (requested && PROVIDERS[requested]) {
+    return PROVIDERS[requested];
+  }
+  return process.env.API_KEY ? PROVIDERS.gemini : PROVIDERS.mock;
+};
@@ -1,24 +1,195 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { StoryboardData, VisualComplexity, CharacterBlueprint, Gender } from "../types";
+import { StoryboardData, StoryPage, VisualComplexity, StoryCharacter, CharacterBlueprint, HeroProfile, GenerationChoices, SensoryProfile, TextOptions, DEFAULT_TEXT_OPTIONS, LanguageCode, DEFAULT_LANGUAGE } from "../types";
+import type { AIProvider, ImageStyleConfig, ReferenceImage, GenerationOptions } from "./aiProvider";
+import { GenerationError, classifyError, withRetry } from "./generationErrors";
+import { createStoryUid } from "../utils/library";
+import { assignCharacterIds, describeBlueprint, describeHeroAccessories } from "../utils/cast";
+import { getReadingLevel } from "../utils/storyGuidelines";
+import { getLanguage } from "../utils/i18n";
+import { isObject } from "../utils/validation";
 
 // Note: API Key must be in process.env.API_KEY
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// The client is created on first use so the app can boot without a key (e.g. on the mock provider).
+let client: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
 
 const STORYBOARD_MODEL = "gemini-2.5-flash";
 const IMAGE_MODEL = "gemini-2.5-flash-image"; // Efficient image generation
 
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+const COMPLEXITY_GUIDES: Record<VisualComplexity, string> = {
+  [VisualComplexity.MINIMAL]: "Keep backgrounds solid color or empty. Focus purely on the main action.",
+  [VisualComplexity.BALANCED]: "Simple, recognisable background with only a few supporting details.",
+  [VisualComplexity.RICH]: "Standard storybook composition with a fully detailed background."
+};
+
+/**
+ * Prompt rules for a sensory profile; empty when nothing is enabled.
+ */
+const describeSensoryRules = (sensory?: SensoryProfile): string[] => {
+  if (!sensory) return [];
+  const rules: string[] = [];
+  if (sensory.literal_only) {
+    rules.push("LITERAL ONLY: Show only what physically happens. NO thought bubbles, symbols, sparkles, glows, worry lines or any visual metaphor. Show feelings through facial expression and body language alone.");
+  }
+  if (sensory.muted_palette) {
+    rules.push("MUTED PALETTE: Soft, low-saturation colors and even, gentle lighting. No neon, glare or dramatic light effects.");
+  }
+  if (sensory.no_busy_patterns) {
+    rules.push("NO BUSY PATTERNS: Plain surfaces and clothing. No stripes, checks, dense textures or cluttered objects.");
+  }
+  if (sensory.max_colors) {
+    rules.push(`LIMITED COLORS: Use at most ${sensory.max_colors} distinct colors in the whole picture.`);
+  }
+  return rules;
+};
+
+/**
+ * Prompt lines for the page text: reading level, length and who tells the story.
+ */
+const describeTextRules = ({ reading_level, max_words_per_page, narration }: TextOptions): string[] => {
+  const level = getReadingLevel(reading_level);
+  return [
+    `Reading level: ${level.label} (ages ${level.ages}). ${level.guidance}`,
+    `At most ${max_words_per_page} words per page. Count them; a page over the limit is wrong.`,
+    narration === 'first_person'
+      ? `Told by the child in the first person ("I", "me", "my"). Never use the child's name in the page text.`
+      : `Told in the third person about the child, using their name, "he", "she" or "they". Never use "I" for the child.`,
+  ];
+};
+
+/**
+ * Turns the parent's hero profile into prompt lines the storyboard must respect.
+ */
+const describeHeroProfile = (hero: HeroProfile): string => {
+  const lines = [
+    hero.name?.trim() && `- Name: ${hero.name.trim()}`,
+    hero.hair?.trim() && `- Hair: ${hero.hair.trim()}`,
+    hero.skin_tone?.trim() && `- Skin tone: ${hero.skin_tone.trim()}`,
+    hero.clothing?.trim() && `- Favorite clothing (wear it on every page): ${hero.clothing.trim()}`,
+  ];
+  const accessories = describeHeroAccessories(hero);
+  if (accessories) lines.push(`- Always shown with: ${accessories}`);
+  if (hero.photo_url) lines.push(`- A photo of the child is attached. Base the blueprint on it (hair, skin tone, face), described in words.`);
+  return lines.filter(Boolean).join('\n');
+};
+
+/**
+ * The storyboard JSON as the model returns it, before names are resolved into cast ids.
+ */
+interface RawCharacter extends CharacterBlueprint {
+  name: string;
+  role: string;
+}
+
+interface RawPage {
+  id: number;
+  text: string;
+  text_secondary?: string;
+  action_description: string;
+  characters?: string[];
+}
+
+interface RawStoryboardResponse {
+  title: string;
+  purpose?: string;
+  character_blueprint: CharacterBlueprint;
+  main_character_name?: string;
+  supporting_characters: RawCharacter[];
+  visual_style_guide: string;
+  pages: RawPage[];
+}
+
+const incompleteStoryboard = (detail: string): GenerationError =>
+  new GenerationError('unknown', `The storyboard came back incomplete (${detail}). Please try again.`);
+
+const isBlueprint = (value: unknown): value is CharacterBlueprint =>
+  isObject(value) && typeof value.age === 'number'
+  && ['hair', 'skin_tone', 'clothing', 'expression_style'].every(field => typeof value[field] === 'string')
+  && (value.accessories === undefined || typeof value.accessories === 'string');
+
+/**
+ * Checks the model's JSON before it is used. The schema is a request, not a guarantee:
+ * a missing required field fails the storyboard, while unusable extras (a supporting
+ * character without a name, a non-text cast entry) are dropped.
+ */
+const parseStoryboardResponse = (json: string): RawStoryboardResponse => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw incompleteStoryboard("the answer was not valid JSON");
+  }
+  if (!isObject(raw)) throw incompleteStoryboard("no storyboard found");
+  if (typeof raw.title !== 'string') throw incompleteStoryboard("no title");
+  if (typeof raw.visual_style_guide !== 'string') throw incompleteStoryboard("no style guide");
+  if (!isBlueprint(raw.character_blueprint)) throw incompleteStoryboard("no main character");
+  if (!Array.isArray(raw.pages) || raw.pages.length === 0) throw incompleteStoryboard("no pages");
+
+  const pages = raw.pages.map((page: unknown, index: number): RawPage => {
+    if (!isObject(page) || typeof page.text !== 'string' || typeof page.action_description !== 'string') {
+      throw incompleteStoryboard(`page ${index + 1} is missing its text or visual cue`);
+    }
+    return {
+      id: typeof page.id === 'number' ? page.id : index + 1,
+      text: page.text,
+      text_secondary: typeof page.text_secondary === 'string' ? page.text_secondary : undefined,
+      action_description: page.action_description,
+      characters: Array.isArray(page.characters)
+        ? page.characters.filter((name: unknown): name is string => typeof name === 'string')
+        : undefined,
+    };
+  });
+
+  const supporting = Array.isArray(raw.supporting_characters) ? raw.supporting_characters : [];
+  const supporting_characters = supporting.filter((c: unknown): c is RawCharacter =>
+    isObject(c) && typeof c.name === 'string' && c.name.trim() !== '' && isBlueprint(c)
+  ).map(c => ({ ...c, role: typeof c.role === 'string' ? c.role : 'supporting character' }));
+
+  return {
+    title: raw.title,
+    purpose: typeof raw.purpose === 'string' ? raw.purpose : undefined,
+    character_blueprint: raw.character_blueprint,
+    main_character_name: typeof raw.main_character_name === 'string' ? raw.main_character_name : undefined,
+    supporting_characters,
+    visual_style_guide: raw.visual_style_guide,
+    pages,
+  };
+};
+
 /**
  * Generates the storyboard structure: Character Blueprint + Page Breakdown + Master Style Guide.
  */
 export const generateStoryboard = async (
   storyText: string,
-  complexity: VisualComplexity,
-  gender: Gender
+  { complexity, gender, style_prompt, sensory, text = DEFAULT_TEXT_OPTIONS, language = DEFAULT_LANGUAGE, secondary_language }: GenerationChoices,
+  hero?: HeroProfile,
+  options: GenerationOptions = {}
 ): Promise<StoryboardData> => {
   
-  const complexityGuide = complexity === VisualComplexity.MINIMAL 
-    ? "Keep backgrounds solid color or empty. Focus purely on the main action." 
-    : "Standard storybook composition.";
+  const complexityGuide = COMPLEXITY_GUIDES[complexity];
+  const textRules = describeTextRules(text);
+  const languageName = getLanguage(language).promptName;
+  const secondaryName = secondary_language && secondary_language !== language ? getLanguage(secondary_language).promptName : null;
+  textRules.unshift(`Write the title, purpose and every page's text in ${languageName}, even if the story below is in another language.`);
+  if (secondaryName) {
+    textRules.push(`Also give each page's text in ${secondaryName} as "text_secondary": a faithful, equally simple translation.`);
+  }
+  const sensoryRules = describeSensoryRules(sensory);
+
+  // A sensory profile replaces the metaphor and "inspiring setting" guidance
+  const sceneGuidance = sensory?.literal_only
+    ? `* SHOW FEELINGS LITERALLY: Describe only observable actions, facial expressions and body language. NEVER use thought bubbles, symbols, sparkles or other visual metaphors.`
+    : `* VISUALIZE INNER THOUGHTS & EMOTIONS: To help children understand feelings (Theory of Mind), explicitly describe visual metaphors in the scene (e.g., "a thought bubble showing a red truck", "stormy scribbles above head to show frustration", "bright sparkles around hands to show sharing magic", "a heart glowing on the chest").`;
+  const settingGuidance = sensoryRules.length > 0
+    ? `* Keep the setting CALM and uncluttered: only the objects the scene needs.`
+    : `* Make the setting INSPIRING and detailed to spark curiosity (unless complexity is Minimal).`;
 
   const prompt = `
     You are an expert Special Education teacher and illustrator. 
@@ -30,24 +201,32 @@ export const generateStoryboard = async (
     """
     
     Visual Complexity Level: ${complexity} (${complexityGuide})
-    Main Character Gender: ${gender}
+    ${gender ? `Main Character Gender: ${gender}` : ''}
+    ${sensoryRules.length > 0 ? `Sensory Profile (the child is easily overwhelmed; every page and the style guide MUST follow these):\n${sensoryRules.map(r => `- ${r}`).join('\n')}` : ''}
+    ${style_prompt ? `Required Art Style (chosen by the parent, use it in the style guide): ${style_prompt}` : ''}
+    Page Text Rules (every page MUST follow these):
+    ${textRules.map(r => `- ${r}`).join('\n    ')}
+    ${hero ? `Main Character Profile (provided by the parent, MUST be respected exactly):\n${describeHeroProfile(hero)}` : ''}
 
     Task:
-    1. Extract a consistent main character "blueprint".
+    1. Extract a consistent main character "blueprint", and the main character's name.
+       Also list EVERY other recurring person (teacher, sibling, friend, parent) as a supporting character with their own blueprint.
+       Invent a fitting appearance when the story does not describe one, and make each person clearly distinguishable.
     2. Create a "Master Visual Style Guide" (Global Prompt). 
-       - MUST include: Art style definition (e.g., "Soft watercolor", "Vibrant digital art"), Character details (exact hair color/style, skin tone, clothing colors/patterns).
+       - MUST include: Art style definition (the Required Art Style if given, otherwise e.g. "Soft watercolor", "Vibrant digital art"), Character details (exact hair color/style, skin tone, clothing colors/patterns).
        - MUST NOT include: Specific actions (like "running"), specific settings (like "park"), or specific emotions. It must be neutral enough to apply to ANY scene.
        - GOAL: This paragraph defines WHO is in the book and HOW it looks, but not WHAT is happening.
-    3. Break the story into 5-8 distinct pages (scenes).
+    3. Break the story into ${text.min_pages}-${text.max_pages} distinct pages (scenes). Never more than ${text.max_pages}.
     4. IMPORTANT: Ensure the FIRST page explicitly visually introduces the Main Character in a clear, neutral pose.
     5. For each page, generate:
-       - text: Simple sentence for the child.
+       - text: The words on the page, following the Page Text Rules.
+       - characters: The names of every character visible on this page (use the exact names from the cast).
        - action_description: A COMPLETE, VIVID STORYBOARD PROMPT.
          * Start with the CAMERA ANGLE (e.g., "Low angle shot looking up at...", "Extreme close-up of hands...", "Wide shot of the room...").
          * Describe the LIGHTING (e.g., "Warm sunny afternoon light", "Cool blue night shadows").
          * Describe the Character's ACTION dynamically (avoid static standing).
-         * VISUALIZE INNER THOUGHTS & EMOTIONS: To help children understand feelings (Theory of Mind), explicitly describe visual metaphors in the scene (e.g., "a thought bubble showing a red truck", "stormy scribbles above head to show frustration", "bright sparkles around hands to show sharing magic", "a heart glowing on the chest").
-         * Make the setting INSPIRING and detailed to spark curiosity (unless complexity is Minimal).
+         ${sceneGuidance}
+         ${settingGuidance}
          * CRITICAL: You MUST vary the camera angles and compositions significantly between pages.
 
     Return JSON matching this schema:
@@ -61,22 +240,42 @@ export const generateStoryboard = async (
         "clothing": "string",
         "expression_style": "string"
       },
+      "main_character_name": "string",
+      "supporting_characters": [
+        {
+          "name": "string",
+          "role": "teacher | sibling | friend | ...",
+          "age": number,
+          "hair": "string",
+          "skin_tone": "string",
+          "clothing": "string",
+          "expression_style": "string"
+        }
+      ],
       "visual_style_guide": "The comprehensive global prompt paragraph (Style + Character ONLY)",
       "pages": [
         {
           "id": number,
-          "text": "The sentence on the page",
-          "action_description": "Detailed visual description including camera angle, lighting, action, and setting"
+          "text": "The sentence on the page",${secondaryName ? `\n          "text_secondary": "The same sentence in ${secondaryName}",` : ''}
+          "action_description": "Detailed visual description including camera angle, lighting, action, and setting",
+          "characters": ["Names of characters on this page"]
         }
       ]
     }
   `;
 
+  // Attach the child's photo so the blueprint describes the real child
+  const photo = hero?.photo_url?.match(/^data:(.+);base64,(.+)$/);
+  const contents = photo
+    ? { parts: [{ inlineData: { mimeType: photo[1], data: photo[2] } }, { text: prompt }] }
+    : prompt;
+
   try {
-    const response = await ai.models.generateContent({
-      model: STORYBOARD_MODEL,
-      contents: prompt,
+    const response = await withRetry(() => getClient().models.generateContent({
+      model: options.model || STORYBOARD_MODEL,
+      contents,
       config: {
+        abortSignal: options.signal,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
@@ -92,40 +291,172 @@ export const generateStoryboard = async (
                 clothing: { type: Type.STRING },
                 expression_style: { type: Type.STRING },
               },
-              required: ["age", "hair", "clothing"],
+              required: ["age", "hair", "skin_tone", "clothing", "expression_style"],
+            },
+            main_character_name: { type: Type.STRING },
+            supporting_characters: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  name: { type: Type.STRING },
+                  role: { type: Type.STRING },
+                  age: { type: Type.NUMBER },
+                  hair: { type: Type.STRING },
+                  skin_tone: { type: Type.STRING },
+                  clothing: { type: Type.STRING },
+                  expression_style: { type: Type.STRING },
+                },
+                required: ["name", "role", "age", "hair", "skin_tone", "clothing", "expression_style"],
+              },
             },
             visual_style_guide: { type: Type.STRING },
             pages: {
               type: Type.ARRAY,
+              minItems: String(text.min_pages),
+              maxItems: String(text.max_pages),
               items: {
                 type: Type.OBJECT,
                 properties: {
                   id: { type: Type.NUMBER },
                   text: { type: Type.STRING },
+                  ...(secondaryName ? { text_secondary: { type: Type.STRING } } : {}),
                   action_description: { type: Type.STRING },
+                  characters: { type: Type.ARRAY, items: { type: Type.STRING } },
                 },
-                required: ["id", "text", "action_description"],
+                required: secondaryName ? ["id", "text", "text_secondary", "action_description"] : ["id", "text", "action_description"],
               },
             },
           },
           required: ["title", "character_blueprint", "visual_style_guide", "pages"],
         },
       },
-    });
+    }), { signal: options.signal });
+
+    const { main_character_name, supporting_characters, pages: rawPages, ...data } = parseStoryboardResponse(response.text || "");
+
+    // Assemble the cast and resolve page character names into ids
+    const ids = assignCharacterIds([main_character_name || '', ...supporting_characters.map(c => c.name)]);
+    const characters: StoryCharacter[] = [
+      {
+        id: ids[0],
+        name: main_character_name || 'Main character',
+        role: 'main child',
+        is_main: true,
+        blueprint: data.character_blueprint,
+      },
+      ...supporting_characters.map(({ name, role, ...blueprint }, index) => ({
+        id: ids[index + 1],
+        name,
+        role,
+        is_main: false,
+        blueprint,
+      })),
+    ];
+    const idsByName = new Map(characters.map(c => [c.name.toLowerCase(), c.id]));
+    const pages: StoryPage[] = rawPages.map(({ characters: names, ...page }) => ({
+      ...page,
+      character_ids: names
+        ?.map(n => idsByName.get(n.toLowerCase()))
+        .filter((id): id is string => id !== undefined),
+      is_generating: false,
+    }));
 
-    const data = JSON.parse(response.text || "{}");
-    
     // Inject metadata for history tracking
     const storyData: StoryboardData = {
       ...data,
-      uid: Date.now().toString(36) + Math.random().toString(36).substr(2, 9),
+      purpose: data.purpose || '',
+      characters,
+      pages,
+      uid: createStoryUid(),
       createdAt: Date.now()
     };
     
     return storyData;
   } catch (error) {
     console.error("Storyboard generation failed", error);
-    throw new Error("Failed to generate storyboard structure.");
+    throw classifyError(error);
+  }
+};
+
+/**
+ * Rewrites a page so it follows Carol Gray's Social Stories criteria, fixing the listed problems.
+ */
+export const rewritePageText = async (
+  text: string,
+  problems: string[],
+  options: GenerationOptions = {}
+): Promise<string> => {
+  const prompt = `
+    You are a Speech-Language Pathologist editing one page of a Social Story for an autistic child.
+    Rewrite the page text so it follows Carol Gray's Social Stories criteria:
+    - Never commanding "you"; keep the page's narrator (the child as "I", or the child by name) unless a problem below says otherwise.
+    - Positive phrasing: describe what to do, not what not to do.
+    - No absolutes such as "always" or "never"; use "usually", "sometimes" or "I can try".
+    - Mostly descriptive and perspective sentences, with at most one gentle directive ("I can try to...").
+    - Short, concrete, literal sentences a young child can read.
+    Keep the meaning and the names, and write in the same language as the page text.
+
+    Problems found on this page (fixing these comes first, including any word limit):
+    ${problems.map(p => `- ${p}`).join('\n    ')}
+
+    Page text:
+    """
+    ${text}
+    """
+
+    Return ONLY the rewritten page text, with no quotes or commentary.
+  `;
+
+  try {
+    const response = await withRetry(() => getClient().models.generateContent({
+      model: options.model || STORYBOARD_MODEL,
+      contents: prompt,
+      config: { abortSignal: options.signal },
+    }), { signal: options.signal });
+
+    const rewritten = response.text?.trim().replace(/^"+|"+$/g, '');
+    if (!rewritten) throw new Error("No text returned");
+    return rewritten;
+  } catch (error) {
+    console.error("Page rewrite failed", error);
+    throw classifyError(error);
+  }
+};
+
+/**
+ * Translates one page for the second language of a bilingual book.
+ */
+export const translatePageText = async (
+  text: string,
+  language: LanguageCode,
+  options: GenerationOptions = {}
+): Promise<string> => {
+  const prompt = `
+    Translate this page of a children's social story into ${getLanguage(language).promptName}.
+    Keep it just as short, simple and literal, with the same names and the same narrator.
+
+    Page text:
+    """
+    ${text}
+    """
+
+    Return ONLY the translated text, with no quotes or commentary.
+  `;
+
+  try {
+    const response = await withRetry(() => getClient().models.generateContent({
+      model: options.model || STORYBOARD_MODEL,
+      contents: prompt,
+      config: { abortSignal: options.signal },
+    }), { signal: options.signal });
+
+    const translated = response.text?.trim().replace(/^"+|"+$/g, '');
+    if (!translated) throw new Error("No text returned");
+    return translated;
+  } catch (error) {
+    console.error("Page translation failed", error);
+    throw classifyError(error);
   }
 };
 
@@ -134,12 +465,9 @@ export const generateStoryboard = async (
  */
 export const generatePageImage = async (
   pageDesc: string,
-  styleConfig: {
-    globalPrompt?: string, // The new Master Style Guide
-    blueprint?: CharacterBlueprint, // Fallback
-    complexity: VisualComplexity
-  },
-  referenceImageUrls: string[] = []
+  styleConfig: ImageStyleConfig,
+  references: ReferenceImage[] = [],
+  options: GenerationOptions = {}
 ): Promise<string> => {
   
   // 1. Construct the Core Prompt
@@ -148,12 +476,34 @@ export const generatePageImage = async (
   if (styleConfig.globalPrompt) {
     baseDescription = `[VISUAL STYLE & CHARACTER ID (IMMUTABLE)]\n${styleConfig.globalPrompt}`;
   } else if (styleConfig.blueprint) {
-    const bp = styleConfig.blueprint;
-    baseDescription = `[CHARACTER]\nChild, age ${bp.age}, ${bp.hair} hair, ${bp.skin_tone} skin, wearing ${bp.clothing}.`;
+    baseDescription = `[CHARACTER]\nChild, ${describeBlueprint(styleConfig.blueprint)}.`;
+  }
+
+  if (styleConfig.stylePrompt) {
+    baseDescription += `\n\n[ART STYLE (APPLIES TO THE WHOLE BOOK)]\n${styleConfig.stylePrompt}`;
   }
 
+  if (styleConfig.characters && styleConfig.characters.length > 0) {
+    const castLines = styleConfig.characters
+      .map(c => `- ${c.name} (${c.role}): ${describeBlueprint(c.blueprint)}.`)
+      .join('\n');
+    baseDescription += `\n\n[CAST IN THIS SCENE (ONLY THESE PEOPLE APPEAR)]\n${castLines}`;
+  }
+
+  const sensoryRules = describeSensoryRules(styleConfig.sensory);
+
+  // A sensory profile overrides the default inner-world and inspiration rules
+  const moodRules = [
+    !styleConfig.sensory?.literal_only && "INNER WORLD: If described, clearly render visual metaphors for thoughts or emotions (e.g., thought bubbles, stylized worry lines, magical sparkles). These are critical for the child to understand what the character is feeling.",
+    sensoryRules.length === 0 && "INSPIRATION: The image should spark curiosity. Use interesting lighting and details to make the world feel alive and magical, even for simple social stories.",
+    ...sensoryRules
+  ]
+    .filter((rule): rule is string => !!rule)
+    .map((rule, index) => `${index + 4}. **${rule.replace(':', '**:')}`)
+    .join('\n    ');
+
   let finalPrompt = `
-    **TASK**: Generate a consistent, inspiring children's book illustration.
+    **TASK**: Generate a consistent, ${sensoryRules.length > 0 ? 'calm' : 'inspiring'} children's book illustration.
     
     ${baseDescription}
     
@@ -161,20 +511,23 @@ export const generatePageImage = async (
     SCENE: ${pageDesc}.
     
     **GENERATION RULES**:
-    1. **STYLE**: Follow [VISUAL STYLE] for art technique and character colors.
+    1. **STYLE**: Follow [VISUAL STYLE] for art technique and character colors. When [ART STYLE] is given, it decides the rendering technique.
     2. **COMPOSITION**: Follow [CURRENT SCENE] for the Camera Angle, Pose, and Background. 
        - IF the scene says "Close-up", you MUST generate a close-up. 
        - IF the scene says "Wide shot", you MUST generate a wide shot.
-    3. **INNER WORLD**: If described, clearly render visual metaphors for thoughts or emotions (e.g., thought bubbles, stylized worry lines, magical sparkles). These are critical for the child to understand what the character is feeling.
-    4. **INSPIRATION**: The image should spark curiosity. Use interesting lighting and details to make the world feel alive and magical, even for simple social stories.
+    3. **DETAIL LEVEL** (${styleConfig.complexity}): ${COMPLEXITY_GUIDES[styleConfig.complexity]}
+    ${moodRules}
   `;
 
   const parts: any[] = [];
 
   // 2. Add Visual References (The Anchor)
-  referenceImageUrls.forEach((url) => {
+  references.forEach(({ url, label }) => {
     const match = url.match(/^data:(.+);base64,(.+)$/);
     if (match) {
+        if (label) {
+            parts.push({ text: `Reference image: ${label}` });
+        }
         const mimeType = match[1];
         const base64Data = match[2];
         parts.push({
@@ -186,10 +539,11 @@ export const generatePageImage = async (
     }
   });
 
-  if (referenceImageUrls.length > 0) {
+  if (references.length > 0) {
     finalPrompt += `\n\n[REFERENCE IMAGE HANDLING]
-    - **IDENTITY**: The reference images define EXACTLY what the character looks like. Match the face, hair, and clothes perfectly.
+    - **IDENTITY**: Each reference image is labelled with the character it shows and defines EXACTLY what that character looks like. Match the face, hair, and clothes perfectly.
     - **ART STYLE**: Match the brush strokes, line weight, and color palette of the reference.
+    - **PHOTOS**: A reference labelled as a photo is a real child. Use it ONLY for likeness (face shape, hair, skin tone) and draw them in the book's art style, never by copying the photo itself.
     - **POSE**: DO NOT COPY THE POSE from the reference. The character must be performing the action described in [CURRENT SCENE SPECIFICATION].
     - **BACKGROUND**: DO NOT COPY THE BACKGROUND. Use the setting described in [CURRENT SCENE SPECIFICATION].`;
   }
@@ -198,22 +552,44 @@ export const generatePageImage = async (
   parts.push({ text: finalPrompt });
 
   try {
-    const response = await ai.models.generateContent({
-      model: IMAGE_MODEL,
-      contents: {
-        parts: parts,
-      },
-    });
+    // Empty or transiently failed responses are retried with backoff
+    return await withRetry(async () => {
+      const response = await getClient().models.generateContent({
+        model: options.model || IMAGE_MODEL,
+        contents: {
+          parts: parts,
+        },
+        config: {
+          abortSignal: options.signal,
+        },
+      });
 
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData && part.inlineData.data) {
-        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+      const candidate = response.candidates?.[0];
+      const blockReason = response.promptFeedback?.blockReason;
+      if (blockReason || SAFETY_FINISH_REASONS.includes(String(candidate?.finishReason))) {
+        throw new GenerationError('safety_block', `Blocked by the content safety filter (${blockReason || candidate?.finishReason})`);
       }
-    }
-    
-    throw new Error("No image data returned");
+
+      for (const part of candidate?.content?.parts || []) {
+        if (part.inlineData && part.inlineData.data) {
+          return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+        }
+      }
+
+      throw new GenerationError('empty_image', "No image data returned");
+    }, { signal: options.signal });
   } catch (error) {
     console.error("Image generation failed", error);
-    throw error;
+    throw classifyError(error);
   }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  models: { storyboard: STORYBOARD_MODEL, image: IMAGE_MODEL },
+  generateStoryboard,
+  generatePageImage,
+  rewritePageText,
+  translatePageText,
+};
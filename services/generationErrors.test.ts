@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { classifyError, GenerationError, withRetry } from "./generationErrors";
+
+describe('classifyError', () => {
+  it('recognizes quota, key, safety and network failures', () => {
+    expect(classifyError({ status: 429, message: 'Too many' }).kind).toBe('rate_limit');
+    expect(classifyError(new Error('RESOURCE_EXHAUSTED')).kind).toBe('rate_limit');
+    expect(classifyError(new Error('API key not valid')).kind).toBe('invalid_key');
+    expect(classifyError(new Error('Response was blocked due to SAFETY')).kind).toBe('safety_block');
+    expect(classifyError(new TypeError('Failed to fetch')).kind).toBe('network');
+    expect(classifyError(new DOMException('stop', 'AbortError')).kind).toBe('cancelled');
+    expect(classifyError('odd').kind).toBe('unknown');
+  });
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('retries transient failures until the task succeeds', async () => {
+    const task = vi.fn()
+      .mockRejectedValueOnce(new GenerationError('network', 'offline'))
+      .mockRejectedValueOnce(new GenerationError('rate_limit', 'slow down'))
+      .mockResolvedValue('done');
+
+    await expect(withRetry(task, { baseDelayMs: 1 })).resolves.toBe('done');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up straight away on failures retrying cannot fix', async () => {
+    const task = vi.fn().mockRejectedValue(new Error('API_KEY_INVALID'));
+
+    await expect(withRetry(task, { baseDelayMs: 1 })).rejects.toMatchObject({ kind: 'invalid_key' });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops after the last retry with the classified error', async () => {
+    const task = vi.fn().mockRejectedValue(new GenerationError('empty_image', 'no picture'));
+
+    await expect(withRetry(task, { retries: 2, baseDelayMs: 1 })).rejects.toMatchObject({ kind: 'empty_image' });
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops waiting as soon as the signal aborts', async () => {
+    const controller = new AbortController();
+    const task = vi.fn().mockRejectedValue(new GenerationError('network', 'offline'));
+    const result = withRetry(task, { baseDelayMs: 60000, signal: controller.signal });
+    controller.abort();
+
+    await expect(result).rejects.toMatchObject({ kind: 'cancelled' });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not start a wait on a signal that already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const task = vi.fn().mockRejectedValue(new GenerationError('network', 'offline'));
+
+    await expect(withRetry(task, { signal: controller.signal })).rejects.toMatchObject({ kind: 'cancelled' });
+  });
+
+  it('leaves no abort listener behind after a wait', async () => {
+    const controller = new AbortController();
+    const remove = vi.spyOn(controller.signal, 'removeEventListener');
+    const task = vi.fn()
+      .mockRejectedValueOnce(new GenerationError('network', 'offline'))
+      .mockResolvedValue('done');
+
+    await withRetry(task, { baseDelayMs: 1, signal: controller.signal });
+    expect(remove).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+});
@@ -0,0 +1,120 @@
+import { GenerationErrorKind, GenerationFailure } from "../types";
+import { isAbortError } from "../utils/generationQueue";
+import type { Translate } from "../utils/i18n";
+
+const RETRYABLE: GenerationErrorKind[] = ['rate_limit', 'network', 'empty_image'];
+
+/**
+ * A classified generation failure. `kind` drives both retrying and the message shown to the user.
+ */
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+
+  constructor(kind: GenerationErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'GenerationError';
+    this.kind = kind;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.kind);
+  }
+
+  toFailure(): GenerationFailure {
+    return { kind: this.kind, message: this.message };
+  }
+}
+
+/**
+ * Maps anything thrown by a backend (SDK errors, fetch failures, our own errors) onto a GenerationError.
+ */
+export const classifyError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  if (isAbortError(error)) {
+    return new GenerationError('cancelled', "Generation was cancelled", { cause: error });
+  }
+
+  const status = typeof (error as { status?: unknown })?.status === 'number'
+    ? (error as { status: number }).status
+    : undefined;
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new GenerationError('rate_limit', "Daily or per-minute quota reached", { cause: error });
+  }
+  if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED/i.test(message)) {
+    return new GenerationError('invalid_key', "The API key was rejected", { cause: error });
+  }
+  if (/SAFETY|PROHIBITED_CONTENT|blocked/i.test(message)) {
+    return new GenerationError('safety_block', "Blocked by the content safety filter", { cause: error });
+  }
+  if ((status !== undefined && status >= 500) || error instanceof TypeError || /network|fetch|timed? ?out/i.test(message)) {
+    return new GenerationError('network', "Could not reach the image service", { cause: error });
+  }
+  return new GenerationError('unknown', message || "Unknown error", { cause: error });
+};
+
+/**
+ * Normalizes a stored page error, including legacy plain-string errors.
+ */
+export const toFailure = (error: GenerationFailure | string | undefined): GenerationFailure | undefined => {
+  if (error === undefined) return undefined;
+  return typeof error === 'string' ? { kind: 'unknown', message: error } : error;
+};
+
+/**
+ * What to tell the user for each kind of failure, in the interface language.
+ */
+export const describeFailure = (failure: GenerationFailure, t: Translate): { title: string; hint: string } => {
+  if (failure.kind === 'unknown') return { title: t('failure.unknown'), hint: failure.message };
+  return { title: t(`failure.${failure.kind}`), hint: t(`failure.${failure.kind}Hint`) };
+};
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException("Generation was cancelled", "AbortError"));
+  };
+  // Long-lived signals see many waits; don't leave a listener behind for each one
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `task`, retrying transient failures with exponential backoff and jitter.
+ * Anything it finally throws is a classified GenerationError.
+ */
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  { retries = 3, baseDelayMs = 1000, maxDelayMs = 16000, signal }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      const classified = classifyError(error);
+      if (classified.kind === 'cancelled' || !classified.retryable || attempt >= retries) {
+        throw classified;
+      }
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const jitter = Math.random() * backoff * 0.25;
+      console.warn(`Retrying after ${classified.kind} (attempt ${attempt + 1} of ${retries})`);
+      try {
+        await wait(backoff + jitter, signal);
+      } catch (abort) {
+        throw classifyError(abort);
+      }
+    }
+  }
+};
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { strToU8, zipSync } from "fflate";
+import { StoryboardData, VisualComplexity } from "../types";
+import { BundleError } from "./storyBundle";
+import { planRestore, readLibraryBackup, restoreSettings } from "./libraryBackup";
+import { loadNarrationSettings } from "../utils/speech";
+import { loadPdfOptions } from "../utils/pdfGenerator";
+
+// Node has no localStorage; the settings helpers only need these three calls
+class MemoryStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, value); }
+  removeItem(key: string) { this.items.delete(key); }
+}
+
+const makeStory = (uid: string, title: string): StoryboardData => ({
+  uid,
+  createdAt: 1700000000000,
+  title,
+  purpose: '',
+  character_blueprint: { age: 6, hair: 'short brown', skin_tone: '', clothing: 'blue shirt', expression_style: '' },
+  visual_style_guide: 'Soft colors',
+  pages: [{ id: 1, text: 'I sit in the chair.', action_description: 'Sam sits', image_url: `${uid}/1`, is_generating: false }],
+  settings: { complexity: VisualComplexity.BALANCED, style_prompt: '' }
+});
+
+const backupOf = (manifest: Record<string, unknown>) => new Blob([zipSync({
+  'backup.json': strToU8(JSON.stringify({
+    format: 'spectratales-backup',
+    version: 1,
+    exportedAt: 1,
+    images: [],
+    profiles: {},
+    ...manifest
+  })),
+  'images/1.png': strToU8('good'),
+  'images/2.png': strToU8('bad')
+})]);
+
+describe('readLibraryBackup', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('skips the stories it cannot read and restores the rest', async () => {
+    const broken = { ...makeStory('story-2', 'Haircut Day'), pages: [] };
+    const backup = await readLibraryBackup(backupOf({
+      stories: [makeStory('story-1', 'Going to the Dentist'), broken, 'not a story'],
+      images: [
+        { key: 'story-1/1', storyUid: 'story-1', path: 'images/1.png' },
+        { key: 'story-2/1', storyUid: 'story-2', path: 'images/2.png' }
+      ]
+    }));
+
+    expect(backup.snapshot.stories.map(s => s.title)).toEqual(['Going to the Dentist']);
+    expect(backup.snapshot.images.map(i => i.key)).toEqual(['story-1/1']);
+    expect(backup.skipped).toEqual(['Haircut Day', '#3']);
+    expect(planRestore(backup, [], 'merge')).toMatchObject({ skipped: ['Haircut Day', '#3'], pictureCount: 1 });
+  });
+
+  it('still rejects a damaged manifest', async () => {
+    await expect(readLibraryBackup(backupOf({ stories: 'none' }))).rejects.toThrow(BundleError);
+  });
+
+  it('reads the settings and drops the ones it does not recognize', async () => {
+    const backup = await readLibraryBackup(backupOf({
+      stories: [],
+      settings: { narration: { rate: 1.2, pitch: 1, useRecordings: false }, pdfOptions: 'large', uiLanguage: 'fr' }
+    }));
+
+    expect(backup.settings).toEqual({ narration: { rate: 1.2, pitch: 1, useRecordings: false } });
+  });
+
+  it('reads older backups without settings', async () => {
+    const backup = await readLibraryBackup(backupOf({ stories: [] }));
+
+    expect(backup.settings).toBeUndefined();
+    expect(planRestore(backup, [], 'replace').restoresSettings).toBe(false);
+  });
+});
+
+describe('restoreSettings', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', new MemoryStorage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const settings = {
+    narration: { rate: 1.2, pitch: 1, useRecordings: false },
+    pdfOptions: { ...loadPdfOptions(), pageSize: 'letter' as const }
+  };
+
+  it('copies the settings when replacing', () => {
+    restoreSettings(settings, 'replace');
+
+    expect(loadNarrationSettings().rate).toBe(1.2);
+    expect(loadPdfOptions().pageSize).toBe('letter');
+  });
+
+  it('keeps the settings here when merging', () => {
+    restoreSettings(settings, 'merge');
+
+    expect(loadNarrationSettings().rate).toBe(0.9);
+    expect(loadPdfOptions().pageSize).toBe('a4');
+  });
+});
@@ -0,0 +1,248 @@
+import { zipSync, unzipSync, strToU8, strFromU8 } from "fflate";
+import { StorySummary } from "../types";
+import {
+  DatabaseSnapshot,
+  RestoreMode,
+  StoredImage,
+  StoredRecording,
+  exportDatabaseSnapshot,
+  toStorySummary
+} from "./storageService";
+import { BundleError, validateStory } from "./storyBundle";
+import { extensionForMimeType, mimeTypeForPath } from "./storyImages";
+import { downloadBlob } from "../utils/download";
+import { isObject } from "../utils/validation";
+import { NarrationSettings, loadNarrationSettings, saveNarrationSettings } from "../utils/speech";
+import { PdfOptions, loadPdfOptions, savePdfOptions } from "../utils/pdfGenerator";
+import { UiLanguage, UI_LANGUAGES, getUiLanguage, setUiLanguage } from "../utils/i18n";
+
+// A backup is a zip of `backup.json` plus every stored picture under `images/` and
+// every parent recording under `recordings/`. Stories are kept exactly as stored,
+// so their image-store refs stay valid on restore. The settings this browser keeps
+// in localStorage travel in the manifest too.
+
+export const BACKUP_EXTENSION = '.spectratales-backup';
+const BACKUP_FORMAT = 'spectratales-backup';
+const BACKUP_VERSION = 1;
+const MANIFEST_PATH = 'backup.json';
+const IMAGE_DIR = 'images/';
+const RECORDING_DIR = 'recordings/';
+
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  stories: DatabaseSnapshot['stories'];
+  images: { key: string; storyUid: string; path: string }[];
+  recordings?: { key: string; storyUid: string; pageId: number; createdAt: number; path: string }[]; // Missing in older backups
+  profiles: DatabaseSnapshot['profiles'];
+  settings?: BackupSettings; // Missing in older backups
+}
+
+/**
+ * Narration, print and interface language choices, which live outside the database.
+ */
+export interface BackupSettings {
+  narration?: NarrationSettings;
+  pdfOptions?: PdfOptions;
+  uiLanguage?: UiLanguage;
+}
+
+export interface LibraryBackup {
+  exportedAt: number;
+  snapshot: DatabaseSnapshot;
+  settings?: BackupSettings;
+  skipped: string[]; // Titles of stories that failed validation and won't be restored
+}
+
+/**
+ * What a restore would do, shown to the user before anything is written.
+ */
+export interface RestorePlan {
+  mode: RestoreMode;
+  added: StorySummary[];
+  overwritten: StorySummary[]; // Same story already here; the backup copy wins
+  removed: StorySummary[]; // Local-only stories, when replacing
+  kept: StorySummary[]; // Local-only stories, when merging
+  pictureCount: number;
+  recordingCount: number;
+  skipped: string[];
+  restoresSettings: boolean; // Only a replace copies the backup's settings over this browser's
+}
+
+/**
+ * Packs the whole database (stories, pictures and saved profiles) and the saved settings into one file.
+ */
+export const createLibraryBackup = async (): Promise<Blob> => {
+  const snapshot = await exportDatabaseSnapshot();
+  const files: Record<string, [Uint8Array, { level: 0 | 6 }]> = {};
+
+  const images = await Promise.all(snapshot.images.map(async (image, index) => {
+    const path = `${IMAGE_DIR}${index + 1}.${extensionForMimeType(image.blob.type)}`;
+    files[path] = [new Uint8Array(await image.blob.arrayBuffer()), { level: 0 }];
+    return { key: image.key, storyUid: image.storyUid, path };
+  }));
+
+  const recordings = await Promise.all(snapshot.recordings.map(async ({ blob, ...recording }, index) => {
+    const path = `${RECORDING_DIR}${index + 1}.${extensionForMimeType(blob.type)}`;
+    files[path] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+    return { ...recording, path };
+  }));
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    stories: snapshot.stories,
+    images,
+    recordings,
+    profiles: snapshot.profiles,
+    settings: {
+      narration: loadNarrationSettings(),
+      pdfOptions: loadPdfOptions(),
+      uiLanguage: getUiLanguage()
+    }
+  };
+  files[MANIFEST_PATH] = [strToU8(JSON.stringify(manifest)), { level: 6 }];
+
+  return new Blob([zipSync(files)], { type: 'application/zip' });
+};
+
+export const downloadLibraryBackup = async (): Promise<void> => {
+  const backup = await createLibraryBackup();
+  const date = new Date().toISOString().slice(0, 10);
+  downloadBlob(backup, `SpectraTales_Library_${date}${BACKUP_EXTENSION}`);
+};
+
+/**
+ * Reads and validates a backup file without touching the database.
+ */
+export const readLibraryBackup = async (file: Blob): Promise<LibraryBackup> => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch (error) {
+    throw new BundleError('not_backup', "This file isn't a SpectraTales library backup.");
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(strFromU8(files[MANIFEST_PATH]));
+  } catch (error) {
+    throw new BundleError('not_backup', "This file isn't a SpectraTales library backup.");
+  }
+
+  if (!isObject(manifest) || manifest.format !== BACKUP_FORMAT || typeof manifest.version !== 'number') {
+    throw new BundleError('not_backup', "This file isn't a SpectraTales library backup.");
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new BundleError('backup_newer', "This backup was made with a newer version of SpectraTales. Please update and try again.");
+  }
+  if (
+    !Array.isArray(manifest.stories) || !Array.isArray(manifest.images) || !isObject(manifest.profiles)
+    || (manifest.recordings !== undefined && !Array.isArray(manifest.recordings))
+  ) {
+    throw new BundleError('backup_damaged', "This backup is damaged and can't be restored.");
+  }
+
+  // One unreadable story shouldn't block restoring the rest of the library
+  const stories: DatabaseSnapshot['stories'] = [];
+  const skipped: string[] = [];
+  const skippedUids = new Set<unknown>();
+  (manifest.stories as unknown[]).forEach((entry, index) => {
+    try {
+      stories.push(validateStory(entry));
+    } catch (error) {
+      if (!(error instanceof BundleError)) throw error;
+      console.warn(`Skipping story ${index + 1} of the backup`, error);
+      const title = isObject(entry) && typeof entry.title === 'string' && entry.title ? entry.title : `#${index + 1}`;
+      skipped.push(title);
+      if (isObject(entry)) skippedUids.add(entry.uid);
+    }
+  });
+
+  const images: StoredImage[] = (manifest.images as unknown[]).map(entry => {
+    if (!isObject(entry) || typeof entry.key !== 'string' || typeof entry.storyUid !== 'string' || typeof entry.path !== 'string') {
+      throw new BundleError('backup_damaged', "This backup is damaged and can't be restored.");
+    }
+    const data = files[entry.path];
+    if (!data) {
+      throw new BundleError('backup_missing_picture', `This backup is missing a picture (${entry.path}).`, { path: entry.path });
+    }
+    return { key: entry.key, storyUid: entry.storyUid, blob: new Blob([data], { type: mimeTypeForPath(entry.path) }) };
+  });
+
+  const recordings: StoredRecording[] = ((manifest.recordings ?? []) as unknown[]).map(entry => {
+    if (
+      !isObject(entry) || typeof entry.key !== 'string' || typeof entry.storyUid !== 'string'
+      || typeof entry.pageId !== 'number' || typeof entry.path !== 'string'
+    ) {
+      throw new BundleError('backup_damaged', "This backup is damaged and can't be restored.");
+    }
+    const data = files[entry.path];
+    if (!data) {
+      throw new BundleError('backup_missing_recording', `This backup is missing a recording (${entry.path}).`, { path: entry.path });
+    }
+    return {
+      key: entry.key,
+      storyUid: entry.storyUid,
+      pageId: entry.pageId,
+      createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : 0,
+      blob: new Blob([data], { type: mimeTypeForPath(entry.path) })
+    };
+  });
+
+  return {
+    exportedAt: typeof manifest.exportedAt === 'number' ? manifest.exportedAt : 0,
+    snapshot: {
+      stories,
+      images: images.filter(image => !skippedUids.has(image.storyUid)),
+      recordings: recordings.filter(recording => !skippedUids.has(recording.storyUid)),
+      profiles: manifest.profiles
+    },
+    settings: readSettings(manifest.settings),
+    skipped
+  };
+};
+
+// Settings are a convenience, so anything unexpected is dropped rather than failing the restore
+const readSettings = (value: unknown): BackupSettings | undefined => {
+  if (!isObject(value)) return undefined;
+  const settings: BackupSettings = {};
+  if (isObject(value.narration)) settings.narration = value.narration as unknown as NarrationSettings;
+  if (isObject(value.pdfOptions)) settings.pdfOptions = value.pdfOptions as unknown as PdfOptions;
+  if (UI_LANGUAGES.includes(value.uiLanguage as UiLanguage)) settings.uiLanguage = value.uiLanguage as UiLanguage;
+  return Object.keys(settings).length > 0 ? settings : undefined;
+};
+
+/**
+ * Copies a backup's settings into this browser. Merging keeps the settings already here.
+ */
+export const restoreSettings = (settings: BackupSettings | undefined, mode: RestoreMode) => {
+  if (!settings || mode !== 'replace') return;
+  if (settings.narration) saveNarrationSettings({ ...loadNarrationSettings(), ...settings.narration });
+  if (settings.pdfOptions) savePdfOptions({ ...loadPdfOptions(), ...settings.pdfOptions });
+  if (settings.uiLanguage) setUiLanguage(settings.uiLanguage);
+};
+
+/**
+ * Dry run: compares a backup with the library as it is now.
+ */
+export const planRestore = (backup: LibraryBackup, current: StorySummary[], mode: RestoreMode): RestorePlan => {
+  const incoming = backup.snapshot.stories.map(toStorySummary);
+  const incomingUids = new Set(incoming.map(s => s.uid));
+  const currentUids = new Set(current.map(s => s.uid));
+  const localOnly = current.filter(s => !incomingUids.has(s.uid));
+
+  return {
+    mode,
+    added: incoming.filter(s => !currentUids.has(s.uid)),
+    overwritten: incoming.filter(s => currentUids.has(s.uid)),
+    removed: mode === 'replace' ? localOnly : [],
+    kept: mode === 'merge' ? localOnly : [],
+    pictureCount: backup.snapshot.images.length,
+    recordingCount: backup.snapshot.recordings.length,
+    skipped: backup.skipped,
+    restoresSettings: mode === 'replace' && !!backup.settings
+  };
+};
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GenerationChoices, VisualComplexity, DEFAULT_TEXT_OPTIONS } from "../types";
+import { mockProvider } from "./mockService";
+import { isImageDataUrl } from "./storyImages";
+
+const STORY = 'Sam goes to the dentist with Mom. Sam sits in the big chair. Lee counts his teeth. Sam gets a sticker.';
+
+const choices: GenerationChoices = {
+  complexity: VisualComplexity.BALANCED,
+  style_prompt: '',
+  text: DEFAULT_TEXT_OPTIONS
+};
+
+// The mock waits like a real backend would; run its timers instead of waiting for them
+const settle = async <T>(promise: Promise<T>): Promise<T> => {
+  await vi.runAllTimersAsync();
+  return promise;
+};
+
+describe('mockProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('builds the same cast and pages from the same story', async () => {
+    const first = await settle(mockProvider.generateStoryboard(STORY, choices));
+    const second = await settle(mockProvider.generateStoryboard(STORY, choices));
+
+    expect(first.characters?.map(c => [c.id, c.name, c.is_main])).toEqual([
+      ['sam', 'Sam', true],
+      ['mom', 'Mom', false],
+      ['lee', 'Lee', false]
+    ]);
+    expect(first.pages.map(p => p.text)).toEqual(second.pages.map(p => p.text));
+    expect(first.character_blueprint).toEqual(second.character_blueprint);
+    expect(first.pages[2].character_ids).toEqual(['sam', 'lee']);
+  });
+
+  it('keeps to the page limit', async () => {
+    const storyboard = await settle(mockProvider.generateStoryboard(STORY, { ...choices, text: { ...DEFAULT_TEXT_OPTIONS, max_pages: 2 } }));
+
+    expect(storyboard.pages).toHaveLength(2);
+  });
+
+  it('uses the hero profile name for the main character', async () => {
+    const storyboard = await settle(mockProvider.generateStoryboard(STORY, choices, { name: 'Leo' }));
+
+    expect(storyboard.characters?.[0]).toMatchObject({ id: 'leo', name: 'Leo', is_main: true });
+  });
+
+  it('runs the whole pipeline offline: storyboard, rewrites and pictures', async () => {
+    const storyboard = await settle(mockProvider.generateStoryboard('You must always wait your turn.', { ...choices, secondary_language: 'zh' }));
+    const rewritten = await settle(mockProvider.rewritePageText(storyboard.pages[0].text, ['Second-person command']));
+    const translated = await settle(mockProvider.translatePageText(rewritten, 'zh'));
+    const picture = await settle(mockProvider.generatePageImage(storyboard.pages[0].action_description, {
+      complexity: VisualComplexity.BALANCED,
+      globalPrompt: storyboard.visual_style_guide,
+      characters: storyboard.characters
+    }));
+
+    expect(storyboard.pages[0].text_secondary).toBe('[zh] You must always wait your turn.');
+    expect(rewritten).toBe('I can try to usually wait my turn.');
+    expect(translated).toBe('[zh] I can try to usually wait my turn.');
+    expect(isImageDataUrl(picture)).toBe(true);
+  });
+
+  it('paints the same picture for the same scene', async () => {
+    const style = { complexity: VisualComplexity.MINIMAL, globalPrompt: 'Soft colors' };
+    const first = await settle(mockProvider.generatePageImage('Sam waves', style));
+    const second = await settle(mockProvider.generatePageImage('Sam waves', style));
+
+    expect(first).toBe(second);
+  });
+
+  it('leaves no abort listener behind once a call finishes', async () => {
+    const controller = new AbortController();
+    const add = vi.spyOn(controller.signal, 'addEventListener');
+    const remove = vi.spyOn(controller.signal, 'removeEventListener');
+    await settle(mockProvider.translatePageText('Hello.', 'es', { signal: controller.signal }));
+
+    expect(remove).toHaveBeenCalledWith('abort', add.mock.calls[0][1]);
+  });
+
+  it('stops waiting when cancelled', async () => {
+    const controller = new AbortController();
+    const picture = mockProvider.generatePageImage('Sam waves', { complexity: VisualComplexity.RICH }, [], { signal: controller.signal });
+    controller.abort();
+
+    await expect(picture).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
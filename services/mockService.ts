@@ -0,0 +1,245 @@
+import { StoryboardData, StoryPage, StoryCharacter, HeroProfile, GenerationChoices, DEFAULT_TEXT_OPTIONS, LanguageCode } from "../types";
+import type { AIProvider, ImageStyleConfig, ReferenceImage, GenerationOptions } from "./aiProvider";
+import { createStoryUid } from "../utils/library";
+import { assignCharacterIds } from "../utils/cast";
+import { throwIfAborted } from "../utils/generationQueue";
+
+// Offline stand-in for the Gemini backend.
+// Output depends only on the inputs, so the same story always produces the same book.
+
+const MOCK_LATENCY_MS = 400;
+const IMAGE_SIZE = 512;
+
+const PALETTE = ['#FFD93D', '#FFAA4C', '#4D96FF', '#FF6B6B', '#9B72AA', '#6BCB77'];
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  throwIfAborted(signal);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException("Generation was cancelled", "AbortError"));
+  };
+  // A whole book shares one signal; don't leave a listener behind for every call
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Small stable string hash (FNV-1a) used to derive colors and choices from the input.
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const splitSentences = (text: string): string[] => {
+  return (text.match(/[^.!?]+[.!?]*/g) || [])
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+};
+
+/**
+ * Groups sentences into at most `maxPages` pages, keeping their order.
+ */
+const paginate = (sentences: string[], maxPages: number): string[] => {
+  if (sentences.length <= maxPages) return sentences;
+  const perPage = Math.ceil(sentences.length / maxPages);
+  const pages: string[] = [];
+  for (let i = 0; i < sentences.length; i += perPage) {
+    pages.push(sentences.slice(i, i + perPage).join(' '));
+  }
+  return pages;
+};
+
+const CAMERA_ANGLES = [
+  'Wide shot of the room',
+  'Medium shot at eye level',
+  'Close-up of the face',
+  'Low angle shot looking up',
+  'Over-the-shoulder view',
+  'Extreme close-up of hands',
+];
+
+const NAME_PATTERN = /\b(?:(?:Mr|Mrs|Ms|Dr)\.\s)?[A-Z][a-z]+\b/g;
+const NOT_NAMES = new Set(['The', 'He', 'She', 'It', 'They', 'We', 'You', 'My', 'His', 'Her', 'Their', 'Our', 'When', 'Now', 'But', 'If', 'Then', 'There', 'This', 'That', 'Today', 'Sometimes', 'Good', 'Yes', 'No']);
+
+/**
+ * Picks out capitalised words that look like people, in order of first mention.
+ */
+const findNames = (text: string): string[] => {
+  const names: string[] = [];
+  for (const match of text.match(NAME_PATTERN) || []) {
+    if (!NOT_NAMES.has(match) && !names.includes(match)) {
+      names.push(match);
+    }
+  }
+  return names;
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[c]!));
+
+/**
+ * Renders a PNG placeholder with a canvas when one is available (browser),
+ * and an equivalent SVG otherwise (e.g. under Node).
+ */
+const renderPlaceholder = (label: string, seed: number): string => {
+  const background = PALETTE[seed % PALETTE.length];
+  const accent = PALETTE[(seed >> 3) % PALETTE.length];
+  const caption = label.length > 60 ? `${label.slice(0, 57)}...` : label;
+
+  if (typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas');
+    canvas.width = IMAGE_SIZE;
+    canvas.height = IMAGE_SIZE;
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      ctx.fillStyle = background;
+      ctx.fillRect(0, 0, IMAGE_SIZE, IMAGE_SIZE);
+      ctx.fillStyle = accent;
+      ctx.beginPath();
+      ctx.arc(IMAGE_SIZE / 2, IMAGE_SIZE / 2 - 40, 110, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#1E293B';
+      ctx.font = 'bold 22px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText('SpectraTales Mock', IMAGE_SIZE / 2, IMAGE_SIZE - 90);
+      ctx.font = '16px sans-serif';
+      ctx.fillText(caption, IMAGE_SIZE / 2, IMAGE_SIZE - 60);
+      return canvas.toDataURL('image/png');
+    }
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${IMAGE_SIZE}" height="${IMAGE_SIZE}" viewBox="0 0 ${IMAGE_SIZE} ${IMAGE_SIZE}">`
+    + `<rect width="100%" height="100%" fill="${background}"/>`
+    + `<circle cx="${IMAGE_SIZE / 2}" cy="${IMAGE_SIZE / 2 - 40}" r="110" fill="${accent}"/>`
+    + `<text x="50%" y="${IMAGE_SIZE - 90}" text-anchor="middle" font-family="sans-serif" font-weight="bold" font-size="22" fill="#1E293B">SpectraTales Mock</text>`
+    + `<text x="50%" y="${IMAGE_SIZE - 60}" text-anchor="middle" font-family="sans-serif" font-size="16" fill="#1E293B">${escapeXml(caption)}</text>`
+    + `</svg>`;
+  return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+};
+
+/**
+ * Builds a schema-valid storyboard straight from the story sentences.
+ */
+export const generateStoryboard = async (
+  storyText: string,
+  { complexity, gender = 'boy', style_prompt, text = DEFAULT_TEXT_OPTIONS, language, secondary_language }: GenerationChoices,
+  hero?: HeroProfile,
+  options: GenerationOptions = {}
+): Promise<StoryboardData> => {
+  await delay(MOCK_LATENCY_MS, options.signal);
+
+  const seed = hashString(`${storyText}|${complexity}|${gender}`);
+  const sentences = paginate(splitSentences(storyText), text.max_pages);
+  const pageTexts = sentences.length > 0 ? sentences : ['Once upon a time.'];
+
+  const hair = ['short brown', 'curly black', 'straight blonde', 'wavy red'][seed % 4];
+  const clothing = ['a yellow t-shirt and blue jeans', 'a green hoodie', 'a striped sweater'][seed % 3];
+  const blueprint = {
+    age: 5 + (seed % 4),
+    hair,
+    skin_tone: 'medium',
+    clothing,
+    expression_style: 'friendly',
+  };
+
+  const [detectedName, ...otherNames] = findNames(storyText);
+  const mainName = hero?.name?.trim() || detectedName;
+  const ids = assignCharacterIds([mainName || '', ...otherNames]);
+  const characters: StoryCharacter[] = [
+    { id: ids[0], name: mainName || 'Hero', role: 'main child', is_main: true, blueprint },
+    ...otherNames.map((name, index) => ({
+      id: ids[index + 1],
+      name,
+      role: 'supporting character',
+      is_main: false,
+      blueprint: { ...blueprint, age: name.includes('.') ? 35 : blueprint.age, hair: ['black', 'grey', 'brown'][index % 3], clothing: 'a plain blue shirt' },
+    })),
+  ];
+
+  const pages: StoryPage[] = pageTexts.map((text, index) => ({
+    id: index + 1,
+    text,
+    text_secondary: secondary_language && secondary_language !== language ? mockTranslate(text, secondary_language) : undefined,
+    action_description: `${CAMERA_ANGLES[(seed + index) % CAMERA_ANGLES.length]}. Soft daylight. The ${gender} acts out: ${text}`,
+    character_ids: [characters[0].id, ...characters.slice(1).filter(c => text.includes(c.name)).map(c => c.id)],
+    is_generating: false,
+  }));
+
+  return {
+    uid: createStoryUid(),
+    createdAt: Date.now(),
+    title: pageTexts[0].replace(/[.!?]+$/, '').slice(0, 40) || 'My Story',
+    purpose: 'Mock Story: Offline preview',
+    character_blueprint: blueprint,
+    characters,
+    visual_style_guide: `${style_prompt || 'Flat placeholder illustration.'} A ${gender} with ${hair} hair wearing ${clothing}.`,
+    pages,
+  };
+};
+
+/**
+ * Returns a placeholder picture whose colors are derived from the scene description.
+ */
+export const generatePageImage = async (
+  pageDesc: string,
+  styleConfig: ImageStyleConfig,
+  references: ReferenceImage[] = [],
+  options: GenerationOptions = {}
+): Promise<string> => {
+  await delay(MOCK_LATENCY_MS, options.signal);
+  const seed = hashString(`${styleConfig.globalPrompt ?? ''}|${styleConfig.stylePrompt ?? ''}|${pageDesc}|${references.length}`);
+  return renderPlaceholder(pageDesc, seed);
+};
+
+const MOCK_REWRITES: [RegExp, string][] = [
+  [/\byou are\b/gi, 'I am'],
+  [/(?<!thank )\byou\b/gi, 'I'],
+  [/\byour\b/gi, 'my'],
+  [/\balways\b/gi, 'usually'],
+  [/\bnever\b/gi, 'usually do not'],
+  [/\bmust\b/gi, 'can try to'],
+];
+
+/**
+ * Rule-based stand-in for the LLM rewrite: first person, softer absolutes.
+ */
+export const rewritePageText = async (
+  text: string,
+  problems: string[],
+  options: GenerationOptions = {}
+): Promise<string> => {
+  await delay(MOCK_LATENCY_MS, options.signal);
+  return MOCK_REWRITES.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+};
+
+/**
+ * The mock can't translate; it tags the text with the target language instead.
+ */
+const mockTranslate = (text: string, language: LanguageCode): string => `[${language}] ${text.replace(/^\[\w+\] /, '')}`;
+
+export const translatePageText = async (
+  text: string,
+  language: LanguageCode,
+  options: GenerationOptions = {}
+): Promise<string> => {
+  await delay(MOCK_LATENCY_MS, options.signal);
+  return mockTranslate(text, language);
+};
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+  models: { storyboard: 'mock-storyboard', image: 'mock-image' },
+  generateStoryboard,
+  generatePageImage,
+  rewritePageText,
+  translatePageText,
+};
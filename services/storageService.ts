@@ -1,41 +1,210 @@
-import { StoryboardData } from "../types";
+import { StoryboardData, StorySummary, HeroProfile } from "../types";
+import {
+  mapStoryImages,
+  collectStoryImages,
+  imageKeyFor,
+  pruneImageKeyCache,
+  isImageRef,
+  toImageRef,
+  fromImageRef,
+  dataUrlToBlob,
+  blobToDataUrl
+} from "./storyImages";
 
 const DB_NAME = 'SpectraTalesDB';
 const STORE_NAME = 'stories';
-const DB_VERSION = 1;
+const SUMMARY_STORE = 'summaries';
+const IMAGE_STORE = 'images';
+const PROFILE_STORE = 'profiles';
+const RECORDING_STORE = 'recordings';
+const HERO_PROFILE_KEY = 'hero';
+const DB_VERSION = 4;
+
+export interface StoredImage {
+  key: string;
+  storyUid: string;
+  blob: Blob;
+}
+
+/**
+ * A parent's recording of one page, read aloud instead of the synthetic voice.
+ */
+export interface StoredRecording {
+  key: string; // `${storyUid}/page-${pageId}`, so a story's recordings share its key prefix
+  storyUid: string;
+  pageId: number;
+  blob: Blob;
+  createdAt: number;
+}
+
+const recordingKey = (storyUid: string, pageId: number) => `${storyUid}/page-${pageId}`;
+
+// Every key that belongs to a story, in the stores keyed by `${uid}/...`
+const storyKeyRange = (uid: string) => IDBKeyRange.bound(`${uid}/`, `${uid}/\uffff`);
+
+/**
+ * Swaps inline data URLs for image-store refs, collecting the Blobs to write.
+ * Pictures already in `stored` are only referenced, not decoded again.
+ * Pictures that fail to decode stay inline rather than being lost.
+ */
+const dehydrateStory = (
+  story: StoryboardData,
+  images: Map<string, Blob>,
+  stored: ReadonlySet<string> = new Set()
+): StoryboardData => {
+  return mapStoryImages(story, url => {
+    if (!url.startsWith('data:')) return url;
+    const key = imageKeyFor(story.uid, url);
+    if (!images.has(key) && !stored.has(key)) {
+      try {
+        images.set(key, dataUrlToBlob(url));
+      } catch (error) {
+        console.warn("Keeping unreadable image inline", error);
+        return url;
+      }
+    }
+    return toImageRef(key);
+  });
+};
+
+/**
+ * Builds the listing record kept alongside each story.
+ */
+export const toStorySummary = (story: StoryboardData): StorySummary => {
+  const cover = story.pages[0]?.image_url;
+  let coverImageKey: string | undefined;
+  if (cover && isImageRef(cover)) {
+    coverImageKey = fromImageRef(cover);
+  } else if (cover?.startsWith('data:')) {
+    coverImageKey = imageKeyFor(story.uid, cover);
+  }
+
+  return {
+    uid: story.uid,
+    createdAt: story.createdAt,
+    title: story.title,
+    purpose: story.purpose,
+    tags: story.tags,
+    phase: story.phase,
+    pageCount: story.pages.length,
+    coverImageKey,
+    searchText: story.pages.map(p => p.text).join(' ')
+  };
+};
 
 /**
- * Initializes the IndexedDB database.
+ * Schema steps, keyed by the version they upgrade to. Each runs once, in order,
+ * inside the upgrade transaction, so a v1 database walks through every step.
+ */
+const MIGRATIONS: Record<number, (db: IDBDatabase, transaction: IDBTransaction) => void> = {
+  1: (db) => {
+    db.createObjectStore(STORE_NAME, { keyPath: 'uid' });
+  },
+  2: (db) => {
+    db.createObjectStore(PROFILE_STORE);
+  },
+  3: (db, transaction) => {
+    const images = db.createObjectStore(IMAGE_STORE, { keyPath: 'key' });
+    images.createIndex('storyUid', 'storyUid');
+    const summaries = db.createObjectStore(SUMMARY_STORE, { keyPath: 'uid' });
+
+    // Move every existing story's inline pictures into the image store
+    const cursorRequest = transaction.objectStore(STORE_NAME).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+
+      const story = cursor.value as StoryboardData;
+      const blobs = new Map<string, Blob>();
+      const stored = dehydrateStory(story, blobs);
+      blobs.forEach((blob, key) => images.put({ key, storyUid: story.uid, blob } as StoredImage));
+      cursor.update(stored);
+      summaries.put(toStorySummary(story));
+      cursor.continue();
+    };
+  },
+  4: (db) => {
+    const recordings = db.createObjectStore(RECORDING_STORE, { keyPath: 'key' });
+    recordings.createIndex('storyUid', 'storyUid');
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and upgrades) the IndexedDB database. The connection is shared for the page's lifetime.
  */
 export const initDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
 
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer tab upgrade the schema; we'll reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
 
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'uid' });
+      const db = request.result;
+      const transaction = request.transaction!;
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        MIGRATIONS[version]?.(db, transaction);
       }
     };
   });
+  return dbPromise;
 };
 
+// Image keys known to be in the store, so autosaves neither decode nor rewrite unchanged pictures
+const persistedImageKeys = new Set<string>();
+
 /**
- * Saves or updates a story in the database.
+ * Saves or updates a story in the database. Pictures go to the image store as Blobs,
+ * and any this story no longer references (e.g. versions past the history limit) are removed.
  */
 export const saveStoryToDB = async (story: StoryboardData): Promise<void> => {
   try {
+    // Decode before opening the transaction: it would auto-commit while we wait
+    const blobs = new Map<string, Blob>();
+    const stored = dehydrateStory(story, blobs, persistedImageKeys);
+    pruneImageKeyCache(story.uid, collectStoryImages(story));
+    const referenced = new Set(collectStoryImages(stored).filter(isImageRef).map(fromImageRef));
     const db = await initDB();
+
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.put(story);
+      const transaction = db.transaction([STORE_NAME, SUMMARY_STORE, IMAGE_STORE], 'readwrite');
+      const images = transaction.objectStore(IMAGE_STORE);
 
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve();
+      blobs.forEach((blob, key) => images.put({ key, storyUid: story.uid, blob } as StoredImage));
+      transaction.objectStore(STORE_NAME).put(stored);
+      transaction.objectStore(SUMMARY_STORE).put(toStorySummary(story));
+
+      const keysRequest = images.index('storyUid').getAllKeys(story.uid);
+      keysRequest.onsuccess = () => {
+        (keysRequest.result as string[]).forEach(key => {
+          if (!referenced.has(key)) {
+            images.delete(key);
+            persistedImageKeys.delete(key);
+          }
+        });
+      };
+
+      transaction.oncomplete = () => {
+        blobs.forEach((_, key) => persistedImageKeys.add(key));
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
     });
   } catch (error) {
     console.error("Failed to save to IndexedDB", error);
@@ -44,19 +213,63 @@ export const saveStoryToDB = async (story: StoryboardData): Promise<void> => {
 };
 
 /**
- * Retrieves all stories from the database, sorted by newest first.
+ * Loads one full story, with its pictures restored to data URLs.
+ */
+export const getStoryFromDB = async (uid: string): Promise<StoryboardData | null> => {
+  try {
+    const db = await initDB();
+    const { story, blobs } = await new Promise<{ story: StoryboardData | null; blobs: Map<string, Blob> }>((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, IMAGE_STORE], 'readonly');
+      const images = transaction.objectStore(IMAGE_STORE);
+      const blobs = new Map<string, Blob>();
+      let story: StoryboardData | null = null;
+
+      const request = transaction.objectStore(STORE_NAME).get(uid);
+      request.onsuccess = () => {
+        story = (request.result as StoryboardData) || null;
+        if (!story) return;
+        collectStoryImages(story).filter(isImageRef).map(fromImageRef).forEach(key => {
+          const imageRequest = images.get(key);
+          imageRequest.onsuccess = () => {
+            const record = imageRequest.result as StoredImage | undefined;
+            if (record) blobs.set(key, record.blob);
+          };
+        });
+      };
+
+      transaction.oncomplete = () => resolve({ story, blobs });
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    if (!story) return null;
+
+    const urls = new Map<string, string>();
+    for (const [key, blob] of blobs) {
+      urls.set(key, await blobToDataUrl(blob));
+      persistedImageKeys.add(key);
+    }
+    // A ref whose Blob has gone missing becomes an empty picture rather than a broken one
+    return mapStoryImages(story, url => (isImageRef(url) ? urls.get(fromImageRef(url)) || '' : url));
+  } catch (error) {
+    console.error("Failed to load story from IndexedDB", error);
+    return null;
+  }
+};
+
+/**
+ * Retrieves the summaries of all stories, sorted by newest first.
  */
-export const getHistoryFromDB = async (): Promise<StoryboardData[]> => {
+export const getHistoryFromDB = async (): Promise<StorySummary[]> => {
   try {
     const db = await initDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
+      const transaction = db.transaction(SUMMARY_STORE, 'readonly');
+      const store = transaction.objectStore(SUMMARY_STORE);
       const request = store.getAll();
 
       request.onerror = () => reject(request.error);
       request.onsuccess = () => {
-        const results = request.result as StoryboardData[];
+        const results = request.result as StorySummary[];
         // Sort by newest first
         results.sort((a, b) => b.createdAt - a.createdAt);
         resolve(results);
@@ -67,3 +280,300 @@ export const getHistoryFromDB = async (): Promise<StoryboardData[]> => {
     return [];
   }
 };
+
+/**
+ * Updates a story's title or tags without loading its pictures.
+ */
+export const updateStoryMetaInDB = async (
+  uid: string,
+  patch: Partial<Pick<StoryboardData, 'title' | 'tags'>>
+): Promise<void> => {
+  try {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, SUMMARY_STORE], 'readwrite');
+      [STORE_NAME, SUMMARY_STORE].forEach(name => {
+        const store = transaction.objectStore(name);
+        const request = store.get(uid);
+        request.onsuccess = () => {
+          if (request.result) store.put({ ...request.result, ...patch });
+        };
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error("Failed to update story in IndexedDB", error);
+    throw error;
+  }
+};
+
+/**
+ * Fetches a single stored picture, e.g. a library cover.
+ */
+export const getImageFromDB = async (key: string): Promise<Blob | null> => {
+  try {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(IMAGE_STORE, 'readonly');
+      const request = transaction.objectStore(IMAGE_STORE).get(key);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve((request.result as StoredImage | undefined)?.blob || null);
+    });
+  } catch (error) {
+    console.error("Failed to load image from IndexedDB", error);
+    return null;
+  }
+};
+
+/**
+ * Permanently removes a story, its summary, its pictures and its recordings from the database.
+ */
+export const deleteStoryFromDB = async (uid: string): Promise<void> => {
+  try {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, SUMMARY_STORE, IMAGE_STORE, RECORDING_STORE], 'readwrite');
+      transaction.objectStore(STORE_NAME).delete(uid);
+      transaction.objectStore(SUMMARY_STORE).delete(uid);
+      transaction.objectStore(RECORDING_STORE).delete(storyKeyRange(uid));
+
+      const images = transaction.objectStore(IMAGE_STORE);
+      const keysRequest = images.index('storyUid').getAllKeys(uid);
+      keysRequest.onsuccess = () => {
+        (keysRequest.result as string[]).forEach(key => {
+          images.delete(key);
+          persistedImageKeys.delete(key);
+        });
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error("Failed to delete story from IndexedDB", error);
+    throw error;
+  }
+};
+
+/**
+ * Saves (or replaces) the parent's recording of one page.
+ */
+export const saveRecordingToDB = async (storyUid: string, pageId: number, blob: Blob): Promise<void> => {
+  try {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(RECORDING_STORE, 'readwrite');
+      const record: StoredRecording = { key: recordingKey(storyUid, pageId), storyUid, pageId, blob, createdAt: Date.now() };
+      transaction.objectStore(RECORDING_STORE).put(record);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error("Failed to save recording to IndexedDB", error);
+    throw error;
+  }
+};
+
+/**
+ * Loads a story's recordings, keyed by page id.
+ */
+export const getRecordingsFromDB = async (storyUid: string): Promise<Map<number, Blob>> => {
+  try {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(RECORDING_STORE, 'readonly');
+      const request = transaction.objectStore(RECORDING_STORE).index('storyUid').getAll(storyUid);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        resolve(new Map((request.result as StoredRecording[]).map(r => [r.pageId, r.blob])));
+      };
+    });
+  } catch (error) {
+    console.error("Failed to load recordings from IndexedDB", error);
+    return new Map();
+  }
+};
+
+export const deleteRecordingFromDB = async (storyUid: string, pageId: number): Promise<void> => {
+  try {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(RECORDING_STORE, 'readwrite');
+      transaction.objectStore(RECORDING_STORE).delete(recordingKey(storyUid, pageId));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error("Failed to delete recording from IndexedDB", error);
+    throw error;
+  }
+};
+
+/**
+ * Everything in the database, as stored (story pictures are image-store refs).
+ */
+export interface DatabaseSnapshot {
+  stories: StoryboardData[];
+  images: StoredImage[];
+  recordings: StoredRecording[];
+  profiles: Record<string, unknown>;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * Reads every store in one pass, for a full backup.
+ */
+export const exportDatabaseSnapshot = async (): Promise<DatabaseSnapshot> => {
+  try {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, IMAGE_STORE, RECORDING_STORE, PROFILE_STORE], 'readonly');
+      const snapshot: DatabaseSnapshot = { stories: [], images: [], recordings: [], profiles: {} };
+
+      const storiesRequest = transaction.objectStore(STORE_NAME).getAll();
+      storiesRequest.onsuccess = () => { snapshot.stories = storiesRequest.result; };
+      const imagesRequest = transaction.objectStore(IMAGE_STORE).getAll();
+      imagesRequest.onsuccess = () => { snapshot.images = imagesRequest.result; };
+      const recordingsRequest = transaction.objectStore(RECORDING_STORE).getAll();
+      recordingsRequest.onsuccess = () => { snapshot.recordings = recordingsRequest.result; };
+
+      const profileCursor = transaction.objectStore(PROFILE_STORE).openCursor();
+      profileCursor.onsuccess = () => {
+        const cursor = profileCursor.result;
+        if (!cursor) return;
+        snapshot.profiles[String(cursor.key)] = cursor.value;
+        cursor.continue();
+      };
+
+      transaction.oncomplete = () => resolve(snapshot);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error("Failed to export IndexedDB", error);
+    throw error;
+  }
+};
+
+/**
+ * Writes a backup into the database in a single transaction, so a failed restore changes nothing.
+ * `replace` empties every store first; `merge` overwrites stories with the same uid, adds the rest,
+ * and only fills in profile entries that aren't already set here.
+ */
+export const restoreDatabaseSnapshot = async (snapshot: DatabaseSnapshot, mode: RestoreMode): Promise<void> => {
+  try {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, SUMMARY_STORE, IMAGE_STORE, RECORDING_STORE, PROFILE_STORE], 'readwrite');
+      const stories = transaction.objectStore(STORE_NAME);
+      const summaries = transaction.objectStore(SUMMARY_STORE);
+      const images = transaction.objectStore(IMAGE_STORE);
+      const recordings = transaction.objectStore(RECORDING_STORE);
+      const profiles = transaction.objectStore(PROFILE_STORE);
+
+      if (mode === 'replace') {
+        [stories, summaries, images, recordings, profiles].forEach(store => store.clear());
+      } else {
+        // Image and recording keys start with the story uid, so an overwritten story's old files go by key range
+        snapshot.stories.forEach(story => {
+          images.delete(storyKeyRange(story.uid));
+          recordings.delete(storyKeyRange(story.uid));
+        });
+      }
+
+      snapshot.images.forEach(image => images.put(image));
+      snapshot.recordings.forEach(recording => recordings.put(recording));
+      snapshot.stories.forEach(story => {
+        stories.put(story);
+        summaries.put(toStorySummary(story));
+      });
+
+      Object.entries(snapshot.profiles).forEach(([key, value]) => {
+        if (mode === 'replace') {
+          profiles.put(value, key);
+          return;
+        }
+        const existing = profiles.get(key);
+        existing.onsuccess = () => {
+          if (existing.result === undefined) profiles.put(value, key);
+        };
+      });
+
+      transaction.oncomplete = () => {
+        persistedImageKeys.clear();
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error("Failed to restore IndexedDB", error);
+    throw error;
+  }
+};
+
+/**
+ * Saves the personalized hero profile (including the child's photo) locally.
+ */
+export const saveHeroProfileToDB = async (profile: HeroProfile): Promise<void> => {
+  try {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(PROFILE_STORE, 'readwrite');
+      const store = transaction.objectStore(PROFILE_STORE);
+      const request = store.put(profile, HERO_PROFILE_KEY);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  } catch (error) {
+    console.error("Failed to save hero profile to IndexedDB", error);
+    throw error;
+  }
+};
+
+/**
+ * Retrieves the saved hero profile, if any.
+ */
+export const getHeroProfileFromDB = async (): Promise<HeroProfile | null> => {
+  try {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(PROFILE_STORE, 'readonly');
+      const store = transaction.objectStore(PROFILE_STORE);
+      const request = store.get(HERO_PROFILE_KEY);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve((request.result as HeroProfile) ?? null);
+    });
+  } catch (error) {
+    console.error("Failed to load hero profile from IndexedDB", error);
+    return null;
+  }
+};
+
+/**
+ * Removes the saved hero profile and photo from this browser.
+ */
+export const clearHeroProfileFromDB = async (): Promise<void> => {
+  try {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(PROFILE_STORE, 'readwrite');
+      const store = transaction.objectStore(PROFILE_STORE);
+      const request = store.delete(HERO_PROFILE_KEY);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  } catch (error) {
+    console.error("Failed to clear hero profile from IndexedDB", error);
+    throw error;
+  }
+};
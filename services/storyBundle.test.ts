@@ -0,0 +1,170 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { strToU8, zipSync } from "fflate";
+import { StoryboardData, VisualComplexity } from "../types";
+import { BundleError, createStoryBundle, describeBundleError, readStoryBundle, validateStory } from "./storyBundle";
+import { translate } from "../utils/i18n";
+
+// Node has Blob but no FileReader; this covers the one call the bundle reader makes
+class NodeFileReader {
+  result: string | null = null;
+  error: Error | null = null;
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  readAsDataURL(blob: Blob) {
+    blob.arrayBuffer().then(buffer => {
+      this.result = `data:${blob.type};base64,${Buffer.from(buffer).toString('base64')}`;
+      this.onload?.();
+    });
+  }
+}
+
+beforeAll(() => {
+  vi.stubGlobal('FileReader', NodeFileReader);
+});
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+const JPEG = 'data:image/jpeg;base64,/9j/4AAQ';
+
+const blueprint = { age: 6, hair: 'short brown', skin_tone: 'light', clothing: 'blue shirt', expression_style: 'cheerful' };
+
+const makeStory = (): StoryboardData => ({
+  uid: 'story-1',
+  createdAt: 1700000000000,
+  title: 'Going to the Dentist',
+  purpose: 'Visiting the dentist',
+  character_blueprint: blueprint,
+  characters: [
+    { id: 'sam', name: 'Sam', role: 'main child', is_main: true, blueprint, anchor_image_url: PNG, photo_url: JPEG },
+    { id: 'dentist', name: 'Dr. Lee', role: 'dentist', is_main: false, blueprint: { ...blueprint, age: 40 } }
+  ],
+  visual_style_guide: 'Soft colors',
+  pages: [
+    { id: 1, text: 'I sit in the chair.', action_description: 'Sam sits', image_url: JPEG, is_generating: false,
+      image_versions: [{ image_url: PNG, prompt: 'Sam sits', createdAt: 1 }, { image_url: JPEG, prompt: 'Sam sits', createdAt: 2 }] },
+    { id: 2, text: 'I smile.', action_description: 'Sam smiles', is_generating: true }
+  ],
+  tags: ['Health & Safety'],
+  phase: 'book',
+  settings: { complexity: VisualComplexity.BALANCED, style_prompt: '', language: 'en' }
+});
+
+const bundleOf = (story: unknown, extra: Record<string, Uint8Array> = {}) => new Blob([zipSync({
+  'story.json': strToU8(JSON.stringify({ format: 'spectratale', version: 1, exportedAt: 0, story })),
+  ...extra
+})]);
+
+describe('validateStory', () => {
+  it('accepts a complete story', () => {
+    const story = makeStory();
+    expect(validateStory(story)).toEqual(story);
+  });
+
+  it('fills in the fields older storyboards could leave out', () => {
+    const { skin_tone, expression_style, ...partial } = blueprint;
+    const { purpose, ...story } = makeStory();
+    const validated = validateStory({
+      ...story,
+      character_blueprint: partial,
+      characters: story.characters!.map(c => ({ ...c, blueprint: partial }))
+    });
+
+    expect(validated.purpose).toBe('');
+    expect(validated.character_blueprint).toEqual({ ...partial, skin_tone: '', expression_style: '' });
+    expect(validated.characters?.[1].blueprint.expression_style).toBe('');
+  });
+
+  it.each([
+    ['no story', null, /no story found/],
+    ['a missing title', { ...makeStory(), title: undefined }, /missing "title"/],
+    ['a main character without an age', { ...makeStory(), character_blueprint: { ...blueprint, age: '6' } }, /missing "age"/],
+    ['a skin tone that is not text', { ...makeStory(), character_blueprint: { ...blueprint, skin_tone: 3 } }, /invalid "skin_tone"/],
+    ['no pages', { ...makeStory(), pages: [] }, /no pages/],
+    ['a page without text', { ...makeStory(), pages: [{ id: 1, action_description: 'x' }] }, /page 1 is missing "text"/],
+    ['a character without a name', { ...makeStory(), characters: [{ ...makeStory().characters![0], name: 3 }] }, /character 1 is missing "name"/],
+    ['an unknown detail level', { ...makeStory(), settings: { complexity: 'Wild', style_prompt: '' } }, /detail level "Wild"/],
+    ['an unknown language', { ...makeStory(), settings: { complexity: VisualComplexity.RICH, style_prompt: '', language: 'xx' } }, /language "xx"/],
+    ['an unknown phase', { ...makeStory(), phase: 'printing' }, /phase "printing"/],
+  ])('rejects %s', (_, value, message) => {
+    expect(() => validateStory(value)).toThrow(BundleError);
+    expect(() => validateStory(value)).toThrow(message);
+  });
+});
+
+describe('story bundles', () => {
+  it('round-trips a story with its pictures', async () => {
+    const read = await readStoryBundle(await createStoryBundle(makeStory()));
+
+    expect(read.title).toBe('Going to the Dentist');
+    expect(read.pages[0].image_url).toBe(JPEG);
+    expect(read.pages[0].image_versions?.map(v => v.image_url)).toEqual([PNG, JPEG]);
+    expect(read.characters?.[0].anchor_image_url).toBe(PNG);
+  });
+
+  it("leaves out the child's photo and any in-progress flags", async () => {
+    const read = await readStoryBundle(await createStoryBundle(makeStory()));
+
+    expect(read.characters?.[0].photo_url).toBeUndefined();
+    expect(read.pages[1].is_generating).toBe(false);
+  });
+
+  it('imports a story exported without a purpose, skin tone or expression', async () => {
+    const { skin_tone, expression_style, ...partial } = blueprint;
+    const { purpose, ...story } = makeStory();
+    const older = { ...story, character_blueprint: partial, characters: undefined } as unknown as StoryboardData;
+    const read = await readStoryBundle(await createStoryBundle(older));
+
+    expect(read.title).toBe('Going to the Dentist');
+    expect(read.character_blueprint.skin_tone).toBe('');
+    expect(read.pages[0].image_url).toBe(JPEG);
+  });
+
+  it('rejects files that are not bundles', async () => {
+    await expect(readStoryBundle(new Blob(['hello']))).rejects.toThrow("isn't a SpectraTales story bundle");
+    await expect(readStoryBundle(new Blob([zipSync({ 'other.txt': strToU8('hi') })]))).rejects.toThrow(BundleError);
+  });
+
+  it('rejects bundles from a newer version', async () => {
+    const newer = new Blob([zipSync({ 'story.json': strToU8(JSON.stringify({ format: 'spectratale', version: 99, story: makeStory() })) })]);
+    await expect(readStoryBundle(newer)).rejects.toThrow(/newer version/);
+  });
+
+  it('reports problems with a code the interface can translate', async () => {
+    const story = makeStory();
+    story.pages[0].image_url = 'images/9.png';
+    const error = await readStoryBundle(bundleOf(story)).catch(e => e);
+
+    expect(error).toMatchObject({ code: 'bundle_missing_picture', vars: { path: 'images/9.png' } });
+    expect(describeBundleError(error, (key, vars) => translate('zh', key, vars))).toBe('这个故事包缺少一张图片（images/9.png）。');
+  });
+
+  it('rejects a bundle that is missing a picture', async () => {
+    const story = makeStory();
+    story.pages[0].image_url = 'images/9.png';
+    await expect(readStoryBundle(bundleOf(story))).rejects.toThrow('missing a picture (images/9.png)');
+  });
+
+  it.each([
+    ['links to other sites', 'https://example.com/picture.png'],
+    ['scripts', 'javascript:alert(1)'],
+    ['inline files that are not images', 'data:text/html,<script>alert(1)</script>'],
+  ])('rejects pictures that are %s', async (_, url) => {
+    const story = makeStory();
+    story.pages[0].image_url = url;
+    await expect(readStoryBundle(bundleOf(story))).rejects.toThrow("picture that isn't an image");
+  });
+
+  it('rejects archived pictures that are not images', async () => {
+    const story = makeStory();
+    story.pages[0].image_url = 'images/1.bin';
+    await expect(readStoryBundle(bundleOf(story, { 'images/1.bin': strToU8('<html>') }))).rejects.toThrow("picture that isn't an image");
+  });
+
+  it('keeps empty picture slots', async () => {
+    const story = makeStory();
+    story.pages[0].image_versions = [{ image_url: '', prompt: 'lost', createdAt: 1 }];
+    const read = await readStoryBundle(bundleOf(story));
+
+    expect(read.pages[0].image_versions?.[0].image_url).toBe('');
+  });
+});
@@ -0,0 +1,253 @@
+import { zipSync, unzipSync, strToU8, strFromU8 } from "fflate";
+import { StoryboardData, CharacterBlueprint, VisualComplexity, LANGUAGES } from "../types";
+import { mapStoryImages, isImageDataUrl, dataUrlToBlob, blobToDataUrl, extensionForMimeType, mimeTypeForPath } from "./storyImages";
+import { downloadBlob } from "../utils/download";
+import { isObject } from "../utils/validation";
+import type { Translate } from "../utils/i18n";
+
+// A .spectratale file is a zip holding `story.json` (the manifest below) and an
+// `images/` folder; pictures in the story are replaced by their path in the archive.
+
+export const BUNDLE_EXTENSION = '.spectratale';
+const BUNDLE_FORMAT = 'spectratale';
+const BUNDLE_VERSION = 1;
+const MANIFEST_PATH = 'story.json';
+const IMAGE_DIR = 'images/';
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  story: StoryboardData;
+}
+
+export type BundleErrorCode =
+  | 'not_bundle' | 'bundle_damaged' | 'bundle_newer' | 'bundle_missing_picture' | 'not_image' | 'invalid_story'
+  | 'not_backup' | 'backup_damaged' | 'backup_newer' | 'backup_missing_picture' | 'backup_missing_recording';
+
+/**
+ * A bundle or backup that can't be read. The message is for logs; `describeBundleError` words it for the user.
+ */
+export class BundleError extends Error {
+  readonly code: BundleErrorCode;
+  readonly vars: Record<string, string>;
+
+  constructor(code: BundleErrorCode, message: string, vars: Record<string, string> = {}) {
+    super(message);
+    this.name = "BundleError";
+    this.code = code;
+    this.vars = vars;
+  }
+}
+
+/**
+ * What to tell the user about a file that can't be read, in the interface language.
+ */
+export const describeBundleError = (error: BundleError, t: Translate): string => t(`bundleError.${error.code}`, error.vars);
+
+const invalid = (detail: string): never => {
+  throw new BundleError('invalid_story', `This file isn't a valid story (${detail}).`, { detail });
+};
+
+const expectString = (record: Record<string, unknown>, field: string, where: string) => {
+  if (typeof record[field] !== 'string') invalid(`${where} is missing "${field}"`);
+};
+
+const expectOptionalString = (record: Record<string, unknown>, field: string, where: string) => {
+  if (record[field] !== undefined && typeof record[field] !== 'string') invalid(`${where} has an invalid "${field}"`);
+};
+
+const validateBlueprint = (value: unknown, where: string) => {
+  if (!isObject(value)) return invalid(`${where} has no appearance details`);
+  if (typeof value.age !== 'number') invalid(`${where} is missing "age"`);
+  ['hair', 'clothing'].forEach(field => expectString(value, field, where));
+  ['skin_tone', 'expression_style', 'accessories'].forEach(field => expectOptionalString(value, field, where));
+};
+
+// Older storyboards could leave these out; fill them in so the story matches its type
+const withBlueprintDefaults = (blueprint: CharacterBlueprint): CharacterBlueprint => ({
+  ...blueprint,
+  skin_tone: blueprint.skin_tone ?? '',
+  expression_style: blueprint.expression_style ?? ''
+});
+
+/**
+ * Checks the shape of an imported story field by field, so a damaged or foreign
+ * file is rejected up front instead of breaking the editor later.
+ */
+export const validateStory = (value: unknown): StoryboardData => {
+  if (!isObject(value)) return invalid("no story found");
+
+  ['uid', 'title', 'visual_style_guide'].forEach(field => expectString(value, field, "the story"));
+  expectOptionalString(value, 'purpose', "the story");
+  if (typeof value.createdAt !== 'number') invalid('the story is missing "createdAt"');
+  validateBlueprint(value.character_blueprint, "the main character");
+
+  if (value.characters !== undefined) {
+    if (!Array.isArray(value.characters)) invalid("the cast is not a list");
+    (value.characters as unknown[]).forEach((character, index) => {
+      const where = `character ${index + 1}`;
+      if (!isObject(character)) return invalid(`${where} is empty`);
+      ['id', 'name', 'role'].forEach(field => expectString(character, field, where));
+      if (typeof character.is_main !== 'boolean') invalid(`${where} is missing "is_main"`);
+      validateBlueprint(character.blueprint, where);
+      expectOptionalString(character, 'anchor_image_url', where);
+    });
+  }
+
+  if (!Array.isArray(value.pages) || value.pages.length === 0) invalid("it has no pages");
+  (value.pages as unknown[]).forEach((page, index) => {
+    const where = `page ${index + 1}`;
+    if (!isObject(page)) return invalid(`${where} is empty`);
+    if (typeof page.id !== 'number') invalid(`${where} is missing "id"`);
+    ['text', 'action_description'].forEach(field => expectString(page, field, where));
+    ['text_secondary', 'alt_text', 'image_url'].forEach(field => expectOptionalString(page, field, where));
+    if (page.character_ids !== undefined && !Array.isArray(page.character_ids)) invalid(`${where} has an invalid cast`);
+    if (page.image_versions !== undefined) {
+      if (!Array.isArray(page.image_versions)) invalid(`${where} has invalid picture versions`);
+      (page.image_versions as unknown[]).forEach(version => {
+        if (!isObject(version) || typeof version.image_url !== 'string') invalid(`${where} has an invalid picture version`);
+      });
+    }
+  });
+
+  if (value.tags !== undefined && !(Array.isArray(value.tags) && value.tags.every(t => typeof t === 'string'))) {
+    invalid("its tags are invalid");
+  }
+  if (value.settings !== undefined) {
+    if (!isObject(value.settings)) return invalid("its generation settings are invalid");
+    if (!Object.values(VisualComplexity).includes(value.settings.complexity as VisualComplexity)) {
+      invalid(`unknown picture detail level "${String(value.settings.complexity)}"`);
+    }
+    expectString(value.settings, 'style_prompt', "the generation settings");
+    ['language', 'secondary_language'].forEach(field => {
+      const code = value.settings[field];
+      if (code !== undefined && !LANGUAGES.some(l => l.code === code)) invalid(`unknown language "${String(code)}"`);
+    });
+    const text = value.settings.text;
+    if (text !== undefined) {
+      if (!isObject(text)) return invalid("its text settings are invalid");
+      expectString(text, 'reading_level', "the text settings");
+      ['max_words_per_page', 'min_pages', 'max_pages'].forEach(field => {
+        if (typeof text[field] !== 'number') invalid(`the text settings are missing "${field}"`);
+      });
+      if (text.narration !== 'first_person' && text.narration !== 'third_person') invalid(`unknown narration "${String(text.narration)}"`);
+    }
+  }
+  if (value.phase !== undefined && !['storyboard', 'character_sheets', 'book'].includes(value.phase as string)) {
+    invalid(`unknown phase "${String(value.phase)}"`);
+  }
+
+  const story = value as unknown as StoryboardData;
+  return {
+    ...story,
+    purpose: story.purpose ?? '',
+    character_blueprint: withBlueprintDefaults(story.character_blueprint),
+    ...(story.characters && { characters: story.characters.map(c => ({ ...c, blueprint: withBlueprintDefaults(c.blueprint) })) })
+  };
+};
+
+/**
+ * Packs a story and its pictures into a single .spectratale archive.
+ * The child's real photo is left out: bundles are meant to be shared.
+ */
+export const createStoryBundle = async (story: StoryboardData): Promise<Blob> => {
+  const files: Record<string, Uint8Array> = {};
+  const pictures = new Map<string, { path: string; blob: Blob }>();
+
+  const shareable: StoryboardData = {
+    ...story,
+    characters: story.characters?.map(({ photo_url, ...c }) => ({ ...c, anchor_is_generating: false })),
+    pages: story.pages.map(p => ({ ...p, is_generating: false }))
+  };
+
+  const packed = mapStoryImages(shareable, url => {
+    if (!url.startsWith('data:')) return url;
+    let picture = pictures.get(url);
+    if (!picture) {
+      const blob = dataUrlToBlob(url);
+      picture = { path: `${IMAGE_DIR}${pictures.size + 1}.${extensionForMimeType(blob.type)}`, blob };
+      pictures.set(url, picture);
+    }
+    return picture.path;
+  });
+
+  for (const { path, blob } of pictures.values()) {
+    files[path] = new Uint8Array(await blob.arrayBuffer());
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    story: packed
+  };
+  files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2));
+
+  // Pictures are already compressed; only the manifest benefits from deflate
+  const zipped = zipSync(
+    Object.fromEntries(Object.entries(files).map(([path, data]) => [path, [data, { level: path === MANIFEST_PATH ? 6 : 0 }]]))
+  );
+  return new Blob([zipped], { type: 'application/zip' });
+};
+
+/**
+ * Reads a .spectratale archive back into a story with inline pictures.
+ * Throws a BundleError describing what's wrong if the file can't be used.
+ */
+export const readStoryBundle = async (file: Blob): Promise<StoryboardData> => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch (error) {
+    throw new BundleError('not_bundle', "This file isn't a SpectraTales story bundle.");
+  }
+
+  if (!files[MANIFEST_PATH]) {
+    throw new BundleError('not_bundle', "This file isn't a SpectraTales story bundle.");
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(strFromU8(files[MANIFEST_PATH]));
+  } catch (error) {
+    throw new BundleError('bundle_damaged', "This story bundle is damaged and can't be read.");
+  }
+
+  if (!isObject(manifest) || manifest.format !== BUNDLE_FORMAT || typeof manifest.version !== 'number') {
+    throw new BundleError('not_bundle', "This file isn't a SpectraTales story bundle.");
+  }
+  if (manifest.version > BUNDLE_VERSION) {
+    throw new BundleError('bundle_newer', "This story was made with a newer version of SpectraTales. Please update and try again.");
+  }
+
+  const story = validateStory(manifest.story);
+
+  const urls = new Map<string, string>();
+  for (const path of Object.keys(files)) {
+    if (path.startsWith(IMAGE_DIR)) {
+      urls.set(path, await blobToDataUrl(new Blob([files[path]], { type: mimeTypeForPath(path) })));
+    }
+  }
+
+  return mapStoryImages(story, url => {
+    if (!url) return url;
+    const dataUrl = url.startsWith(IMAGE_DIR) ? urls.get(url) : url;
+    if (!dataUrl) {
+      throw new BundleError('bundle_missing_picture', `This story bundle is missing a picture (${url}).`, { path: url });
+    }
+    // Only pictures from the archive or inline images; never links to other files or sites
+    if (!isImageDataUrl(dataUrl)) {
+      throw new BundleError('not_image', "This story bundle has a picture that isn't an image.");
+    }
+    return dataUrl;
+  });
+};
+
+/**
+ * Builds the bundle and hands it to the browser as a download.
+ */
+export const downloadStoryBundle = async (story: StoryboardData): Promise<void> => {
+  const bundle = await createStoryBundle(story);
+  downloadBlob(bundle, `${story.title.replace(/\s+/g, "_")}${BUNDLE_EXTENSION}`);
+};
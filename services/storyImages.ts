@@ -0,0 +1,137 @@
+import { StoryboardData } from "../types";
+
+// Helpers for moving a story's pictures between inline data URLs (what the app works with)
+// and stored Blobs referenced by key (what IndexedDB keeps).
+
+export const IMAGE_REF_PREFIX = 'idb:';
+
+export const isImageRef = (value: string): boolean => value.startsWith(IMAGE_REF_PREFIX);
+
+export const toImageRef = (key: string): string => `${IMAGE_REF_PREFIX}${key}`;
+
+export const fromImageRef = (ref: string): string => ref.slice(IMAGE_REF_PREFIX.length);
+
+// Autosave re-keys every picture on each change; remember the current story's keys instead of
+// rehashing megabytes. Only that story's pictures are kept, so the cache never outlives them.
+const keyCache = new Map<string, string>();
+let keyCacheStoryUid: string | null = null;
+
+/**
+ * Content-derived key, so the same picture used as a page, a version and an anchor is stored once.
+ */
+export const imageKeyFor = (storyUid: string, dataUrl: string): string => {
+  if (storyUid !== keyCacheStoryUid) {
+    keyCache.clear();
+    keyCacheStoryUid = storyUid;
+  }
+  const cached = keyCache.get(dataUrl);
+  if (cached) return `${storyUid}/${cached}`;
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < dataUrl.length; i++) {
+    hash ^= dataUrl.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  const digest = `${dataUrl.length.toString(36)}-${(hash >>> 0).toString(36)}`;
+  keyCache.set(dataUrl, digest);
+  return `${storyUid}/${digest}`;
+};
+
+/**
+ * Drops cached keys for pictures the story no longer holds (e.g. versions past the history limit).
+ */
+export const pruneImageKeyCache = (storyUid: string, urls: Iterable<string>) => {
+  if (storyUid !== keyCacheStoryUid) return;
+  const current = new Set(urls);
+  [...keyCache.keys()].forEach(url => {
+    if (!current.has(url)) keyCache.delete(url);
+  });
+};
+
+/**
+ * Applies `fn` to every picture a story holds: pages, their versions, and character sheets/photos.
+ */
+export const mapStoryImages = (story: StoryboardData, fn: (url: string) => string): StoryboardData => {
+  const map = (url?: string) => (url ? fn(url) : url);
+  return {
+    ...story,
+    characters: story.characters?.map(c => ({
+      ...c,
+      anchor_image_url: map(c.anchor_image_url),
+      photo_url: map(c.photo_url)
+    })),
+    pages: story.pages.map(p => ({
+      ...p,
+      image_url: map(p.image_url),
+      image_versions: p.image_versions?.map(v => ({ ...v, image_url: fn(v.image_url) }))
+    }))
+  };
+};
+
+/**
+ * Every distinct picture URL in a story.
+ */
+export const collectStoryImages = (story: StoryboardData): string[] => {
+  const urls = new Set<string>();
+  mapStoryImages(story, url => {
+    urls.add(url);
+    return url;
+  });
+  return [...urls];
+};
+
+/**
+ * Whether a URL is an inline picture. Anything else (other schemes, other media types) is never
+ * written into exported books.
+ */
+export const isImageDataUrl = (url: string): boolean => /^data:image\/[\w.+-]+[;,]/i.test(url);
+
+/**
+ * Synchronous conversion, safe to use inside an IndexedDB upgrade transaction.
+ */
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const match = dataUrl.match(/^data:([^;,]+)(;base64)?,(.*)$/);
+  if (!match) {
+    throw new Error("Not a data URL");
+  }
+  const [, mimeType, isBase64, payload] = match;
+  if (!isBase64) {
+    return new Blob([decodeURIComponent(payload)], { type: mimeType });
+  }
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(reader.error);
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsDataURL(blob);
+  });
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3'
+};
+
+/**
+ * File extension for a stored picture or recording, for naming files inside archives.
+ */
+export const extensionForMimeType = (mimeType: string): string => EXTENSIONS[mimeType.split(';')[0]] || 'bin';
+
+export const mimeTypeForPath = (path: string): string => {
+  const ext = path.split('.').pop();
+  return Object.keys(EXTENSIONS).find(mime => EXTENSIONS[mime] === ext) || 'application/octet-stream';
+};
@@ -21,47 +21,352 @@ export interface CharacterBlueprint {
   accessories?: string;
 }
 
+/**
+ * Parent-supplied description of the real child, kept only in this browser.
+ */
+export interface HeroProfile {
+  name?: string;
+  photo_url?: string; // Downscaled data URL of the child's photo
+  hair?: string;
+  skin_tone?: string;
+  clothing?: string; // Favorite clothing
+  glasses?: boolean;
+  wheelchair?: boolean;
+  aac_device?: boolean;
+  notes?: string;
+}
+
+export interface StoryCharacter {
+  id: string;
+  name: string;
+  role: string; // e.g. "main child", "teacher", "sister"
+  is_main: boolean;
+  blueprint: CharacterBlueprint;
+  anchor_image_url?: string; // Character reference sheet, reused on every page this character appears in
+  anchor_is_generating?: boolean;
+  anchor_error?: GenerationFailure;
+  photo_url?: string; // Real photo supplied by the parent (main character only)
+}
+
+export type GenerationErrorKind =
+  | 'rate_limit'
+  | 'safety_block'
+  | 'invalid_key'
+  | 'network'
+  | 'empty_image'
+  | 'cancelled'
+  | 'unknown';
+
+/**
+ * Why a generation failed, stored on the page so the UI can explain it.
+ */
+export interface GenerationFailure {
+  kind: GenerationErrorKind;
+  message: string;
+}
+
+export interface ImageVersion {
+  image_url: string;
+  prompt: string; // The action_description it was painted from
+  createdAt: number;
+}
+
 export interface StoryPage {
   id: number;
   text: string;
+  text_secondary?: string; // Translation into the story's second language, shown under the main text
   action_description: string; // Internal description for the prompt
-  image_url?: string;
+  alt_text?: string; // Describes the picture for screen readers; empty falls back to action_description
+  character_ids?: string[]; // Cast present on this page (defaults to the main character)
+  image_url?: string; // The active version
+  image_versions?: ImageVersion[]; // Bounded history, oldest first
   is_generating: boolean;
-  error?: string;
+  error?: GenerationFailure | string; // Plain strings come from stories saved before failures were typed
 }
 
+/**
+ * Where a story is in the creation flow: text review, character sheet review, then the painted book.
+ */
+export type StoryPhase = 'storyboard' | 'character_sheets' | 'book';
+
 export interface StoryboardData {
   uid: string;
   createdAt: number;
   title: string;
   purpose: string;
-  character_blueprint: CharacterBlueprint;
+  character_blueprint: CharacterBlueprint; // Main character, kept in sync with the main entry of `characters`
+  characters?: StoryCharacter[];
   visual_style_guide: string; // The "Global Prompt" for consistency
   pages: StoryPage[];
+  tags?: string[]; // Library categories, e.g. "Health & Safety"
+  phase?: StoryPhase; // Missing on finished books saved before the review steps existed
+  settings?: GenerationSettings; // Missing on stories saved before settings were kept
+}
+
+/**
+ * Lightweight listing record for the library, stored separately from the full story.
+ */
+export interface StorySummary {
+  uid: string;
+  createdAt: number;
+  title: string;
+  purpose: string;
+  tags?: string[];
+  phase?: StoryPhase;
+  pageCount: number;
+  coverImageKey?: string; // Key in the image store, loaded lazily
+  searchText: string; // Page text, for library search without loading the story
+}
+
+/**
+ * Adjustments for children who are easily overwhelmed by visual input.
+ * Any enabled option takes priority over the default "inspiring" storybook look.
+ */
+export interface SensoryProfile {
+  muted_palette: boolean;
+  literal_only: boolean; // No visual metaphors, thought bubbles or emotion effects
+  no_busy_patterns: boolean;
+  max_colors?: number; // Distinct colors per picture
+}
+
+export const SENSORY_FRIENDLY_PROFILE: SensoryProfile = {
+  muted_palette: true,
+  literal_only: true,
+  no_busy_patterns: true,
+  max_colors: 5
+};
+
+export type Narration = 'first_person' | 'third_person';
+
+export interface ReadingLevel {
+  id: string;
+  label: string;
+  ages: string;
+  maxGrade: number; // Flesch-Kincaid grade the page text should stay under
+  guidance: string; // How to write for this level, sent with the storyboard prompt
+}
+
+export const READING_LEVELS: ReadingLevel[] = [
+  {
+    id: 'pre_reader',
+    label: 'Pre-reader',
+    ages: '3-4',
+    maxGrade: 1,
+    guidance: 'Read aloud by an adult. One very short sentence per page using only everyday words of one or two syllables.'
+  },
+  {
+    id: 'early_reader',
+    label: 'Early reader',
+    ages: '5-6',
+    maxGrade: 2,
+    guidance: 'Short sentences of common sight words and simple phonetic words. Present tense, no idioms.'
+  },
+  {
+    id: 'developing_reader',
+    label: 'Developing reader',
+    ages: '7-8',
+    maxGrade: 3,
+    guidance: 'Simple complete sentences. A few longer words are fine if the picture explains them.'
+  },
+  {
+    id: 'fluent_reader',
+    label: 'Fluent reader',
+    ages: '9-10',
+    maxGrade: 5,
+    guidance: 'Clear, literal sentences with some detail about why things happen. Still no sarcasm or idioms.'
+  }
+];
+
+/**
+ * Shape of the story text: who can read it and how much of it there is.
+ */
+export interface TextOptions {
+  reading_level: string; // Id from READING_LEVELS
+  max_words_per_page: number;
+  min_pages: number;
+  max_pages: number;
+  narration: Narration;
 }
 
+export const DEFAULT_TEXT_OPTIONS: TextOptions = {
+  reading_level: 'early_reader',
+  max_words_per_page: 20,
+  min_pages: 5,
+  max_pages: 8,
+  narration: 'first_person'
+};
+
+export type LanguageCode = 'en' | 'zh' | 'es';
+
+export interface Language {
+  code: LanguageCode;
+  label: string; // In the language itself, for pickers
+  promptName: string; // In English, for prompts
+  locale: string; // BCP 47 tag for speech voices
+  cjk: boolean; // Needs a CJK font in the PDF
+  theEnd: string; // Closing page of the book
+  first: string; // Headings of a printed first-then board
+  then: string;
+}
+
+export const LANGUAGES: Language[] = [
+  { code: 'en', label: 'English', promptName: 'English', locale: 'en-US', cjk: false, theEnd: 'The End', first: 'First', then: 'Then' },
+  { code: 'zh', label: '简体中文', promptName: 'Simplified Chinese', locale: 'zh-CN', cjk: true, theEnd: '完', first: '先', then: '再' },
+  { code: 'es', label: 'Español', promptName: 'Spanish', locale: 'es-ES', cjk: false, theEnd: 'Fin', first: 'Primero', then: 'Después' }
+];
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+/**
+ * Everything a story was generated with, so later redraws match the rest of the book.
+ */
 export interface GenerationSettings {
   complexity: VisualComplexity;
-  style_prompt: string;
+  style_prompt: string; // Art style added to every picture; empty means the default storybook look
+  art_style?: string; // Preset id from ART_STYLE_PRESETS, or "custom"
+  gender?: Gender;
+  sensory?: SensoryProfile;
+  text?: TextOptions; // Missing on stories generated before text options existed
+  language?: LanguageCode; // Language of the page text; English when missing
+  secondary_language?: LanguageCode; // Optional second language printed under each page
+  provider?: string; // Backend that painted the book, e.g. "gemini"
+  storyboard_model?: string;
+  image_model?: string;
+  source_text?: string; // The text the storyboard was written from
+}
+
+/**
+ * What the user picks before generating; the rest of the settings are filled in by the app.
+ */
+export type GenerationChoices = Omit<GenerationSettings, 'provider' | 'storyboard_model' | 'image_model' | 'source_text'>;
+
+export interface ArtStylePreset {
+  id: string;
+  label: string;
+  description: string;
+  prompt: string;
+}
+
+export const CUSTOM_ART_STYLE = 'custom';
+
+// Art styles children respond to differently; the prompt is sent with the storyboard and every picture
+export const ART_STYLE_PRESETS: ArtStylePreset[] = [
+  {
+    id: 'storybook',
+    label: 'Storybook',
+    description: 'Let the story pick a friendly picture-book look',
+    prompt: ''
+  },
+  {
+    id: 'watercolor',
+    label: 'Watercolor',
+    description: 'Soft washes and gentle colors',
+    prompt: 'Soft watercolor painting on textured paper, gentle color washes, light pencil outlines, calm pastel palette.'
+  },
+  {
+    id: 'flat_vector',
+    label: 'Flat Cartoon',
+    description: 'Simple shapes and solid colors',
+    prompt: 'Flat vector cartoon illustration, simple geometric shapes, solid fills with no gradients or texture, clean uniform outlines.'
+  },
+  {
+    id: 'photo_realistic',
+    label: 'Photo-Realistic',
+    description: 'Looks like real photos of real places',
+    prompt: 'Photo-realistic image, like a natural candid photograph of real people in a real place, true-to-life proportions, lighting and textures. No cartoon or painted look.'
+  },
+  {
+    id: 'line_art',
+    label: 'Coloring Page',
+    description: 'Black outlines to print and color in',
+    prompt: 'Black and white line art for a coloring book: clean bold black outlines on a pure white background, no shading, no gray tones and no color fills.'
+  },
+  {
+    id: 'high_contrast',
+    label: 'High Contrast',
+    description: 'Bold outlines and strong colors, easy to see',
+    prompt: 'High-contrast illustration: thick black outlines, a few strongly saturated solid colors, plain light background, no fine detail, textures or gradients.'
+  }
+];
+
+// Suggested library tags (the same categories the showcase stories use)
+export const STORY_CATEGORIES = [
+  'Health & Safety',
+  'Emotional Regulation',
+  'Safety Procedures',
+  'Flexibility',
+  'Social Skills',
+  'Daily Routines'
+];
+
+export interface StoryTemplateText {
+  title: string;
+  text: string;
+  purpose: string;
+}
+
+export interface StoryTemplate extends StoryTemplateText {
+  id: string;
+  narration: Narration; // The voice the text is written in
+  translations: Partial<Record<LanguageCode, StoryTemplateText>>; // The fields above are English
 }
 
-export const TEMPLATES = [
+export const TEMPLATES: StoryTemplate[] = [
   {
     id: 'sharing',
+    narration: 'third_person',
     title: 'Learning to Share',
     text: "Timmy is playing with a red truck. His friend Sarah wants to play too. Timmy feels sad to give it up. But Timmy hands the truck to Sarah. Sarah smiles and says thank you. Timmy feels happy he shared. Now they play together with blocks.",
-    purpose: "Social Skill: Sharing and Turn Taking"
+    purpose: "Social Skill: Sharing and Turn Taking",
+    translations: {
+      zh: {
+        title: '学会分享',
+        text: "小明在玩一辆红色的卡车。他的朋友小美也想玩。小明觉得有点舍不得。但是小明把卡车递给了小美。小美笑着说谢谢。小明很高兴自己分享了。现在他们一起搭积木。",
+        purpose: "社交技能：分享与轮流"
+      },
+      es: {
+        title: 'Aprender a compartir',
+        text: "Timmy está jugando con un camión rojo. Su amiga Sara también quiere jugar. A Timmy le da pena dejarlo. Pero Timmy le da el camión a Sara. Sara sonríe y dice gracias. Timmy se siente feliz de haber compartido. Ahora juegan juntos con bloques.",
+        purpose: "Habilidad social: compartir y esperar el turno"
+      }
+    }
   },
   {
     id: 'calm_down',
+    narration: 'third_person',
     title: 'Calming Down',
     text: "The classroom is very loud. Jamie covers his ears. He feels frustrated and wants to scream. Jamie takes a deep breath. He counts to five: 1, 2, 3, 4, 5. Jamie goes to the quiet corner. Now he feels calm and safe.",
-    purpose: "Emotional Regulation: Coping with sensory overload"
+    purpose: "Emotional Regulation: Coping with sensory overload",
+    translations: {
+      zh: {
+        title: '让自己平静下来',
+        text: "教室里很吵。乐乐捂住了耳朵。他觉得很烦，想要大叫。乐乐深深地吸了一口气。他数到五：1、2、3、4、5。乐乐走到安静角。现在他觉得平静又安全。",
+        purpose: "情绪调节：应对感官过载"
+      },
+      es: {
+        title: 'Calmarme',
+        text: "El salón de clases tiene mucho ruido. Jaime se tapa los oídos. Se siente frustrado y quiere gritar. Jaime respira hondo. Cuenta hasta cinco: 1, 2, 3, 4, 5. Jaime va al rincón tranquilo. Ahora se siente tranquilo y seguro.",
+        purpose: "Regulación emocional: sobrecarga sensorial"
+      }
+    }
   },
   {
     id: 'greeting',
+    narration: 'third_person',
     title: 'Saying Hello',
     text: "Alex walks into the classroom. He sees his teacher, Mrs. Lee. Alex stops and looks at her. He waves his hand. He says 'Good morning, Mrs. Lee'. Mrs. Lee smiles and waves back. It is polite to say hello.",
-    purpose: "Social Protocol: Greetings"
+    purpose: "Social Protocol: Greetings",
+    translations: {
+      zh: {
+        title: '打招呼',
+        text: "天天走进教室。他看到了李老师。天天停下来看着她。他挥挥手。他说：“李老师早上好。”李老师笑着也向他挥手。打招呼是有礼貌的。",
+        purpose: "社交礼仪：问候"
+      },
+      es: {
+        title: 'Decir hola',
+        text: "Álex entra al salón de clases. Ve a su maestra, la señora Lee. Álex se detiene y la mira. Mueve la mano para saludar. Dice 'Buenos días, señora Lee'. La señora Lee sonríe y también lo saluda. Decir hola es de buena educación.",
+        purpose: "Normas sociales: saludar"
+      }
+    }
   }
 ];
@@ -0,0 +1,7 @@
+import { StoryPage } from '../types';
+
+/**
+ * What a page's picture shows, for screen readers and exported books: the parent's own
+ * description if they wrote one, otherwise the visual cue the picture was painted from.
+ */
+export const getAltText = (page: StoryPage): string => page.alt_text?.trim() || page.action_description.trim();
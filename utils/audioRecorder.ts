@@ -0,0 +1,50 @@
+// Records the parent's voice from the microphone with MediaRecorder.
+
+export interface ActiveRecording {
+  stop: () => Promise<Blob>;
+  cancel: () => void;
+}
+
+// E-books can only carry MP3 or AAC narration, so ask for AAC where the browser can record it
+const PREFERRED_TYPES = ['audio/mp4;codecs=mp4a.40.2', 'audio/mp4'];
+
+export const isRecordingSupported = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Asks for the microphone and starts recording. Rejects if permission is refused.
+ */
+export const startRecording = async (): Promise<ActiveRecording> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  // Turn the microphone off as soon as recording ends, whichever way it ends
+  const release = () => stream.getTracks().forEach(track => track.stop());
+
+  const chunks: Blob[] = [];
+  let recorder: MediaRecorder;
+  try {
+    const mimeType = PREFERRED_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.start();
+  } catch (error) {
+    // e.g. the browser can't record in any format it offers; don't leave the microphone on
+    release();
+    throw error;
+  }
+
+  return {
+    stop: () => new Promise<Blob>(resolve => {
+      recorder.onstop = () => {
+        release();
+        resolve(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+      };
+      recorder.stop();
+    }),
+    cancel: () => {
+      recorder.onstop = release;
+      if (recorder.state !== 'inactive') recorder.stop();
+    }
+  };
+};
@@ -0,0 +1,13 @@
+// Shared by the EPUB and HTML exporters.
+
+const ENTITIES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&apos;" };
+
+/**
+ * Escapes text for use in XHTML/HTML content and attribute values.
+ */
+export const escapeXml = (text: string): string => text.replace(/[&<>"']/g, char => ENTITIES[char]);
+
+/**
+ * A download file name from the story title.
+ */
+export const bookFileName = (title: string, extension: string): string => `${title.replace(/\s+/g, "_")}.${extension}`;
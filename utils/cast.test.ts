@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { assignCharacterIds, MAIN_CHARACTER_ID, toCharacterId } from "./cast";
+
+describe('toCharacterId', () => {
+  it('slugs Latin names', () => {
+    expect(toCharacterId('Mrs. Lee')).toBe('mrs-lee');
+    expect(toCharacterId('  Dr  Bob! ')).toBe('dr-bob');
+  });
+
+  it('keeps letters from other scripts', () => {
+    expect(toCharacterId('小明')).toBe('小明');
+    expect(toCharacterId('王 老师')).toBe('王-老师');
+    expect(toCharacterId('José')).toBe('josé');
+  });
+
+  it('falls back to the main character id when nothing is left', () => {
+    expect(toCharacterId('')).toBe(MAIN_CHARACTER_ID);
+    expect(toCharacterId('!!!')).toBe(MAIN_CHARACTER_ID);
+  });
+});
+
+describe('assignCharacterIds', () => {
+  it('gives every character a distinct id, in order', () => {
+    expect(assignCharacterIds(['Sam', 'Mom', 'sam', 'SAM'])).toEqual(['sam', 'mom', 'sam-2', 'sam-3']);
+  });
+
+  it('keeps CJK names apart', () => {
+    expect(assignCharacterIds(['小明', '小红', '小明'])).toEqual(['小明', '小红', '小明-2']);
+  });
+
+  it('does not reuse an id a later name already slugs to', () => {
+    expect(assignCharacterIds(['Sam', 'Sam', 'Sam 2'])).toEqual(['sam', 'sam-2', 'sam-2-2']);
+  });
+
+  it('gives unnamed characters their own ids', () => {
+    expect(assignCharacterIds(['', 'Main'])).toEqual([MAIN_CHARACTER_ID, 'main-2']);
+  });
+});
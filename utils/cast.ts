@@ -0,0 +1,178 @@
+import { StoryboardData, StoryPage, StoryCharacter, CharacterBlueprint, HeroProfile } from "../types";
+import type { ReferenceImage } from "../services/aiProvider";
+import { recordImageVersion } from "./imageHistory";
+
+export const MAIN_CHARACTER_ID = 'main';
+
+/**
+ * Stable id derived from a character name ("Mrs. Lee" -> "mrs-lee", "小明" -> "小明").
+ */
+export const toCharacterId = (name: string): string => {
+  const slug = name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '');
+  return slug || MAIN_CHARACTER_ID;
+};
+
+/**
+ * Ids for a whole cast, in order. Names that slug the same get a numbered suffix ("sam", "sam-2").
+ */
+export const assignCharacterIds = (names: string[]): string[] => {
+  const taken = new Set<string>();
+  return names.map(name => {
+    const base = toCharacterId(name);
+    let id = base;
+    for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+    taken.add(id);
+    return id;
+  });
+};
+
+export const describeBlueprint = (bp: CharacterBlueprint): string => {
+  const accessories = bp.accessories ? `, with ${bp.accessories}` : '';
+  const skin = bp.skin_tone ? ` ${bp.skin_tone} skin,` : '';
+  return `age ${bp.age}, ${bp.hair} hair,${skin} wearing ${bp.clothing}${accessories}`;
+};
+
+/**
+ * Folds the hero profile's mobility/communication aids into a single accessories phrase.
+ */
+export const describeHeroAccessories = (hero: HeroProfile): string | undefined => {
+  const items = [
+    hero.glasses && 'glasses',
+    hero.wheelchair && 'a wheelchair',
+    hero.aac_device && 'an AAC communication tablet',
+    hero.notes?.trim(),
+  ].filter(Boolean);
+  return items.length > 0 ? items.join(', ') : undefined;
+};
+
+/**
+ * Forces the parent's description onto the main character, whatever the storyboard invented.
+ */
+export const applyHeroProfile = (story: StoryboardData, hero?: HeroProfile): StoryboardData => {
+  if (!hero) return story;
+  const main = getMainCharacter(story);
+  const accessories = describeHeroAccessories(hero);
+  const blueprint: CharacterBlueprint = {
+    ...main.blueprint,
+    ...(hero.hair?.trim() && { hair: hero.hair.trim() }),
+    ...(hero.skin_tone?.trim() && { skin_tone: hero.skin_tone.trim() }),
+    ...(hero.clothing?.trim() && { clothing: hero.clothing.trim() }),
+    ...(accessories && { accessories }),
+  };
+  return updateCharacter(story, main.id, {
+    ...(hero.name?.trim() && { name: hero.name.trim() }),
+    photo_url: hero.photo_url,
+    blueprint,
+  });
+};
+
+/**
+ * Returns the story's cast. Stories saved before casts existed get a single main character.
+ */
+export const getCast = (story: StoryboardData): StoryCharacter[] => {
+  if (story.characters && story.characters.length > 0) {
+    return story.characters;
+  }
+  return [{
+    id: MAIN_CHARACTER_ID,
+    name: 'Main character',
+    role: 'main child',
+    is_main: true,
+    blueprint: story.character_blueprint,
+  }];
+};
+
+export const getMainCharacter = (story: StoryboardData): StoryCharacter => {
+  const cast = getCast(story);
+  return cast.find(c => c.is_main) || cast[0];
+};
+
+/**
+ * Characters present on a page. Pages without an explicit list show the main character.
+ */
+export const getPageCast = (story: StoryboardData, page: StoryPage): StoryCharacter[] => {
+  const cast = getCast(story);
+  if (!page.character_ids) {
+    return [getMainCharacter(story)];
+  }
+  return cast.filter(c => page.character_ids!.includes(c.id));
+};
+
+/**
+ * Replaces one cast member, mirroring the main character into `character_blueprint`.
+ */
+export const updateCharacter = (
+  story: StoryboardData,
+  characterId: string,
+  patch: Partial<StoryCharacter>
+): StoryboardData => {
+  const characters = getCast(story).map(c => c.id === characterId ? { ...c, ...patch } : c);
+  const main = characters.find(c => c.is_main) || characters[0];
+  return { ...story, characters, character_blueprint: main.blueprint };
+};
+
+/**
+ * Scene description for a character's turnaround sheet, painted before any page.
+ */
+export const buildCharacterSheetPrompt = (character: StoryCharacter): string => {
+  return `CHARACTER REFERENCE SHEET for ${character.name} (${character.role}). `
+    + `Full-body turnaround showing the same person three times side by side: front view, three-quarter view and side view. `
+    + `Neutral relaxed standing pose, arms at the sides, calm friendly expression. `
+    + `Plain white background, even soft lighting, no props, no scenery, no text or labels.`;
+};
+
+/**
+ * The parent's photo of a character, if one was supplied.
+ */
+export const collectPhotoReferences = (character: StoryCharacter): ReferenceImage[] => {
+  return character.photo_url
+    ? [{ url: character.photo_url, label: `Photo of the real ${character.name} (identity only, redraw in the book's art style)` }]
+    : [];
+};
+
+/**
+ * Builds the reference images for a page: the photo and reference sheet of every
+ * character on it, followed by the previous page for scene continuity.
+ */
+export const collectPageReferences = (story: StoryboardData, page: StoryPage): ReferenceImage[] => {
+  const refs: ReferenceImage[] = [];
+  const seen = new Set<string>();
+
+  for (const character of getPageCast(story, page)) {
+    refs.push(...collectPhotoReferences(character));
+    const url = character.anchor_image_url;
+    // Never feed a page its own current picture as an identity reference
+    if (url && url !== page.image_url && !seen.has(url)) {
+      refs.push({ url, label: `${character.name} (${character.role})` });
+      seen.add(url);
+    }
+  }
+
+  const index = story.pages.findIndex(p => p.id === page.id);
+  const prevUrl = index > 0 ? story.pages[index - 1].image_url : undefined;
+  if (prevUrl && !seen.has(prevUrl)) {
+    refs.push({ url: prevUrl, label: 'Previous page' });
+  }
+
+  return refs;
+};
+
+/**
+ * Stores a freshly painted page as its newest version. Characters still without a reference sheet
+ * (e.g. its generation failed) adopt the page as their anchor instead.
+ */
+export const applyPageImage = (story: StoryboardData, pageId: number, imageUrl: string, prompt: string): StoryboardData => {
+  const page = story.pages.find(p => p.id === pageId);
+  if (!page) return story;
+
+  const pageCastIds = new Set(getPageCast(story, page).map(c => c.id));
+  const characters = getCast(story).map(c =>
+    pageCastIds.has(c.id) && !c.anchor_image_url ? { ...c, anchor_image_url: imageUrl } : c
+  );
+
+  return {
+    ...story,
+    characters,
+    pages: story.pages.map(p => p.id === pageId ? { ...recordImageVersion(p, imageUrl, prompt), is_generating: false } : p)
+  };
+};
@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { isEpubAudioType } from "./epubGenerator";
+
+describe('isEpubAudioType', () => {
+  it('accepts MP3 and AAC recordings', () => {
+    expect(isEpubAudioType('audio/mpeg')).toBe(true);
+    expect(isEpubAudioType('audio/mp4')).toBe(true);
+    expect(isEpubAudioType('audio/mp4;codecs=mp4a.40.2')).toBe(true);
+  });
+
+  it('rejects what Chrome and Firefox record by default', () => {
+    expect(isEpubAudioType('audio/webm;codecs=opus')).toBe(false);
+    expect(isEpubAudioType('audio/ogg')).toBe(false);
+    expect(isEpubAudioType('audio/mp4;codecs=opus')).toBe(false);
+  });
+});
@@ -0,0 +1,266 @@
+import { zipSync, strToU8, Zippable } from "fflate";
+import { StoryboardData, StoryPage } from "../types";
+import { dataUrlToBlob, extensionForMimeType, isImageDataUrl } from "../services/storyImages";
+import { getGenerationSettings } from "./generationSettings";
+import { getLanguage } from "./i18n";
+import { downloadBlob } from "./download";
+import { escapeXml, bookFileName } from "./bookMarkup";
+import { getAltText } from "./altText";
+
+// An EPUB 3 fixed-layout book: one XHTML page per story page at a fixed size, so pictures
+// and words stay together on phones and e-readers. Pages with a parent recording can carry
+// a media overlay that reads them aloud with the text highlighted, as long as the recording
+// is in a format e-readers must play (MP3, or AAC in MP4).
+
+const PAGE_WIDTH = 800;
+const PAGE_HEIGHT = 1200;
+const ACTIVE_CLASS = "-epub-media-overlay-active";
+
+interface ManifestItem {
+  id: string;
+  href: string; // Relative to the package document
+  mediaType: string;
+  properties?: string;
+  mediaOverlay?: string;
+}
+
+const STYLESHEET = `html, body { margin: 0; padding: 0; width: ${PAGE_WIDTH}px; height: ${PAGE_HEIGHT}px; }
+body { font-family: sans-serif; background: #FFFBF0; color: #1E293B; }
+.page { position: relative; box-sizing: border-box; width: ${PAGE_WIDTH}px; height: ${PAGE_HEIGHT}px; padding: 48px; text-align: center; }
+.page img { display: block; width: 704px; height: 704px; object-fit: contain; margin: 0 auto; border-radius: 24px; }
+.text { margin: 48px 0 0; font-size: 40px; font-weight: bold; line-height: 1.3; }
+.secondary { margin: 24px 0 0; font-size: 30px; line-height: 1.3; color: #64748B; }
+.number { position: absolute; right: 40px; bottom: 32px; font-size: 20px; color: #94A3B8; }
+.title h1, .end h1 { margin: 0; padding-top: 160px; font-size: 64px; line-height: 1.2; }
+.title img { margin-top: 64px; }
+.end h1 { padding-top: 480px; font-size: 96px; color: #FFAA4C; }
+.${ACTIVE_CLASS} { background-color: #FFD93D; border-radius: 8px; }
+`;
+
+const xhtmlPage = (title: string, language: string, body: string): string => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${language}" xml:lang="${language}">
+<head>
+<meta charset="UTF-8"/>
+<meta name="viewport" content="width=${PAGE_WIDTH}, height=${PAGE_HEIGHT}"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+/**
+ * Whether audio of this MIME type is an EPUB 3 core media type. WebM and Ogg recordings aren't.
+ */
+export const isEpubAudioType = (type: string): boolean => {
+  const [base, ...params] = type.toLowerCase().split(";").map(part => part.trim());
+  if (base === "audio/mpeg") return true;
+  // MP4 audio has to be AAC; some browsers record Opus into MP4
+  return base === "audio/mp4" && !params.some(param => param.startsWith("codecs=") && !param.includes("mp4a"));
+};
+
+// SMIL clock value, e.g. 0:00:07.250
+const formatClock = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = (seconds % 60).toFixed(3).padStart(6, "0");
+  return `${hours}:${String(minutes).padStart(2, "0")}:${rest}`;
+};
+
+/**
+ * How long a recording plays. Decoded rather than read from an <audio> element, because
+ * MediaRecorder's WebM files often report an unknown duration.
+ */
+const measureDuration = async (blob: Blob): Promise<number> => {
+  const context = new AudioContext();
+  try {
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+    return buffer.duration;
+  } finally {
+    context.close().catch(() => {});
+  }
+};
+
+const pageBody = (page: StoryPage, number: number, imageHref: string | undefined, secondaryLanguage?: string): string => {
+  const picture = imageHref ? `<img src="${imageHref}" alt="${escapeXml(getAltText(page))}"/>\n` : "";
+  const secondary = page.text_secondary && secondaryLanguage
+    ? `<p class="secondary" lang="${secondaryLanguage}" xml:lang="${secondaryLanguage}">${escapeXml(page.text_secondary)}</p>\n`
+    : "";
+  return `<section class="page" epub:type="bodymatter chapter">
+${picture}<p class="text" id="text-${number}">${escapeXml(page.text)}</p>
+${secondary}<span class="number" aria-hidden="true">${number}</span>
+</section>`;
+};
+
+/**
+ * Builds the EPUB and downloads it. Recordings, keyed by page id, become media overlays.
+ * Resolves to the number of recordings left out because e-readers can't be relied on to play them.
+ */
+export const generateEpub = async (story: StoryboardData, recordings: Map<number, Blob> = new Map()): Promise<number> => {
+  const settings = getGenerationSettings(story);
+  const language = getLanguage(settings.language);
+  const secondaryLanguage = settings.secondary_language;
+  const files: Zippable = {};
+  const manifest: ManifestItem[] = [
+    { id: "nav", href: "nav.xhtml", mediaType: "application/xhtml+xml", properties: "nav" },
+    { id: "style", href: "style.css", mediaType: "text/css" }
+  ];
+  const spine: string[] = [];
+  const overlayDurations: { id: string; seconds: number }[] = [];
+  let recordingsLeftOut = 0;
+
+  const addFile = (item: ManifestItem, data: Uint8Array) => {
+    manifest.push(item);
+    files[`OEBPS/${item.href}`] = data;
+  };
+
+  files["OEBPS/style.css"] = strToU8(STYLESHEET);
+
+  // Pictures are copied as they are; PNG, JPEG, WebP and SVG are all EPUB core media types
+  const imageHrefs = new Map<number, string>();
+  for (const [index, page] of story.pages.entries()) {
+    if (!page.image_url || !isImageDataUrl(page.image_url)) continue;
+    const blob = dataUrlToBlob(page.image_url);
+    const href = `images/page-${index + 1}.${extensionForMimeType(blob.type)}`;
+    addFile(
+      { id: `image-${index + 1}`, href, mediaType: blob.type, properties: imageHrefs.size === 0 ? "cover-image" : undefined },
+      new Uint8Array(await blob.arrayBuffer())
+    );
+    imageHrefs.set(page.id, href);
+  }
+
+  const firstImage = imageHrefs.values().next().value;
+  addFile(
+    { id: "title", href: "title.xhtml", mediaType: "application/xhtml+xml" },
+    strToU8(xhtmlPage(story.title, language.code, `<section class="page title" epub:type="titlepage">
+<h1>${escapeXml(story.title)}</h1>
+${firstImage ? `<img src="${firstImage}" alt=""/>` : ""}
+</section>`))
+  );
+  spine.push("title");
+
+  for (const [index, page] of story.pages.entries()) {
+    const number = index + 1;
+    const href = `page-${number}.xhtml`;
+    const item: ManifestItem = { id: `page-${number}`, href, mediaType: "application/xhtml+xml" };
+
+    const recording = recordings.get(page.id);
+    if (recording && !isEpubAudioType(recording.type)) {
+      recordingsLeftOut++;
+    } else if (recording) {
+      try {
+        const seconds = await measureDuration(recording);
+        const audioHref = `audio/page-${number}.${extensionForMimeType(recording.type)}`;
+        addFile(
+          { id: `audio-${number}`, href: audioHref, mediaType: recording.type.split(";")[0] },
+          new Uint8Array(await recording.arrayBuffer())
+        );
+        addFile(
+          { id: `overlay-${number}`, href: `overlays/page-${number}.smil`, mediaType: "application/smil+xml" },
+          strToU8(`<?xml version="1.0" encoding="UTF-8"?>
+<smil xmlns="http://www.w3.org/ns/SMIL" xmlns:epub="http://www.idpf.org/2007/ops" version="3.0">
+<body>
+<par id="par-${number}">
+<text src="../${href}#text-${number}"/>
+<audio src="../${audioHref}" clipBegin="0:00:00.000" clipEnd="${formatClock(seconds)}"/>
+</par>
+</body>
+</smil>
+`)
+        );
+        item.mediaOverlay = `overlay-${number}`;
+        overlayDurations.push({ id: `overlay-${number}`, seconds });
+      } catch (e) {
+        // The page is still included, just without narration
+        console.warn(`Skipping the recording for page ${number}`, e);
+      }
+    }
+
+    addFile(item, strToU8(xhtmlPage(`${story.title} – ${number}`, language.code, pageBody(page, number, imageHrefs.get(page.id), secondaryLanguage))));
+    spine.push(item.id);
+  }
+
+  addFile(
+    { id: "end", href: "end.xhtml", mediaType: "application/xhtml+xml" },
+    strToU8(xhtmlPage(language.theEnd, language.code, `<section class="page end" epub:type="backmatter">
+<h1>${escapeXml(language.theEnd)}</h1>
+</section>`))
+  );
+  spine.push("end");
+
+  files["OEBPS/nav.xhtml"] = strToU8(`<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${language.code}" xml:lang="${language.code}">
+<head><meta charset="UTF-8"/><title>${escapeXml(story.title)}</title></head>
+<body>
+<nav epub:type="toc" id="toc">
+<h1>${escapeXml(story.title)}</h1>
+<ol>
+<li><a href="title.xhtml">${escapeXml(story.title)}</a></li>
+${story.pages.map((page, index) => `<li><a href="page-${index + 1}.xhtml">${index + 1}. ${escapeXml(page.text)}</a></li>`).join("\n")}
+<li><a href="end.xhtml">${escapeXml(language.theEnd)}</a></li>
+</ol>
+</nav>
+</body>
+</html>
+`);
+
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, "Z");
+  const languages = [language.code, ...(secondaryLanguage ? [secondaryLanguage] : [])];
+  const features = ["alternativeText", "displayTransformability", ...(overlayDurations.length ? ["synchronizedAudioText"] : [])];
+  const overlayMeta = overlayDurations.length
+    ? [
+      ...overlayDurations.map(o => `<meta property="media:duration" refines="#${o.id}">${formatClock(o.seconds)}</meta>`),
+      `<meta property="media:duration">${formatClock(overlayDurations.reduce((sum, o) => sum + o.seconds, 0))}</meta>`,
+      `<meta property="media:active-class">${ACTIVE_CLASS}</meta>`
+    ].join("\n")
+    : "";
+  const attributes = (item: ManifestItem) =>
+    `${item.properties ? ` properties="${item.properties}"` : ""}${item.mediaOverlay ? ` media-overlay="${item.mediaOverlay}"` : ""}`;
+
+  files["OEBPS/content.opf"] = strToU8(`<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language.code}"
+  prefix="rendition: http://www.idpf.org/vocab/rendition/# schema: http://schema.org/">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">urn:spectratales:${escapeXml(story.uid)}</dc:identifier>
+<dc:title>${escapeXml(story.title)}</dc:title>
+${languages.map(code => `<dc:language>${code}</dc:language>`).join("\n")}
+<dc:description>${escapeXml(story.purpose)}</dc:description>
+<dc:publisher>SpectraTales</dc:publisher>
+<meta property="dcterms:modified">${modified}</meta>
+<meta property="rendition:layout">pre-paginated</meta>
+<meta property="rendition:orientation">portrait</meta>
+<meta property="rendition:spread">none</meta>
+<meta property="schema:accessMode">textual</meta>
+<meta property="schema:accessMode">visual</meta>
+<meta property="schema:accessModeSufficient">textual</meta>
+${features.map(feature => `<meta property="schema:accessibilityFeature">${feature}</meta>`).join("\n")}
+<meta property="schema:accessibilityHazard">none</meta>
+<meta property="schema:accessibilitySummary">Every picture has a text description, and all story text is real text.</meta>
+${overlayMeta}
+</metadata>
+<manifest>
+${manifest.map(item => `<item id="${item.id}" href="${item.href}" media-type="${item.mediaType}"${attributes(item)}/>`).join("\n")}
+</manifest>
+<spine>
+${spine.map(id => `<itemref idref="${id}"/>`).join("\n")}
+</spine>
+</package>
+`);
+
+  files["META-INF/container.xml"] = strToU8(`<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`);
+
+  // The mimetype file must come first in the archive and be stored uncompressed
+  const archive = zipSync({ mimetype: [strToU8("application/epub+zip"), { level: 0 }], ...files });
+  downloadBlob(new Blob([archive], { type: "application/epub+zip" }), bookFileName(story.title, "epub"));
+  return recordingsLeftOut;
+};
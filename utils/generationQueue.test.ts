@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { GenerationError, withRetry } from "../services/generationErrors";
+import { isAbortError, runQueue, QueueProgress } from "./generationQueue";
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('isAbortError', () => {
+  it('matches raw and classified cancellations only', () => {
+    expect(isAbortError(new DOMException('stop', 'AbortError'))).toBe(true);
+    expect(isAbortError(new GenerationError('cancelled', 'stop'))).toBe(true);
+    expect(isAbortError(new GenerationError('network', 'offline'))).toBe(false);
+    expect(isAbortError(new Error('AbortError'))).toBe(false);
+  });
+});
+
+describe('runQueue', () => {
+  it('never runs more than `concurrency` items at once', async () => {
+    let running = 0;
+    let peak = 0;
+    const progress = await runQueue([1, 2, 3, 4, 5, 6, 7], async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await tick();
+      running--;
+    }, { concurrency: 3 });
+
+    expect(peak).toBe(3);
+    expect(progress).toEqual({ total: 7, completed: 7, failed: 0 });
+  });
+
+  it('finishes the leading items one at a time before fanning out', async () => {
+    const log: string[] = [];
+    await runQueue(['a', 'b', 'c', 'd'], async item => {
+      log.push(`start ${item}`);
+      await tick();
+      log.push(`end ${item}`);
+    }, { concurrency: 2, leading: 1 });
+
+    expect(log.slice(0, 2)).toEqual(['start a', 'end a']);
+    expect(log.slice(2, 4)).toEqual(['start b', 'start c']);
+  });
+
+  it('counts failures without stopping the rest of the queue', async () => {
+    const done: number[] = [];
+    const progress = await runQueue([1, 2, 3], async item => {
+      if (item === 2) throw new Error('boom');
+      done.push(item);
+    }, { concurrency: 1 });
+
+    expect(done).toEqual([1, 3]);
+    expect(progress).toEqual({ total: 3, completed: 2, failed: 1 });
+  });
+
+  it('skips items not yet started once the signal aborts', async () => {
+    const controller = new AbortController();
+    const started: number[] = [];
+    const progress = await runQueue([1, 2, 3, 4], async item => {
+      started.push(item);
+      if (item === 2) controller.abort();
+    }, { concurrency: 1, signal: controller.signal });
+
+    expect(started).toEqual([1, 2]);
+    expect(progress.completed).toBe(2);
+  });
+
+  it('does not count a cancelled item as failed', async () => {
+    const progress = await runQueue([1], async () => {
+      throw new DOMException('cancelled', 'AbortError');
+    }, { concurrency: 1 });
+
+    expect(progress).toEqual({ total: 1, completed: 0, failed: 0 });
+  });
+
+  it('treats a retried task that gets cancelled as cancelled, not failed', async () => {
+    const controller = new AbortController();
+    const started: number[] = [];
+    const progress = await runQueue([1, 2, 3], item => withRetry(async () => {
+      started.push(item);
+      controller.abort();
+      throw new GenerationError('network', 'offline');
+    }, { baseDelayMs: 60000, signal: controller.signal }), { concurrency: 1, signal: controller.signal });
+
+    expect(started).toEqual([1]);
+    expect(progress).toEqual({ total: 3, completed: 0, failed: 0 });
+  });
+
+  it('reports progress after every item', async () => {
+    const reports: QueueProgress[] = [];
+    await runQueue([1, 2], async () => {}, { concurrency: 1, onProgress: p => reports.push(p) });
+
+    expect(reports.map(p => p.completed)).toEqual([0, 1, 2]);
+  });
+});
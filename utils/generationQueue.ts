@@ -0,0 +1,65 @@
+export interface QueueProgress {
+  total: number;
+  completed: number;
+  failed: number;
+}
+
+export interface QueueOptions {
+  concurrency: number;
+  leading?: number; // Items that must finish, one at a time, before the rest fan out
+  signal?: AbortSignal;
+  onProgress?: (progress: QueueProgress) => void;
+}
+
+/**
+ * True for a raw AbortError and for one `withRetry` has already classified as cancelled.
+ * The GenerationError is matched by shape, since generationErrors imports this module.
+ */
+export const isAbortError = (error: unknown): boolean => {
+  if (!(error instanceof Error)) return false;
+  return error.name === 'AbortError'
+    || (error.name === 'GenerationError' && (error as { kind?: unknown }).kind === 'cancelled');
+};
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new DOMException("Generation was cancelled", "AbortError");
+  }
+};
+
+/**
+ * Runs `worker` over `items` with at most `concurrency` in flight, after the first
+ * `leading` items have run on their own (e.g. an anchor page later pages refer to).
+ * Items not yet started when the signal aborts are skipped; failures are counted
+ * but never stop the rest of the queue (the worker reports them itself).
+ */
+export const runQueue = async <T>(
+  items: T[],
+  worker: (item: T) => Promise<void>,
+  { concurrency, leading = 0, signal, onProgress }: QueueOptions
+): Promise<QueueProgress> => {
+  const progress: QueueProgress = { total: items.length, completed: 0, failed: 0 };
+  let next = 0;
+
+  onProgress?.({ ...progress });
+
+  const lane = async (until: number) => {
+    while (next < until && !signal?.aborted) {
+      const item = items[next++];
+      try {
+        await worker(item);
+        progress.completed++;
+      } catch (error) {
+        if (isAbortError(error)) return;
+        progress.failed++;
+      }
+      onProgress?.({ ...progress });
+    }
+  };
+
+  await lane(Math.min(leading, items.length));
+
+  const lanes = Math.max(1, Math.min(concurrency, items.length - next));
+  await Promise.all(Array.from({ length: lanes }, () => lane(items.length)));
+  return progress;
+};
@@ -0,0 +1,43 @@
+import { StoryboardData, StoryCharacter, GenerationSettings, VisualComplexity } from "../types";
+import { ImageStyleConfig } from "../services/aiProvider";
+
+/**
+ * The settings a story was made with. Stories saved before settings were kept
+ * get the defaults they were generated with at the time.
+ */
+export const getGenerationSettings = (story: StoryboardData): GenerationSettings => ({
+  complexity: VisualComplexity.BALANCED,
+  style_prompt: '',
+  ...story.settings
+});
+
+/**
+ * Style inputs for painting one picture of this story, always from the story's own settings.
+ */
+export const buildImageStyle = (story: StoryboardData, characters: StoryCharacter[]): ImageStyleConfig => {
+  const settings = getGenerationSettings(story);
+  return {
+    globalPrompt: story.visual_style_guide,
+    blueprint: story.character_blueprint,
+    characters,
+    complexity: settings.complexity,
+    stylePrompt: settings.style_prompt || undefined,
+    sensory: settings.sensory
+  };
+};
+
+/**
+ * The image model to redraw with: the book's own, as long as the same backend is still in use.
+ */
+export const getImageModel = (story: StoryboardData, providerId: string): string | undefined => {
+  const settings = story.settings;
+  return settings?.provider === providerId ? settings.image_model : undefined;
+};
+
+/**
+ * The text model for later edits to the story, on the same terms as `getImageModel`.
+ */
+export const getStoryboardModel = (story: StoryboardData, providerId: string): string | undefined => {
+  const settings = story.settings;
+  return settings?.provider === providerId ? settings.storyboard_model : undefined;
+};
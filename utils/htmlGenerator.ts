@@ -0,0 +1,82 @@
+import { StoryboardData, StoryPage } from "../types";
+import { blobToDataUrl, isImageDataUrl } from "../services/storyImages";
+import { getGenerationSettings } from "./generationSettings";
+import { getLanguage } from "./i18n";
+import { downloadBlob } from "./download";
+import { escapeXml, bookFileName } from "./bookMarkup";
+import { getAltText } from "./altText";
+
+// A single self-contained HTML page: pictures and recordings are inlined as data URLs and
+// there is no script, so it opens offline in any browser, phone or tablet.
+
+const STYLESHEET = `* { box-sizing: border-box; }
+body { margin: 0; font-family: "Nunito", system-ui, sans-serif; background: #FFFBF0; color: #1E293B; }
+main { max-width: 720px; margin: 0 auto; padding: 24px 16px 64px; }
+h1 { font-size: 2.5rem; line-height: 1.2; text-align: center; margin: 48px 0; }
+.page { background: #FFF; border: 4px solid #F1F5F9; border-radius: 24px; overflow: hidden; margin: 0 0 40px; box-shadow: 4px 4px 0 rgba(0, 0, 0, 0.15); }
+.page img { display: block; width: 100%; height: auto; }
+.words { padding: 24px 28px 28px; text-align: center; }
+.text { font-size: 1.75rem; font-weight: 700; line-height: 1.35; margin: 0; }
+.secondary { font-size: 1.3rem; line-height: 1.35; color: #64748B; margin: 16px 0 0; }
+.number { display: block; margin-top: 16px; font-size: 0.9rem; color: #94A3B8; }
+audio { width: 100%; margin-top: 16px; }
+.end { font-size: 3.5rem; font-weight: 700; text-align: center; color: #FFAA4C; }
+@media print {
+  body { background: none; }
+  .page { break-inside: avoid; box-shadow: none; }
+  audio { display: none; }
+}
+`;
+
+const pageSection = (page: StoryPage, number: number, secondaryLanguage?: string, recordingUrl?: string): string => {
+  const picture = page.image_url && isImageDataUrl(page.image_url)
+    ? `<img src="${escapeXml(page.image_url)}" alt="${escapeXml(getAltText(page))}">\n`
+    : "";
+  const secondary = page.text_secondary && secondaryLanguage
+    ? `<p class="secondary" lang="${secondaryLanguage}">${escapeXml(page.text_secondary)}</p>\n`
+    : "";
+  const audio = recordingUrl ? `<audio controls preload="none" src="${recordingUrl}"></audio>\n` : "";
+  return `<section class="page" aria-label="${number}">
+${picture}<div class="words">
+<p class="text">${escapeXml(page.text)}</p>
+${secondary}${audio}<span class="number" aria-hidden="true">${number}</span>
+</div>
+</section>`;
+};
+
+/**
+ * Builds the HTML book and downloads it. Recordings, keyed by page id, get a player on their page.
+ */
+export const generateHtml = async (story: StoryboardData, recordings: Map<number, Blob> = new Map()) => {
+  const settings = getGenerationSettings(story);
+  const language = getLanguage(settings.language);
+
+  const sections: string[] = [];
+  for (const [index, page] of story.pages.entries()) {
+    const recording = recordings.get(page.id);
+    const recordingUrl = recording ? await blobToDataUrl(recording) : undefined;
+    sections.push(pageSection(page, index + 1, settings.secondary_language, recordingUrl));
+  }
+
+  const html = `<!DOCTYPE html>
+<html lang="${language.code}">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="SpectraTales">
+<title>${escapeXml(story.title)}</title>
+<style>
+${STYLESHEET}</style>
+</head>
+<body>
+<main>
+<h1>${escapeXml(story.title)}</h1>
+${sections.join("\n")}
+<p class="end">${escapeXml(language.theEnd)}</p>
+</main>
+</body>
+</html>
+`;
+
+  downloadBlob(new Blob([html], { type: "text/html" }), bookFileName(story.title, "html"));
+};
@@ -0,0 +1,758 @@
+import { useSyncExternalStore } from 'react';
+import { LanguageCode, LANGUAGES, DEFAULT_LANGUAGE, Language, StoryTemplate, StoryTemplateText } from '../types';
+
+// Interface strings. Story text is generated in the story's own language and is
+// not translated here; see GenerationSettings.language.
+
+export type UiLanguage = 'en' | 'zh';
+
+export const UI_LANGUAGES: UiLanguage[] = ['en', 'zh'];
+
+const STORAGE_KEY = 'spectratales.uiLanguage';
+
+const EN = {
+  'app.tagline': 'Social Stories for Super Kids',
+  'app.uiLanguage': 'Interface language',
+  'app.skipToContent': 'Skip to content',
+  'app.failure': '{title}. {hint}',
+  'app.pdfError': "We couldn't create the PDF. Please try again.",
+  'app.pdfFontError': "We couldn't download the {font} font for the PDF. Check your connection and try again.",
+  'app.openError': "We couldn't open that story. Please try again.",
+  'app.exportError': "We couldn't export that story. Please try again.",
+  'app.importError': "We couldn't import that story. Please try again.",
+  'app.backupError': "We couldn't create the backup. Please try again.",
+  'app.restoreError': "We couldn't restore that backup. Your library was not changed.",
+  'app.deleteError': "We couldn't delete that story. Please try again.",
+
+  'input.heading': "Let's Make a Story! 🎨",
+  'input.intro': 'Create a personalized social story in seconds. Just pick a topic or write your own!',
+  'input.step1': 'How do you want to start?',
+  'input.templateMode': 'Pick a Topic',
+  'input.templateModeHint': 'Use our ready-made themes like sharing, waiting, or greeting.',
+  'input.customMode': 'Write My Own',
+  'input.customModeHint': 'Paste a specific scenario or write a custom story text.',
+  'input.chooseTheme': 'Choose a Theme',
+  'input.typeStory': 'Type your Story',
+  'input.preview': 'Story Preview',
+  'input.placeholder': "Start typing here... Example: 'Tom wants the toy train, but Sally is playing with it. Tom takes a deep breath and asks nicely...'",
+  'input.ready': 'Ready to go!',
+  'input.empty': 'Please enter your story text above',
+  'input.step3': 'Who is the hero?',
+  'input.boy': 'Boy',
+  'input.girl': 'Girl',
+  'input.showHero': 'Make the hero look like my child',
+  'input.hideHero': 'Hide personal details',
+  'input.step4': 'Choose Visual Style',
+  'input.artStyle': 'Art Style',
+  'input.words': 'Words on the Page',
+  'input.language': 'Story Language',
+  'input.secondLanguage': 'Second language',
+  'input.noSecondLanguage': 'None',
+  'input.bilingualHint': 'Each page shows the text in both languages.',
+  'input.submit': 'Create Magic Storybook!',
+  'input.loading': 'Dreaming up your story...',
+  'input.addPhoto': 'Add photo',
+  'input.childPhoto': 'Your child',
+  'input.customStyleLabel': 'Custom art style',
+  'input.fewestPages': 'Fewest pages',
+  'input.mostPages': 'Most pages',
+  'input.narration': 'Narration',
+  'input.photoError': "We couldn't read that photo. Please try a different image.",
+  'input.removePhoto': 'Remove photo',
+  'input.photoPrivacy': 'Stays on this device only.',
+  'input.heroName': 'Name',
+  'input.heroNamePlaceholder': 'e.g. Leo',
+  'input.hairPlaceholder': 'e.g. short curly black',
+  'input.skinTonePlaceholder': 'e.g. light brown',
+  'input.favoriteClothing': 'Favorite Clothing',
+  'input.clothingPlaceholder': 'e.g. red dinosaur hoodie',
+  'input.glasses': 'Glasses',
+  'input.wheelchair': 'Wheelchair',
+  'input.aacDevice': 'AAC Device',
+  'input.notes': 'Anything Else',
+  'input.notesPlaceholder': 'e.g. always carries a blue blanket',
+  'input.forgetHero': 'Forget these details',
+  'input.customStylePlaceholder': 'e.g. Bright crayon drawings, like a child made them',
+  'input.sensory': 'Sensory-friendly pictures',
+  'input.sensoryHint': 'Calm, literal images for children who are easily overwhelmed',
+  'input.mutedPalette': 'Muted colors & soft light',
+  'input.literalOnly': 'No thought bubbles or sparkles',
+  'input.noBusyPatterns': 'No busy patterns',
+  'input.maxColors': 'Most colors',
+  'input.anyColors': 'Any',
+  'input.ages': 'Ages {ages}',
+  'input.maxWords': 'Most words a page',
+  'input.pages': 'Pages',
+  'input.pagesTo': 'to',
+  'input.firstPerson': 'I did it',
+  'input.thirdPerson': 'Sam did it',
+  'input.showcase': 'Explore Our Story Library',
+  'input.showcaseStyle': 'Style:',
+
+  'editor.startOver': 'Start Over',
+  'editor.intro': "Check every page before we start painting. Pictures are only made once you're happy.",
+  'editor.pageText': 'Page Text',
+  'editor.translation': 'Translation ({language})',
+  'editor.visualCue': 'Visual Cue',
+  'editor.confirm': 'Looks Good, Draw the Characters!',
+  'editor.incomplete': 'Every page needs some text and a visual cue, and every character needs a name.',
+  'editor.storyTitle': 'Story title',
+  'editor.characterName': 'Character name',
+  'editor.removeCharacter': 'Remove character',
+  'editor.moveUp': 'Move up',
+  'editor.moveDown': 'Move down',
+  'editor.deletePage': 'Delete page',
+  'editor.cast': 'Cast',
+  'editor.addCharacter': 'Add character',
+  'editor.role': 'Role',
+  'editor.styleGuide': 'Visual Style Guide',
+  'editor.check': 'Social Story Check',
+  'editor.grade': 'Reading grade ~{grade}',
+  'editor.levelLimit': '{level} · up to {words} words a page',
+  'editor.noDirectives': 'No directive sentences.',
+  'editor.ratio': '{ratio} describing sentences for every directive (aim for {target} or more).',
+  'editor.englishOnly': 'Wording checks only understand English; word and page limits are still checked.',
+  'editor.noProblems': 'No wording problems found.',
+  'editor.flaggedOne': '1 page with wording to review below.',
+  'editor.flaggedMany': '{count} pages with wording to review below.',
+  'editor.rewrite': 'Rewrite',
+  'editor.rewriting': 'Rewriting...',
+  'editor.onThisPage': 'On this page:',
+  'editor.unnamed': 'Unnamed',
+  'editor.addPage': 'Add page here',
+
+  'book.makeAnother': 'Make Another Story',
+  'book.share': 'Share',
+  'book.shareHint': 'Download a .spectratale file to share this book',
+  'book.savePdf': 'Save PDF',
+  'book.export': 'Save & Export',
+  'book.savingPdf': 'Saving...',
+  'book.painting': 'Painting pages...',
+  'book.stop': 'Stop',
+  'book.visualCue': 'Visual Cue',
+  'book.edit': 'Edit text and visual cue',
+  'book.cancel': 'Cancel',
+  'book.save': 'Save',
+  'book.saveRedraw': 'Save & Redraw',
+  'book.altText': 'Picture Description',
+  'book.altTextHint': 'Read by screen readers and included in exported books. Leave empty to use the visual cue.',
+  'book.pages': 'Book pages',
+  'book.pageLabel': 'Page {number}',
+  'book.version': 'Version {number}',
+  'book.redraw': 'Redraw this picture',
+  'book.blueprint': 'Character Blueprint',
+  'book.age': 'Age {age}',
+  'book.paintingPage': 'Painting...',
+  'book.stuck': 'Stuck? Retry',
+  'book.waiting': 'Waiting for magic',
+  'book.retryFailed': 'Retry Failed Image',
+  'book.redrawFailed': 'Redraw failed: {reason}',
+  'book.hair': '{hair} Hair',
+  'book.skin': '{skin} Skin',
+  'book.complexityStyle': '{complexity} Style',
+  'book.sensory': 'Sensory-Friendly',
+  'sheets.sheetAlt': 'Reference sheet for {name}',
+  'sheets.redraw': 'Redraw this character',
+  'sheets.back': 'Back to Storyboard',
+  'sheets.title': 'Meet the Characters',
+  'sheets.intro': "Every page is painted from these sheets. Redraw any that don't look right before we continue.",
+  'sheets.sketching': 'Sketching {name}...',
+  'sheets.empty': 'No sheet yet',
+  'sheets.confirm': 'They Look Great, Paint the Pages!',
+
+  'read.title': 'Read Aloud',
+  'read.readBook': 'Read the Book',
+  'read.stop': 'Stop Reading',
+  'read.voice': 'Voice',
+  'read.defaultVoice': 'Default voice',
+  'read.speed': 'Speed',
+  'read.pitch': 'Pitch',
+  'read.useRecordings': 'Use my recordings when a page has one',
+  'read.unsupported': "This browser can't read aloud, but your recordings still play.",
+  'read.readPage': 'Read this page',
+  'read.record': 'Record my voice',
+  'read.stopRecording': 'Stop recording',
+  'read.playRecording': 'Play my recording',
+  'read.deleteRecording': 'Delete my recording',
+  'read.micError': "We couldn't use the microphone. Please allow access and try again.",
+  'read.saveError': "We couldn't save the recording. Please try again.",
+
+  'reader.open': 'Reader Mode',
+  'reader.close': 'Close',
+  'reader.position': '{current} / {total}',
+  'reader.turnPages': 'Turn pages',
+  'reader.byHand': 'By hand',
+  'reader.everySeconds': 'Every {seconds} seconds',
+  'reader.readToMe': 'Read to me',
+  'reader.previous': 'Previous page',
+  'reader.next': 'Next page',
+  'reader.readAgain': 'Read Again',
+
+  'export.title': 'Save & Export',
+  'export.book': 'Storybook',
+  'export.bookHint': 'The whole story, one page at a time.',
+  'export.schedule': 'Visual Schedule',
+  'export.scheduleHint': 'Numbered steps in a strip, with boxes to tick off.',
+  'export.firstThen': 'First-Then Board',
+  'export.firstThenHint': 'Two pages side by side: first this, then that.',
+  'export.cards': 'Picture Cards',
+  'export.cardsHint': 'Cut-out cards, six to a sheet, with check-off boxes.',
+  'export.first': 'First',
+  'export.then': 'Then',
+  'export.pageSize': 'Paper',
+  'export.font': 'Font',
+  'export.fontStandard': 'Standard',
+  'export.fontDyslexia': 'Dyslexia-friendly',
+  'export.fontLargePrint': 'Large print',
+  'export.layout': 'Layout',
+  'export.layoutPortrait': 'Picture above words',
+  'export.layoutLandscape': 'Wide picture book',
+  'export.layoutSpread': 'Picture left, words right',
+  'export.booklet': 'Fold into a booklet',
+  'export.bookletHint': 'Two pages on each side of the paper. Print double-sided, flipping on the short edge, then fold the stack in half and staple the spine.',
+  'export.ebookTitle': 'E-book',
+  'export.ebookHint': 'For phones, tablets and e-readers. Pictures are described for screen readers.',
+  'export.epub': 'EPUB',
+  'export.html': 'Web page (works offline)',
+  'export.includeRecordings': 'Include my recordings',
+  'export.recordingsLeftOut': "{count} of your recordings were left out of the EPUB because e-readers can't play the format this browser recorded in. The HTML book includes them.",
+  'export.ebookError': "We couldn't create the e-book. Please try again.",
+  'library.search': 'Search stories',
+  'library.sort': 'Sort stories',
+  'library.open': 'Open {title}',
+  'library.newTitle': 'New title',
+  'library.saveTitle': 'Save title',
+  'library.rename': 'Rename',
+  'library.editTags': 'Edit tags',
+  'library.duplicate': 'Duplicate as new draft',
+  'library.share': 'Share as a .spectratale file',
+  'library.delete': 'Delete',
+  'library.title': 'Your Story Collection',
+  'library.import': 'Import a story',
+  'library.searchPlaceholder': 'Search titles, goals, tags or page text...',
+  'library.newest': 'Newest first',
+  'library.oldest': 'Oldest first',
+  'library.byTitle': 'Title A-Z',
+  'library.all': 'All',
+  'library.noResults': 'No stories match your search.',
+  'library.draft': 'Draft',
+  'library.tagPlaceholder': 'New tag (e.g. student name)',
+  'library.addTag': 'Add',
+  'library.showMore': 'Show more ({count} left)',
+  'library.confirmDelete': 'Delete "{title}"? This cannot be undone.',
+  'backup.create': 'Back up library',
+  'backup.restore': 'Restore from backup',
+  'backup.made': 'Made {date} · {stories} stories, {pictures} pictures',
+  'backup.recordings': ', {count} recordings',
+  'backup.merge': 'Merge',
+  'backup.mergeHint': 'Add the backup to the stories already here.',
+  'backup.replace': 'Replace everything',
+  'backup.replaceHint': 'Make this browser an exact copy of the backup.',
+  'backup.added': '{count} new',
+  'backup.overwritten': '{count} replaced by the backup copy',
+  'backup.removed': '{count} deleted',
+  'backup.kept': '{count} left as they are',
+  'backup.skipped': "{count} can't be read and will be skipped",
+  'backup.settingsReplace': "Narration, print and language settings are replaced with the backup's.",
+  'backup.settingsKept': 'Narration, print and language settings here are kept.',
+  'backup.noSettings': 'This backup has no settings; the ones here are kept.',
+  'backup.andMore': '{titles} and {count} more',
+  'backup.heroMerge': "Saved hero details here are kept; the backup's are only used if none are saved.",
+  'backup.heroReplace': "Saved hero details are replaced with the backup's.",
+  'backup.restoring': 'Restoring...',
+  'backup.nothing': 'Nothing to restore',
+  'backup.mergeButton': 'Merge Into My Library',
+  'backup.replaceButton': 'Replace My Library',
+  'backup.readError': "We couldn't read that backup. Please try again.",
+  'bundleError.not_bundle': "This file isn't a SpectraTales story bundle.",
+  'bundleError.bundle_damaged': "This story bundle is damaged and can't be read.",
+  'bundleError.bundle_newer': 'This story was made with a newer version of SpectraTales. Please update and try again.',
+  'bundleError.bundle_missing_picture': 'This story bundle is missing a picture ({path}).',
+  'bundleError.not_image': "This story bundle has a picture that isn't an image.",
+  'bundleError.invalid_story': "This file isn't a valid story ({detail}).",
+  'bundleError.not_backup': "This file isn't a SpectraTales library backup.",
+  'bundleError.backup_damaged': "This backup is damaged and can't be restored.",
+  'bundleError.backup_newer': 'This backup was made with a newer version of SpectraTales. Please update and try again.',
+  'bundleError.backup_missing_picture': 'This backup is missing a picture ({path}).',
+  'bundleError.backup_missing_recording': 'This backup is missing a recording ({path}).',
+  'failure.rate_limit': 'Too many pictures at once',
+  'failure.rate_limitHint': 'The Gemini quota is used up for now. Wait a minute (or until tomorrow for the daily limit) and retry.',
+  'failure.safety_block': 'Picture was blocked',
+  'failure.safety_blockHint': 'The safety filter refused this scene. Reword the visual cue and redraw.',
+  'failure.invalid_key': 'API key problem',
+  'failure.invalid_keyHint': 'Check GEMINI_API_KEY in .env.local. Retrying will not help until it is fixed.',
+  'failure.network': 'Connection problem',
+  'failure.networkHint': "We couldn't reach the image service. Check your internet and retry.",
+  'failure.empty_image': 'No picture came back',
+  'failure.empty_imageHint': 'The model answered without an image. Retrying usually works.',
+  'failure.cancelled': 'Stopped',
+  'failure.cancelledHint': 'Painting was stopped before this picture was finished.',
+  'failure.unknown': 'Something went wrong',
+  'complexity.Minimal': 'Minimal',
+  'complexity.MinimalHint': 'Simple & Clear',
+  'complexity.Balanced': 'Balanced',
+  'complexity.BalancedHint': 'Standard Detail',
+  'complexity.Rich': 'Rich',
+  'complexity.RichHint': 'Full Backgrounds',
+  'artStyle.storybook': 'Storybook',
+  'artStyle.storybookHint': 'Let the story pick a friendly picture-book look',
+  'artStyle.watercolor': 'Watercolor',
+  'artStyle.watercolorHint': 'Soft washes and gentle colors',
+  'artStyle.flat_vector': 'Flat Cartoon',
+  'artStyle.flat_vectorHint': 'Simple shapes and solid colors',
+  'artStyle.photo_realistic': 'Photo-Realistic',
+  'artStyle.photo_realisticHint': 'Looks like real photos of real places',
+  'artStyle.line_art': 'Coloring Page',
+  'artStyle.line_artHint': 'Black outlines to print and color in',
+  'artStyle.high_contrast': 'High Contrast',
+  'artStyle.high_contrastHint': 'Bold outlines and strong colors, easy to see',
+  'artStyle.custom': 'Custom',
+  'artStyle.customHint': 'Describe your own style',
+  'readingLevel.pre_reader': 'Pre-reader',
+  'readingLevel.early_reader': 'Early reader',
+  'readingLevel.developing_reader': 'Developing reader',
+  'readingLevel.fluent_reader': 'Fluent reader',
+  'sentence.descriptive': 'Descriptive',
+  'sentence.perspective': 'Perspective',
+  'sentence.affirmative': 'Affirmative',
+  'sentence.directive': 'Directive',
+  'issue.negative': 'Negative phrasing',
+  'issue.absolute': 'Absolute word',
+  'issue.second_person': 'Second-person command',
+  'issue.reading_level': 'Hard to read',
+  'issue.too_long': 'Too many words',
+  'issue.narration': 'Wrong narrator',
+  'issue.negativeHint': '"{word}": say what to do instead',
+  'issue.absoluteHint': '"{word}": prefer "usually" or "sometimes"',
+  'issue.second_personHint': 'Write from the child\'s view ("I can...")',
+  'issue.reading_levelHint': 'Grade {grade}; aim for {maxGrade} or below',
+  'issue.too_longHint': '{count} words; use at most {limit}',
+  'issue.first_personHint': 'Tell it as the child: "I" instead of "{name}"',
+  'issue.third_personHint': 'Tell it about {name}, not as "I"',
+  'issue.theChild': 'the child',
+  'issue.tooManyPages': '{count} pages; the book should have at most {limit}.',
+  'issue.tooFewPages': '{count} pages; the book should have at least {limit}.',
+  'blueprint.age': 'Age',
+  'blueprint.hair': 'Hair',
+  'blueprint.skin_tone': 'Skin Tone',
+  'blueprint.clothing': 'Clothing',
+  'blueprint.expression_style': 'Expression',
+  'blueprint.accessories': 'Accessories',
+};
+
+export type MessageKey = keyof typeof EN;
+
+export type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string;
+
+const ZH: Record<MessageKey, string> = {
+  'app.tagline': '给超级小朋友的社交故事',
+  'app.uiLanguage': '界面语言',
+  'app.skipToContent': '跳到正文',
+  'app.failure': '{title}。{hint}',
+  'app.pdfError': 'PDF 没有创建成功，请再试一次。',
+  'app.pdfFontError': '无法下载 PDF 需要的 {font} 字体。请检查网络连接后再试一次。',
+  'app.openError': '无法打开这个故事，请再试一次。',
+  'app.exportError': '故事没有导出成功，请再试一次。',
+  'app.importError': '故事没有导入成功，请再试一次。',
+  'app.backupError': '备份没有创建成功，请再试一次。',
+  'app.restoreError': '备份没有恢复成功，你的故事库没有改变。',
+  'app.deleteError': '故事没有删除成功，请再试一次。',
+
+  'input.heading': '一起来编故事吧！🎨',
+  'input.intro': '几秒钟就能做出专属的社交故事。选一个主题，或者写下你自己的故事！',
+  'input.step1': '想怎么开始？',
+  'input.templateMode': '选一个主题',
+  'input.templateModeHint': '使用现成的主题，比如分享、等待或打招呼。',
+  'input.customMode': '自己来写',
+  'input.customModeHint': '粘贴一个具体场景，或写下你自己的故事。',
+  'input.chooseTheme': '选择主题',
+  'input.typeStory': '写下你的故事',
+  'input.preview': '故事预览',
+  'input.placeholder': '在这里输入……例如：“小明想玩小火车，可是小美正在玩。小明深吸一口气，礼貌地问……”',
+  'input.ready': '准备好了！',
+  'input.empty': '请在上面输入故事内容',
+  'input.step3': '主角是谁？',
+  'input.boy': '男孩',
+  'input.girl': '女孩',
+  'input.showHero': '让主角长得像我的孩子',
+  'input.hideHero': '收起个人信息',
+  'input.step4': '选择画面风格',
+  'input.artStyle': '画风',
+  'input.words': '页面文字',
+  'input.language': '故事语言',
+  'input.secondLanguage': '第二语言',
+  'input.noSecondLanguage': '不需要',
+  'input.bilingualHint': '每一页都会同时显示两种语言。',
+  'input.submit': '生成魔法故事书！',
+  'input.loading': '正在构思你的故事……',
+  'input.addPhoto': '添加照片',
+  'input.childPhoto': '你的孩子',
+  'input.customStyleLabel': '自定义画风',
+  'input.fewestPages': '最少页数',
+  'input.mostPages': '最多页数',
+  'input.narration': '叙述方式',
+  'input.photoError': '无法读取这张照片，请换一张试试。',
+  'input.removePhoto': '移除照片',
+  'input.photoPrivacy': '只保存在这台设备上。',
+  'input.heroName': '名字',
+  'input.heroNamePlaceholder': '例如：乐乐',
+  'input.hairPlaceholder': '例如：黑色短卷发',
+  'input.skinTonePlaceholder': '例如：浅棕色',
+  'input.favoriteClothing': '最喜欢的衣服',
+  'input.clothingPlaceholder': '例如：红色恐龙连帽衫',
+  'input.glasses': '眼镜',
+  'input.wheelchair': '轮椅',
+  'input.aacDevice': '辅助沟通设备',
+  'input.notes': '其他',
+  'input.notesPlaceholder': '例如：总是带着一条蓝色小毯子',
+  'input.forgetHero': '清除这些信息',
+  'input.customStylePlaceholder': '例如：鲜艳的蜡笔画，就像孩子自己画的',
+  'input.sensory': '感官友好的图片',
+  'input.sensoryHint': '为容易感到不堪重负的孩子准备平静、直白的图片',
+  'input.mutedPalette': '柔和的颜色和光线',
+  'input.literalOnly': '没有思想泡泡或闪光',
+  'input.noBusyPatterns': '没有繁杂的图案',
+  'input.maxColors': '最多颜色数',
+  'input.anyColors': '不限',
+  'input.ages': '{ages} 岁',
+  'input.maxWords': '每页最多字数',
+  'input.pages': '页数',
+  'input.pagesTo': '至',
+  'input.firstPerson': '用“我”来讲',
+  'input.thirdPerson': '用名字来讲',
+  'input.showcase': '浏览我们的故事库',
+  'input.showcaseStyle': '风格：',
+
+  'editor.startOver': '重新开始',
+  'editor.intro': '开始画画之前，请检查每一页。你满意之后才会生成图片。',
+  'editor.pageText': '页面文字',
+  'editor.translation': '译文（{language}）',
+  'editor.visualCue': '画面提示',
+  'editor.confirm': '没问题，开始画角色！',
+  'editor.incomplete': '每一页都需要文字和画面提示，每个角色都需要名字。',
+  'editor.storyTitle': '故事标题',
+  'editor.characterName': '角色名字',
+  'editor.removeCharacter': '删除角色',
+  'editor.moveUp': '上移',
+  'editor.moveDown': '下移',
+  'editor.deletePage': '删除此页',
+  'editor.cast': '角色',
+  'editor.addCharacter': '添加角色',
+  'editor.role': '身份',
+  'editor.styleGuide': '视觉风格指南',
+  'editor.check': '社交故事检查',
+  'editor.grade': '阅读年级约 {grade}',
+  'editor.levelLimit': '{level} · 每页最多 {words} 个字',
+  'editor.noDirectives': '没有指导句。',
+  'editor.ratio': '每个指导句对应 {ratio} 个描述句（目标是 {target} 个或更多）。',
+  'editor.englishOnly': '措辞检查只支持英文，字数和页数限制仍会检查。',
+  'editor.noProblems': '没有发现措辞问题。',
+  'editor.flaggedOne': '下面有 1 页的措辞需要检查。',
+  'editor.flaggedMany': '下面有 {count} 页的措辞需要检查。',
+  'editor.rewrite': '改写',
+  'editor.rewriting': '正在改写……',
+  'editor.onThisPage': '本页角色：',
+  'editor.unnamed': '未命名',
+  'editor.addPage': '在这里添加一页',
+
+  'book.makeAnother': '再做一个故事',
+  'book.share': '分享',
+  'book.shareHint': '下载 .spectratale 文件来分享这本书',
+  'book.savePdf': '保存 PDF',
+  'book.export': '保存和导出',
+  'book.savingPdf': '正在保存……',
+  'book.painting': '正在画画……',
+  'book.stop': '停止',
+  'book.visualCue': '画面提示',
+  'book.edit': '编辑文字和画面提示',
+  'book.cancel': '取消',
+  'book.save': '保存',
+  'book.saveRedraw': '保存并重画',
+  'book.altText': '图片描述',
+  'book.altTextHint': '供读屏软件朗读，也会写入导出的书中。留空则使用画面提示。',
+  'book.pages': '书页',
+  'book.pageLabel': '第 {number} 页',
+  'book.version': '第 {number} 版',
+  'book.redraw': '重画这张图',
+  'book.blueprint': '角色设定',
+  'book.age': '{age} 岁',
+  'book.paintingPage': '正在绘画……',
+  'book.stuck': '卡住了？重试',
+  'book.waiting': '等待魔法',
+  'book.retryFailed': '重试失败的图片',
+  'book.redrawFailed': '重画失败：{reason}',
+  'book.hair': '发型：{hair}',
+  'book.skin': '肤色：{skin}',
+  'book.complexityStyle': '{complexity}风格',
+  'book.sensory': '感官友好',
+  'sheets.sheetAlt': '{name}的角色设定图',
+  'sheets.redraw': '重画这个角色',
+  'sheets.back': '返回故事板',
+  'sheets.title': '认识角色们',
+  'sheets.intro': '每一页都会参照这些设定图来画。继续之前，请重画看起来不对的角色。',
+  'sheets.sketching': '正在画{name}……',
+  'sheets.empty': '还没有设定图',
+  'sheets.confirm': '看起来很棒，开始画每一页！',
+
+  'read.title': '朗读',
+  'read.readBook': '朗读整本书',
+  'read.stop': '停止朗读',
+  'read.voice': '声音',
+  'read.defaultVoice': '默认声音',
+  'read.speed': '语速',
+  'read.pitch': '音调',
+  'read.useRecordings': '有录音的页面播放我的录音',
+  'read.unsupported': '这个浏览器不支持朗读，但你的录音仍然可以播放。',
+  'read.readPage': '朗读这一页',
+  'read.record': '录下我的声音',
+  'read.stopRecording': '停止录音',
+  'read.playRecording': '播放我的录音',
+  'read.deleteRecording': '删除我的录音',
+  'read.micError': '无法使用麦克风。请允许访问后再试一次。',
+  'read.saveError': '录音没有保存成功，请再试一次。',
+
+  'reader.open': '阅读模式',
+  'reader.close': '关闭',
+  'reader.position': '{current} / {total}',
+  'reader.turnPages': '翻页',
+  'reader.byHand': '手动',
+  'reader.everySeconds': '每 {seconds} 秒',
+  'reader.readToMe': '读给我听',
+  'reader.previous': '上一页',
+  'reader.next': '下一页',
+  'reader.readAgain': '再读一遍',
+
+  'export.title': '保存和导出',
+  'export.book': '故事书',
+  'export.bookHint': '完整的故事，一页一页。',
+  'export.schedule': '视觉日程表',
+  'export.scheduleHint': '带编号的步骤条，可以逐项打勾。',
+  'export.firstThen': '先-再板',
+  'export.firstThenHint': '两页并排：先做这个，再做那个。',
+  'export.cards': '图片卡',
+  'export.cardsHint': '可剪下的卡片，每张纸六张，带打勾框。',
+  'export.first': '先',
+  'export.then': '再',
+  'export.pageSize': '纸张',
+  'export.font': '字体',
+  'export.fontStandard': '标准',
+  'export.fontDyslexia': '读写障碍友好',
+  'export.fontLargePrint': '大字版',
+  'export.layout': '版式',
+  'export.layoutPortrait': '图在上，字在下',
+  'export.layoutLandscape': '横版绘本',
+  'export.layoutSpread': '图在左，字在右',
+  'export.booklet': '折成小册子',
+  'export.bookletHint': '每面纸印两页。双面打印并沿短边翻转，然后将整叠纸对折，在书脊处装订。',
+  'export.ebookTitle': '电子书',
+  'export.ebookHint': '适用于手机、平板和电子阅读器。每张图片都有供读屏软件朗读的描述。',
+  'export.epub': 'EPUB',
+  'export.html': '网页（可离线打开）',
+  'export.includeRecordings': '包含我的录音',
+  'export.recordingsLeftOut': '有 {count} 段录音没有放进 EPUB，因为电子阅读器无法播放这个浏览器录制的格式。HTML 电子书中包含这些录音。',
+  'export.ebookError': '电子书没有创建成功，请再试一次。',
+  'library.search': '搜索故事',
+  'library.sort': '故事排序',
+  'library.open': '打开《{title}》',
+  'library.newTitle': '新标题',
+  'library.saveTitle': '保存标题',
+  'library.rename': '重命名',
+  'library.editTags': '编辑标签',
+  'library.duplicate': '复制为新草稿',
+  'library.share': '分享为 .spectratale 文件',
+  'library.delete': '删除',
+  'library.title': '你的故事集',
+  'library.import': '导入故事',
+  'library.searchPlaceholder': '搜索标题、目标、标签或正文……',
+  'library.newest': '最新优先',
+  'library.oldest': '最早优先',
+  'library.byTitle': '按标题排序',
+  'library.all': '全部',
+  'library.noResults': '没有符合搜索条件的故事。',
+  'library.draft': '草稿',
+  'library.tagPlaceholder': '新标签（例如学生名字）',
+  'library.addTag': '添加',
+  'library.showMore': '显示更多（还有 {count} 个）',
+  'library.confirmDelete': '删除《{title}》？此操作无法撤销。',
+  'backup.create': '备份故事库',
+  'backup.restore': '从备份恢复',
+  'backup.made': '创建于 {date} · {stories} 个故事，{pictures} 张图片',
+  'backup.recordings': '，{count} 段录音',
+  'backup.merge': '合并',
+  'backup.mergeHint': '把备份加入到现有的故事中。',
+  'backup.replace': '全部替换',
+  'backup.replaceHint': '让这个浏览器与备份完全一致。',
+  'backup.added': '新增 {count} 个',
+  'backup.overwritten': '{count} 个被备份替换',
+  'backup.removed': '删除 {count} 个',
+  'backup.kept': '{count} 个保持不变',
+  'backup.skipped': '{count} 个无法读取，将被跳过',
+  'backup.settingsReplace': '朗读、打印和语言设置会被备份中的设置替换。',
+  'backup.settingsKept': '这里的朗读、打印和语言设置会被保留。',
+  'backup.noSettings': '这个备份没有保存设置，这里的设置会被保留。',
+  'backup.andMore': '{titles}等另外 {count} 个',
+  'backup.heroMerge': '这里保存的主角信息会被保留，只有在没有保存时才使用备份中的信息。',
+  'backup.heroReplace': '保存的主角信息会被备份中的信息替换。',
+  'backup.restoring': '正在恢复……',
+  'backup.nothing': '没有需要恢复的内容',
+  'backup.mergeButton': '合并到我的故事库',
+  'backup.replaceButton': '替换我的故事库',
+  'backup.readError': '无法读取这个备份，请再试一次。',
+  'bundleError.not_bundle': '这个文件不是 SpectraTales 故事包。',
+  'bundleError.bundle_damaged': '这个故事包已损坏，无法读取。',
+  'bundleError.bundle_newer': '这个故事是用更新版本的 SpectraTales 制作的。请更新后再试一次。',
+  'bundleError.bundle_missing_picture': '这个故事包缺少一张图片（{path}）。',
+  'bundleError.not_image': '这个故事包里有一张图片不是图像文件。',
+  'bundleError.invalid_story': '这个文件不是有效的故事（{detail}）。',
+  'bundleError.not_backup': '这个文件不是 SpectraTales 故事库备份。',
+  'bundleError.backup_damaged': '这个备份已损坏，无法恢复。',
+  'bundleError.backup_newer': '这个备份是用更新版本的 SpectraTales 制作的。请更新后再试一次。',
+  'bundleError.backup_missing_picture': '这个备份缺少一张图片（{path}）。',
+  'bundleError.backup_missing_recording': '这个备份缺少一段录音（{path}）。',
+  'failure.rate_limit': '同时请求的图片太多',
+  'failure.rate_limitHint': 'Gemini 配额暂时用完了。请等一分钟（如果是每日限额，请等到明天）再重试。',
+  'failure.safety_block': '图片被拦截了',
+  'failure.safety_blockHint': '安全过滤器拒绝了这个场景。请修改画面提示后重画。',
+  'failure.invalid_key': 'API 密钥有问题',
+  'failure.invalid_keyHint': '请检查 .env.local 中的 GEMINI_API_KEY。修好之前重试也没有用。',
+  'failure.network': '连接出了问题',
+  'failure.networkHint': '无法连接图片服务。请检查网络后重试。',
+  'failure.empty_image': '没有返回图片',
+  'failure.empty_imageHint': '模型回复了但没有图片。重试通常就能解决。',
+  'failure.cancelled': '已停止',
+  'failure.cancelledHint': '这张图还没画完就停止了。',
+  'failure.unknown': '出了点问题',
+  'complexity.Minimal': '简洁',
+  'complexity.MinimalHint': '简单清晰',
+  'complexity.Balanced': '适中',
+  'complexity.BalancedHint': '标准细节',
+  'complexity.Rich': '丰富',
+  'complexity.RichHint': '完整背景',
+  'artStyle.storybook': '绘本',
+  'artStyle.storybookHint': '由故事挑选一种亲切的绘本风格',
+  'artStyle.watercolor': '水彩',
+  'artStyle.watercolorHint': '柔和的晕染和色彩',
+  'artStyle.flat_vector': '扁平卡通',
+  'artStyle.flat_vectorHint': '简单的形状和纯色',
+  'artStyle.photo_realistic': '写实照片',
+  'artStyle.photo_realisticHint': '像真实地点的真实照片',
+  'artStyle.line_art': '涂色页',
+  'artStyle.line_artHint': '黑色线稿，可以打印出来涂色',
+  'artStyle.high_contrast': '高对比度',
+  'artStyle.high_contrastHint': '粗轮廓和鲜明色彩，容易看清',
+  'artStyle.custom': '自定义',
+  'artStyle.customHint': '描述你想要的风格',
+  'readingLevel.pre_reader': '学前',
+  'readingLevel.early_reader': '初级读者',
+  'readingLevel.developing_reader': '进阶读者',
+  'readingLevel.fluent_reader': '熟练读者',
+  'sentence.descriptive': '描述句',
+  'sentence.perspective': '观点句',
+  'sentence.affirmative': '肯定句',
+  'sentence.directive': '指导句',
+  'issue.negative': '否定说法',
+  'issue.absolute': '绝对化用词',
+  'issue.second_person': '第二人称命令',
+  'issue.reading_level': '难以阅读',
+  'issue.too_long': '字数太多',
+  'issue.narration': '叙述者不对',
+  'issue.negativeHint': '“{word}”：改为说明应该怎么做',
+  'issue.absoluteHint': '“{word}”：建议改用“通常”或“有时”',
+  'issue.second_personHint': '从孩子的角度来写（“我可以……”）',
+  'issue.reading_levelHint': '{grade} 年级水平；建议不超过 {maxGrade} 年级',
+  'issue.too_longHint': '{count} 个字词；最多 {limit} 个',
+  'issue.first_personHint': '用孩子的口吻讲：用“我”代替“{name}”',
+  'issue.third_personHint': '讲{name}的故事，不要用“我”',
+  'issue.theChild': '孩子',
+  'issue.tooManyPages': '共 {count} 页；这本书最多应有 {limit} 页。',
+  'issue.tooFewPages': '共 {count} 页；这本书至少应有 {limit} 页。',
+  'blueprint.age': '年龄',
+  'blueprint.hair': '发型',
+  'blueprint.skin_tone': '肤色',
+  'blueprint.clothing': '服装',
+  'blueprint.expression_style': '表情',
+  'blueprint.accessories': '配饰',
+};
+
+const MESSAGES: Record<UiLanguage, Record<MessageKey, string>> = { en: EN, zh: ZH };
+
+/**
+ * Looks up an interface string, filling in `{name}` placeholders.
+ */
+export const translate = (language: UiLanguage, key: MessageKey, vars: Record<string, string | number> = {}): string => {
+  const message = MESSAGES[language][key] ?? EN[key];
+  return message.replace(/\{(\w+)\}/g, (match, name) => (name in vars ? String(vars[name]) : match));
+};
+
+/**
+ * The message for a key built from data (e.g. a preset id), or `fallback` when there is none.
+ */
+export const translateOption = (language: UiLanguage, key: string, fallback: string): string => {
+  return key in EN ? translate(language, key as MessageKey) : fallback;
+};
+
+export const getLanguage = (code?: LanguageCode): Language => {
+  return LANGUAGES.find(l => l.code === code) || LANGUAGES.find(l => l.code === DEFAULT_LANGUAGE)!;
+};
+
+/**
+ * A template in the given language, falling back to the English original.
+ */
+export const localizeTemplate = (template: StoryTemplate, language: LanguageCode): StoryTemplateText => {
+  return template.translations[language] || template;
+};
+
+const detectUiLanguage = (): UiLanguage => {
+  try {
+    const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    if (UI_LANGUAGES.includes(saved as UiLanguage)) return saved as UiLanguage;
+  } catch (e) {
+    // Storage can be blocked (private mode); fall through to the browser language
+  }
+  return typeof navigator !== 'undefined' && navigator.language?.toLowerCase().startsWith('zh') ? 'zh' : 'en';
+};
+
+const applyDocumentLanguage = (language: UiLanguage) => {
+  if (typeof document !== 'undefined') document.documentElement.lang = language;
+};
+
+// Detected on first use so the module can be imported outside a browser (e.g. under Node)
+let currentLanguage: UiLanguage | null = null;
+const listeners = new Set<() => void>();
+
+export const getUiLanguage = (): UiLanguage => {
+  if (!currentLanguage) {
+    currentLanguage = detectUiLanguage();
+    applyDocumentLanguage(currentLanguage);
+  }
+  return currentLanguage;
+};
+
+export const setUiLanguage = (language: UiLanguage) => {
+  currentLanguage = language;
+  try {
+    localStorage.setItem(STORAGE_KEY, language);
+  } catch (e) {
+    console.warn("Failed to save interface language", e);
+  }
+  applyDocumentLanguage(language);
+  listeners.forEach(listener => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/**
+ * The interface language and a `t` bound to it; components re-render when it changes.
+ */
+export const useI18n = () => {
+  const language = useSyncExternalStore(subscribe, getUiLanguage);
+  return {
+    language,
+    setLanguage: setUiLanguage,
+    t: ((key, vars) => translate(language, key, vars)) as Translate,
+    tOption: (key: string, fallback: string) => translateOption(language, key, fallback)
+  };
+};
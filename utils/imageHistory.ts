@@ -0,0 +1,37 @@
+import { StoryPage, ImageVersion } from "../types";
+
+export const MAX_IMAGE_VERSIONS = 5;
+
+/**
+ * All versions of a page's picture, oldest first.
+ * Pages saved before versions were tracked expose their current picture as the only version.
+ */
+export const getImageVersions = (page: StoryPage): ImageVersion[] => {
+  if (page.image_versions && page.image_versions.length > 0) {
+    return page.image_versions;
+  }
+  return page.image_url
+    ? [{ image_url: page.image_url, prompt: page.action_description, createdAt: 0 }]
+    : [];
+};
+
+/**
+ * Makes a freshly painted picture the active one, keeping the newest MAX_IMAGE_VERSIONS.
+ */
+export const recordImageVersion = (page: StoryPage, imageUrl: string, prompt: string): StoryPage => {
+  const versions = [...getImageVersions(page), { image_url: imageUrl, prompt, createdAt: Date.now() }];
+  return {
+    ...page,
+    image_url: imageUrl,
+    image_versions: versions.slice(-MAX_IMAGE_VERSIONS)
+  };
+};
+
+/**
+ * Switches the active picture back to an earlier version.
+ */
+export const selectImageVersion = (page: StoryPage, imageUrl: string): StoryPage => {
+  const version = getImageVersions(page).find(v => v.image_url === imageUrl);
+  if (!version) return page;
+  return { ...page, image_url: version.image_url, error: undefined };
+};
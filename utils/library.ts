@@ -0,0 +1,70 @@
+import { StoryboardData, StorySummary } from "../types";
+
+export type LibrarySort = 'newest' | 'oldest' | 'title';
+
+export const createStoryUid = (): string => {
+  return Date.now().toString(36) + Math.random().toString(36).substr(2, 9);
+};
+
+/**
+ * Copies a story as a fresh draft: same text, cast and style, but no pictures yet.
+ */
+export const createDraftCopy = (story: StoryboardData): StoryboardData => ({
+  ...story,
+  uid: createStoryUid(),
+  createdAt: Date.now(),
+  title: `${story.title} (Copy)`,
+  phase: 'storyboard',
+  characters: story.characters?.map(c => ({
+    ...c,
+    anchor_image_url: undefined,
+    anchor_is_generating: false,
+    anchor_error: undefined
+  })),
+  pages: story.pages.map(p => ({
+    ...p,
+    image_url: undefined,
+    image_versions: undefined,
+    is_generating: false,
+    error: undefined
+  }))
+});
+
+/**
+ * Every tag used in the library, alphabetically.
+ */
+export const collectTags = (stories: StorySummary[]): string[] => {
+  const tags = new Set<string>();
+  stories.forEach(s => s.tags?.forEach(t => tags.add(t)));
+  return [...tags].sort((a, b) => a.localeCompare(b));
+};
+
+/**
+ * Free-text search over title, purpose, tags and page text, optionally narrowed to one tag.
+ */
+export const filterStories = (
+  stories: StorySummary[],
+  query: string,
+  tag: string | null,
+  sort: LibrarySort
+): StorySummary[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+  const matches = stories.filter(story => {
+    if (tag && !story.tags?.includes(tag)) return false;
+    if (terms.length === 0) return true;
+    const haystack = [
+      story.title,
+      story.purpose,
+      ...(story.tags || []),
+      story.searchText
+    ].join(' ').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+
+  return matches.sort((a, b) => {
+    if (sort === 'title') return a.title.localeCompare(b.title);
+    if (sort === 'oldest') return a.createdAt - b.createdAt;
+    return b.createdAt - a.createdAt;
+  });
+};
@@ -0,0 +1,132 @@
+import { jsPDF } from "jspdf";
+import notoSansScRegular from "@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf?url";
+import notoSansScBold from "@expo-google-fonts/noto-sans-sc/700Bold/NotoSansSC_700Bold.ttf?url";
+import lexendRegular from "@expo-google-fonts/lexend/400Regular/Lexend_400Regular.ttf?url";
+import lexendBold from "@expo-google-fonts/lexend/700Bold/Lexend_700Bold.ttf?url";
+import atkinsonRegular from "@expo-google-fonts/atkinson-hyperlegible/400Regular/AtkinsonHyperlegible_400Regular.ttf?url";
+import atkinsonBold from "@expo-google-fonts/atkinson-hyperlegible/700Bold/AtkinsonHyperlegible_700Bold.ttf?url";
+
+// jsPDF's built-in fonts only cover Latin text in Helvetica. Chinese (and other CJK) pages,
+// and the reading-friendly font choices, need a TrueType font embedded in the document.
+// The static regular and bold TTFs ship with the app as separate assets, are fetched on
+// first use and kept in the Cache API, so a PDF can still be made offline after that.
+
+const FONT_CACHE = "spectratales-fonts";
+export const LATIN_FONT_FAMILY = "helvetica";
+export const CJK_FONT_FAMILY = "NotoSansSC";
+
+export type PdfFontChoice = "standard" | "dyslexia" | "large_print";
+
+export const PDF_FONT_CHOICES: PdfFontChoice[] = ["standard", "dyslexia", "large_print"];
+
+interface EmbeddedFont {
+  family: string;
+  name: string; // For error messages
+  regular: string;
+  bold?: string; // Without one, bold text uses the regular outlines
+}
+
+// CJK_FONT_URL swaps in a single font file (e.g. a smaller subset) for both weights
+const CJK_FONT: EmbeddedFont = process.env.CJK_FONT_URL
+  ? { family: CJK_FONT_FAMILY, name: "Chinese", regular: process.env.CJK_FONT_URL }
+  : { family: CJK_FONT_FAMILY, name: "Chinese", regular: notoSansScRegular, bold: notoSansScBold };
+
+const READING_FONTS: Record<Exclude<PdfFontChoice, "standard">, EmbeddedFont> = {
+  // Lexend's wide letter spacing was designed to reduce visual crowding for struggling readers
+  dyslexia: {
+    family: "Lexend",
+    name: "dyslexia-friendly",
+    regular: lexendRegular,
+    bold: lexendBold
+  },
+  // Atkinson Hyperlegible keeps easily confused letters (I l 1, O 0) distinct for low vision
+  large_print: {
+    family: "AtkinsonHyperlegible",
+    name: "large-print",
+    regular: atkinsonRegular,
+    bold: atkinsonBold
+  }
+};
+
+const CJK_PATTERN = /[\u3000-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/;
+
+/**
+ * A font the PDF needs couldn't be loaded; `font` is its display name, for the message shown to the user.
+ */
+export class PdfFontError extends Error {
+  readonly font: string;
+
+  constructor(font: string, options?: { cause?: unknown }) {
+    super(`We couldn't download the ${font} font for the PDF.`, options);
+    this.name = "PdfFontError";
+    this.font = font;
+  }
+}
+
+export const needsCjkFont = (texts: (string | undefined)[]): boolean => texts.some(t => !!t && CJK_PATTERN.test(t));
+
+const fontFiles = new Map<string, Promise<string>>();
+
+// The Cache API is missing outside secure contexts; fonts then come from the network every time
+const openFontCache = async (): Promise<Cache | null> => {
+  if (typeof caches === "undefined") return null;
+  return caches.open(FONT_CACHE).catch(() => null);
+};
+
+const fetchFontFile = async (url: string): Promise<string> => {
+  const cache = await openFontCache();
+  let response = await cache?.match(url);
+  if (!response) {
+    response = await fetch(url);
+    if (!response.ok) throw new Error(`Font download failed (${response.status})`);
+    await cache?.put(url, response.clone()).catch(e => console.warn("Failed to cache PDF font", e));
+  }
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  // btoa needs a binary string; build it in chunks to stay under the argument limit
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const loadFontFile = (url: string): Promise<string> => {
+  let data = fontFiles.get(url);
+  if (!data) {
+    data = fetchFontFile(url);
+    fontFiles.set(url, data);
+    // Let a later attempt retry instead of caching the failure
+    data.catch(() => fontFiles.delete(url));
+  }
+  return data;
+};
+
+const embedFont = async (doc: jsPDF, font: EmbeddedFont) => {
+  let regular: string;
+  let bold: string;
+  try {
+    [regular, bold] = await Promise.all([loadFontFile(font.regular), loadFontFile(font.bold || font.regular)]);
+  } catch (error) {
+    throw new PdfFontError(font.name, { cause: error });
+  }
+
+  doc.addFileToVFS(`${font.family}-Regular.ttf`, regular);
+  doc.addFont(`${font.family}-Regular.ttf`, font.family, "normal");
+  doc.addFileToVFS(`${font.family}-Bold.ttf`, bold);
+  doc.addFont(`${font.family}-Bold.ttf`, font.family, "bold");
+};
+
+/**
+ * Registers the fonts the given texts need and returns the family to draw them with.
+ * Chinese text always uses the CJK font, since the reading fonts have no Chinese glyphs.
+ */
+export const preparePdfFonts = async (
+  doc: jsPDF,
+  texts: (string | undefined)[],
+  choice: PdfFontChoice = "standard"
+): Promise<string> => {
+  const font = needsCjkFont(texts) ? CJK_FONT : choice === "standard" ? null : READING_FONTS[choice];
+  if (!font) return LATIN_FONT_FAMILY;
+  await embedFont(doc, font);
+  return font.family;
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { StoryPage } from "../types";
+import { BookPage, imposeBooklet } from "./pdfGenerator";
+
+const book = (count: number): BookPage[] => [
+  { kind: "title" },
+  ...Array.from({ length: count }, (_, index) => ({
+    kind: "page" as const,
+    page: { id: index + 1, text: '', action_description: '', is_generating: false } as StoryPage,
+    number: index + 1
+  }))
+];
+
+// "T" for the title, "B" for padding, otherwise the page number
+const label = (page: BookPage) => page.kind === "title" ? 'T' : page.kind === "blank" ? 'B' : String(page.number);
+
+describe('imposeBooklet', () => {
+  it('orders a four-page book for folding', () => {
+    expect(imposeBooklet(book(3)).map(side => side.map(label))).toEqual([
+      ['3', 'T'],
+      ['1', '2']
+    ]);
+  });
+
+  it('pads to a multiple of four with blank pages at the back', () => {
+    expect(imposeBooklet(book(4)).map(side => side.map(label))).toEqual([
+      ['B', 'T'],
+      ['1', 'B'],
+      ['B', '2'],
+      ['3', '4']
+    ]);
+  });
+
+  it('prints every page exactly once', () => {
+    const pages = book(10);
+    const printed = imposeBooklet(pages).flat();
+
+    expect(printed).toHaveLength(12);
+    expect(printed.filter(p => p.kind !== "blank")).toEqual(expect.arrayContaining(pages));
+    expect(printed.filter(p => p.kind === "blank")).toHaveLength(1);
+  });
+});
@@ -1,68 +1,501 @@
 import { jsPDF } from "jspdf";
-import { StoryboardData } from "../types";
+import { StoryboardData, StoryPage } from "../types";
+import { preparePdfFonts, PdfFontChoice } from "./pdfFonts";
+import { loadPdfImages, PdfImage } from "./pdfImages";
+import { getGenerationSettings } from "./generationSettings";
+import { getLanguage } from "./i18n";
+import { getAltText } from "./altText";
 
-export const generatePDF = (story: StoryboardData) => {
-  const doc = new jsPDF({
-    orientation: "portrait",
-    unit: "mm",
-    format: "a4",
+/**
+ * What to print the story as: the book itself, or the same pages as routine supports.
+ */
+export type PrintFormat = "book" | "schedule" | "first_then" | "cards";
+
+export type PdfPageSize = "a4" | "letter" | "a5";
+
+/**
+ * Where the picture and words sit on a book page.
+ */
+export type PdfLayout =
+  | "portrait" // Picture above the words
+  | "landscape" // Wide picture-book page, picture above the words
+  | "spread"; // Wide page, picture on the left and words on the right
+
+export const PDF_PAGE_SIZES: PdfPageSize[] = ["a4", "letter", "a5"];
+export const PDF_LAYOUTS: PdfLayout[] = ["portrait", "landscape", "spread"];
+
+export interface PdfOptions {
+  format: PrintFormat;
+  pageSize: PdfPageSize;
+  font: PdfFontChoice;
+  // Book only
+  layout: PdfLayout;
+  booklet: boolean; // Two pages per side, ordered so the printed stack folds into a booklet
+  // First-then board only; default to the first and last page
+  firstPageId?: number;
+  thenPageId?: number;
+}
+
+export const DEFAULT_PDF_OPTIONS: PdfOptions = {
+  format: "book",
+  pageSize: "a4",
+  font: "standard",
+  layout: "portrait",
+  booklet: false
+};
+
+const STORAGE_KEY = "spectratales.pdfOptions";
+
+/**
+ * The print settings used last time; the page choices for first-then boards are per story and not kept.
+ */
+export const loadPdfOptions = (): PdfOptions => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_PDF_OPTIONS, ...JSON.parse(saved) } : DEFAULT_PDF_OPTIONS;
+  } catch (e) {
+    return DEFAULT_PDF_OPTIONS;
+  }
+};
+
+export const savePdfOptions = ({ firstPageId, thenPageId, ...options }: PdfOptions) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+  } catch (e) {
+    console.warn("Failed to save PDF options", e);
+  }
+};
+
+const FILE_SUFFIXES: Record<PrintFormat, string> = {
+  book: "SpectraTales",
+  schedule: "Schedule",
+  first_then: "First_Then",
+  cards: "Picture_Cards"
+};
+
+interface Typography {
+  size: number; // Story text in points on an A4 page; scaled with the page
+  secondarySize: number;
+  lineHeight: number;
+  align: "center" | "left";
+  captionScale: number; // Applied to the captions of schedules, boards and cards
+}
+
+const TYPOGRAPHY: Record<PdfFontChoice, Typography> = {
+  standard: { size: 22, secondarySize: 16, lineHeight: 1.15, align: "center", captionScale: 1 },
+  // Left-aligned with generous line spacing, as dyslexia style guides recommend
+  dyslexia: { size: 22, secondarySize: 16, lineHeight: 1.5, align: "left", captionScale: 1 },
+  large_print: { size: 30, secondarySize: 22, lineHeight: 1.3, align: "center", captionScale: 1.35 }
+};
+
+const PT_TO_MM = 25.4 / 72;
+const A4_SHORT_SIDE = 210;
+const SMALLEST_TEXT_SCALE = 0.6; // Long text shrinks to fit, but no further than this
+
+interface Frame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface DrawContext {
+  doc: jsPDF;
+  font: string;
+  images: Map<string, PdfImage>;
+  typography: Typography;
+}
+
+/**
+ * Writes the picture's description as invisible text over it. jsPDF can't tag images with
+ * alt text, but screen readers and text extraction pick this up in its place.
+ */
+const drawAltText = (ctx: DrawContext, altText: string, area: Frame) => {
+  const { doc } = ctx;
+  doc.setFont(ctx.font, "normal");
+  doc.setFontSize(8);
+  doc.text(doc.splitTextToSize(altText, area.width), area.x, area.y, { baseline: "top", renderingMode: "invisible" });
+};
+
+/**
+ * Draws a page's picture scaled to fit inside the box, centered horizontally and aligned to the
+ * top if asked. Falls back to an empty frame if it can't be used. Returns the area actually drawn.
+ */
+const drawImageInBox = (ctx: DrawContext, page: StoryPage, box: Frame, alignTop = false): Frame => {
+  const { doc } = ctx;
+  const imageUrl = page.image_url;
+  const image = imageUrl ? ctx.images.get(imageUrl) : undefined;
+  if (image) {
+    const scale = Math.min(box.width / image.width, box.height / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    const x = box.x + (box.width - width) / 2;
+    const y = alignTop ? box.y : box.y + (box.height - height) / 2;
+    try {
+      // The alias lets jsPDF embed a picture once however many times it is drawn
+      doc.addImage(image.data, image.format, x, y, width, height, imageUrl);
+      drawAltText(ctx, getAltText(page), { x, y, width, height });
+      return { x, y, width, height };
+    } catch (e) {
+      // Fall through to the empty frame
+    }
+  }
+  doc.setDrawColor(200);
+  doc.setLineWidth(0.3);
+  doc.rect(box.x, box.y, box.width, box.height);
+  return box;
+};
+
+/**
+ * Wraps text to the width, cutting it short with "..." if it needs more than `maxLines`.
+ */
+const captionLines = (doc: jsPDF, text: string, width: number, maxLines: number): string[] => {
+  const lines: string[] = doc.splitTextToSize(text, width);
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = `${kept[maxLines - 1].replace(/\s*\S{0,3}$/, "")}...`;
+  return kept;
+};
+
+// A box to tick off once the step is done
+const drawCheckBox = (doc: jsPDF, x: number, y: number, size: number) => {
+  doc.setDrawColor(80);
+  doc.setLineWidth(0.6);
+  doc.roundedRect(x, y, size, size, 1, 1);
+};
+
+/**
+ * Draws a page's text (and translation) inside the box, centered vertically, shrinking the
+ * type until it fits so it never runs into the picture.
+ */
+const drawPageText = (ctx: DrawContext, page: StoryPage, box: Frame, scale: number) => {
+  const { doc, font, typography } = ctx;
+  const gap = 4 * scale;
+
+  const layoutAt = (textScale: number) => {
+    const size = typography.size * scale * textScale;
+    const secondarySize = typography.secondarySize * scale * textScale;
+    doc.setFont(font, "bold");
+    doc.setFontSize(size);
+    const lines: string[] = doc.splitTextToSize(page.text, box.width);
+    doc.setFont(font, "normal");
+    doc.setFontSize(secondarySize);
+    const secondaryLines: string[] = page.text_secondary ? doc.splitTextToSize(page.text_secondary, box.width) : [];
+    const lineHeight = size * typography.lineHeight * PT_TO_MM;
+    const secondaryLineHeight = secondarySize * typography.lineHeight * PT_TO_MM;
+    const height = lines.length * lineHeight + (secondaryLines.length ? gap + secondaryLines.length * secondaryLineHeight : 0);
+    return { size, secondarySize, lines, secondaryLines, lineHeight, height };
+  };
+
+  let textScale = 1;
+  let layout = layoutAt(textScale);
+  while (layout.height > box.height && textScale > SMALLEST_TEXT_SCALE) {
+    textScale -= 0.05;
+    layout = layoutAt(textScale);
+  }
+
+  const x = typography.align === "center" ? box.x + box.width / 2 : box.x;
+  const options = { align: typography.align, baseline: "top" as const, lineHeightFactor: typography.lineHeight };
+  const y = box.y + Math.max(0, (box.height - layout.height) / 2);
+
+  doc.setFont(font, "bold");
+  doc.setFontSize(layout.size);
+  doc.setTextColor(0);
+  doc.text(layout.lines, x, y, options);
+
+  // Second language, smaller and lighter under the main text
+  if (layout.secondaryLines.length) {
+    doc.setFont(font, "normal");
+    doc.setFontSize(layout.secondarySize);
+    doc.setTextColor(90);
+    doc.text(layout.secondaryLines, x, y + layout.lines.length * layout.lineHeight + gap, options);
+  }
+};
+
+export type BookPage = { kind: "title" } | { kind: "page"; page: StoryPage; number: number } | { kind: "blank" };
+
+const drawTitlePage = (ctx: DrawContext, story: StoryboardData, frame: Frame, scale: number) => {
+  const { doc, font } = ctx;
+  const centerX = frame.x + frame.width / 2;
+  const width = frame.width - 40 * scale;
+
+  doc.setFont(font, "bold");
+  doc.setFontSize(24 * scale * ctx.typography.captionScale);
+  doc.setTextColor(0);
+  const titleLines: string[] = doc.splitTextToSize(story.title, width);
+  const titleY = frame.y + frame.height / 3;
+  doc.text(titleLines, centerX, titleY, { align: "center" });
+
+  doc.setFontSize(14 * scale);
+  doc.setFont(font, "normal");
+  const lineHeight = 24 * scale * ctx.typography.captionScale * doc.getLineHeightFactor() * PT_TO_MM;
+  doc.text(doc.splitTextToSize(story.purpose, width), centerX, titleY + (titleLines.length - 1) * lineHeight + 15 * scale, { align: "center" });
+
+  doc.setFontSize(10 * scale);
+  doc.setTextColor(100);
+  doc.text("Generated by SpectraTales", centerX, frame.y + frame.height - 20 * scale, { align: "center" });
+};
+
+const drawContentPage = (ctx: DrawContext, page: StoryPage, number: number, frame: Frame, layout: PdfLayout, scale: number) => {
+  const { doc } = ctx;
+  const margin = 20 * scale;
+  const gap = 8 * scale;
+  const inner = { x: frame.x + margin, y: frame.y + margin, width: frame.width - margin * 2, height: frame.height - margin * 2 };
+
+  if (layout === "spread") {
+    const half = (inner.width - gap) / 2;
+    drawImageInBox(ctx, page, { ...inner, width: half });
+    drawPageText(ctx, page, { ...inner, x: inner.x + half + gap, width: half }, scale);
+  } else {
+    // The words get whatever room the picture leaves, so a tall picture pushes them down instead of under it
+    const imageShare = layout === "landscape" ? 0.68 : 0.6;
+    const drawn = drawImageInBox(ctx, page, { ...inner, height: inner.height * imageShare }, true);
+    const textTop = drawn.y + drawn.height + gap;
+    drawPageText(ctx, page, { ...inner, y: textTop, height: inner.y + inner.height - textTop }, scale);
+  }
+
+  // Page number
+  doc.setFont(ctx.font, "normal");
+  doc.setFontSize(10 * scale);
+  doc.setTextColor(150);
+  doc.text(`${number}`, frame.x + frame.width - 10 * scale, frame.y + frame.height - 10 * scale);
+};
+
+const drawBookPage = (ctx: DrawContext, story: StoryboardData, content: BookPage, frame: Frame, layout: PdfLayout) => {
+  const scale = Math.min(frame.width, frame.height) / A4_SHORT_SIDE;
+  if (content.kind === "title") drawTitlePage(ctx, story, frame, scale);
+  else if (content.kind === "page") drawContentPage(ctx, content.page, content.number, frame, layout, scale);
+};
+
+/**
+ * Orders pages for saddle-stitch folding: each sheet side holds two pages, and the printed
+ * stack, folded in half, reads in order. Blank pages pad the book to a multiple of four.
+ */
+export const imposeBooklet = (pages: BookPage[]): [BookPage, BookPage][] => {
+  const padded = [...pages];
+  while (padded.length % 4 !== 0) padded.push({ kind: "blank" });
+  const last = padded.length - 1;
+  const sides: [BookPage, BookPage][] = [];
+  for (let i = 0; i < padded.length / 2; i += 2) {
+    sides.push([padded[last - i], padded[i]]); // Front: outer back page, then front page
+    sides.push([padded[i + 1], padded[last - i - 1]]); // Back
+  }
+  return sides;
+};
+
+const drawBook = (ctx: DrawContext, story: StoryboardData, options: PdfOptions) => {
+  const { doc } = ctx;
+  const pages: BookPage[] = [
+    { kind: "title" },
+    ...story.pages.map((page, index) => ({ kind: "page" as const, page, number: index + 1 }))
+  ];
+  const pageOrientation = options.layout === "portrait" ? "portrait" : "landscape";
+
+  if (!options.booklet) {
+    pages.forEach((content, index) => {
+      if (index > 0) doc.addPage(options.pageSize, pageOrientation);
+      const frame = { x: 0, y: 0, width: doc.internal.pageSize.getWidth(), height: doc.internal.pageSize.getHeight() };
+      drawBookPage(ctx, story, content, frame, options.layout);
+    });
+    return;
+  }
+
+  // Each sheet holds two pages: side by side for portrait pages, one above the other for wide ones
+  imposeBooklet(pages).forEach(([first, second], index) => {
+    if (index > 0) doc.addPage(options.pageSize, pageOrientation === "portrait" ? "landscape" : "portrait");
+    const width = doc.internal.pageSize.getWidth();
+    const height = doc.internal.pageSize.getHeight();
+    const frames: Frame[] = pageOrientation === "portrait"
+      ? [{ x: 0, y: 0, width: width / 2, height }, { x: width / 2, y: 0, width: width / 2, height }]
+      : [{ x: 0, y: 0, width, height: height / 2 }, { x: 0, y: height / 2, width, height: height / 2 }];
+    drawBookPage(ctx, story, first, frames[0], options.layout);
+    drawBookPage(ctx, story, second, frames[1], options.layout);
   });
+};
 
+// Numbered steps left to right in rows, each with a box to tick off
+const drawSchedule = (ctx: DrawContext, story: StoryboardData) => {
+  const { doc, font } = ctx;
+  const captionScale = ctx.typography.captionScale;
   const pageWidth = doc.internal.pageSize.getWidth();
   const pageHeight = doc.internal.pageSize.getHeight();
-  const margin = 20;
-
-  // Title Page
-  doc.setFont("helvetica", "bold");
-  doc.setFontSize(24);
-  doc.text(story.title, pageWidth / 2, pageHeight / 3, { align: "center" });
-  
-  doc.setFontSize(14);
-  doc.setFont("helvetica", "normal");
-  doc.text(story.purpose, pageWidth / 2, pageHeight / 3 + 15, { align: "center" });
-
-  doc.setFontSize(10);
-  doc.setTextColor(100);
-  doc.text("Generated by SpectraTales", pageWidth / 2, pageHeight - 20, { align: "center" });
+  const margin = 15;
+  const gap = 8;
+  const pages = story.pages;
+  const columns = Math.min(5, pages.length <= 5 ? pages.length : Math.ceil(pages.length / 2));
+  const cellWidth = (pageWidth - margin * 2 - gap * (columns - 1)) / columns;
+  const captionHeight = 20;
+  const cellHeight = cellWidth + captionHeight + 10;
+  const top = margin + 14;
 
-  // Content Pages
-  story.pages.forEach((page, index) => {
-    doc.addPage();
-
-    // Image area
-    if (page.image_url) {
-      try {
-        const imgProps = doc.getImageProperties(page.image_url);
-        const imgRatio = imgProps.width / imgProps.height;
-        const printWidth = pageWidth - (margin * 2);
-        const printHeight = printWidth / imgRatio;
-
-        // Center image vertically in top half
-        const yPos = margin + 10;
-        doc.addImage(page.image_url, "PNG", margin, yPos, printWidth, printHeight);
-      } catch (e) {
-        // Fallback if image fails to load into PDF
-        doc.rect(margin, margin + 10, pageWidth - (margin * 2), 100);
-        doc.text("Image Error", pageWidth / 2, margin + 60, { align: "center" });
+  doc.setFont(font, "bold");
+  doc.setFontSize(20);
+  doc.setTextColor(0);
+  doc.text(story.title, pageWidth / 2, margin + 4, { align: "center" });
+
+  let y = top;
+  pages.forEach((page, index) => {
+    const column = index % columns;
+    if (column === 0 && index > 0) {
+      y += cellHeight + gap;
+      if (y + cellHeight > pageHeight - margin) {
+        doc.addPage();
+        y = margin;
       }
     }
+    const x = margin + column * (cellWidth + gap);
+
+    doc.setDrawColor(180);
+    doc.setLineWidth(0.5);
+    doc.roundedRect(x, y, cellWidth, cellHeight, 3, 3);
+    drawImageInBox(ctx, page, { x: x + 3, y: y + 3, width: cellWidth - 6, height: cellWidth - 6 });
+
+    doc.setFont(font, "bold");
+    doc.setFontSize(14 * captionScale);
+    doc.setTextColor(0);
+    doc.text(`${index + 1}`, x + 4, y + cellWidth + 5);
+
+    doc.setFont(font, "normal");
+    doc.setFontSize(10 * captionScale);
+    doc.setTextColor(40);
+    doc.text(captionLines(doc, page.text, cellWidth - 22, 4), x + 12, y + cellWidth + 4);
+
+    drawCheckBox(doc, x + cellWidth - 9, y + cellHeight - 9, 6);
+  });
+};
+
+// Two large panels: what happens first, and what comes after it
+const drawFirstThen = (ctx: DrawContext, story: StoryboardData, options: PdfOptions) => {
+  const { doc, font } = ctx;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 15;
+  const arrowSpace = 24;
+  const panelWidth = (pageWidth - margin * 2 - arrowSpace) / 2;
+  const panelTop = margin + 8;
+  const panelHeight = pageHeight - panelTop - margin;
+  const headingSize = Math.min(30, panelWidth / 3);
+  const language = getLanguage(getGenerationSettings(story).language);
+
+  const findPage = (id: number | undefined, fallback: StoryPage) => story.pages.find(p => p.id === id) || fallback;
+  const panels = [
+    { heading: language.first, page: findPage(options.firstPageId, story.pages[0]) },
+    { heading: language.then, page: findPage(options.thenPageId, story.pages[story.pages.length - 1]) }
+  ];
+
+  panels.forEach(({ heading, page }, index) => {
+    const x = margin + index * (panelWidth + arrowSpace);
+    doc.setDrawColor(80);
+    doc.setLineWidth(1.2);
+    doc.roundedRect(x, panelTop, panelWidth, panelHeight, 5, 5);
+
+    doc.setFont(font, "bold");
+    doc.setFontSize(headingSize);
+    doc.setTextColor(0);
+    doc.text(heading, x + panelWidth / 2, panelTop + 16, { align: "center" });
 
-    // Text area (bottom half)
-    doc.setFont("helvetica", "bold");
-    doc.setFontSize(22);
+    const imageSize = Math.min(panelWidth - 16, panelHeight - 60);
+    drawImageInBox(ctx, page, { x: x + (panelWidth - imageSize) / 2, y: panelTop + 24, width: imageSize, height: imageSize });
+
+    doc.setFont(font, "normal");
+    doc.setFontSize(14 * ctx.typography.captionScale);
+    doc.text(captionLines(doc, page.text, panelWidth - 16, 3), x + panelWidth / 2, panelTop + 32 + imageSize, { align: "center" });
+  });
+
+  // Arrow between the panels
+  const arrowX = margin + panelWidth + arrowSpace / 2;
+  const arrowY = panelTop + panelHeight / 2;
+  doc.setFillColor(80, 80, 80);
+  doc.rect(arrowX - 8, arrowY - 2.5, 9, 5, "F");
+  doc.triangle(arrowX + 1, arrowY - 7, arrowX + 1, arrowY + 7, arrowX + 9, arrowY, "F");
+};
+
+// Cut-out cards, six to a sheet, with dashed cutting lines
+const drawCards = (ctx: DrawContext, story: StoryboardData) => {
+  const { doc, font } = ctx;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 10;
+  const columns = 2;
+  const rows = 3;
+  const cardWidth = (pageWidth - margin * 2) / columns;
+  const cardHeight = (pageHeight - margin * 2) / rows;
+  const padding = 6;
+
+  story.pages.forEach((page, index) => {
+    const slot = index % (columns * rows);
+    if (slot === 0 && index > 0) doc.addPage();
+    const x = margin + (slot % columns) * cardWidth;
+    const y = margin + Math.floor(slot / columns) * cardHeight;
+
+    doc.setDrawColor(150);
+    doc.setLineWidth(0.3);
+    doc.setLineDashPattern([2, 2], 0);
+    doc.rect(x, y, cardWidth, cardHeight);
+    doc.setLineDashPattern([], 0);
+
+    const imageSize = cardHeight - padding * 2 - 20;
+    drawImageInBox(ctx, page, { x: x + (cardWidth - imageSize) / 2, y: y + padding, width: imageSize, height: imageSize });
+
+    doc.setFont(font, "bold");
+    doc.setFontSize(11 * ctx.typography.captionScale);
     doc.setTextColor(0);
-    
-    // Split text into lines
-    const textLines = doc.splitTextToSize(page.text, pageWidth - (margin * 2));
-    const textY = pageHeight * 0.65;
-    
-    doc.text(textLines, pageWidth / 2, textY, { align: "center" });
-
-    // Page number
-    doc.setFontSize(10);
-    doc.setTextColor(150);
-    doc.text(`${index + 1}`, pageWidth - 10, pageHeight - 10);
+    doc.text(captionLines(doc, page.text, cardWidth - padding * 2 - 12, 3), x + padding, y + padding + imageSize + 6);
+
+    drawCheckBox(doc, x + cardWidth - padding - 7, y + cardHeight - padding - 7, 7);
+  });
+};
+
+const orientationFor = (options: PdfOptions): "portrait" | "landscape" => {
+  if (options.format === "schedule" || options.format === "first_then") return "landscape";
+  if (options.format === "cards") return "portrait";
+  const wide = options.layout !== "portrait";
+  // A booklet sheet is two pages side by side (portrait pages) or stacked (wide pages)
+  return wide === options.booklet ? "portrait" : "landscape";
+};
+
+export const generatePDF = async (story: StoryboardData, options: PdfOptions = DEFAULT_PDF_OPTIONS) => {
+  const doc = new jsPDF({
+    orientation: orientationFor(options),
+    unit: "mm",
+    format: options.pageSize,
   });
 
-  doc.save(`${story.title.replace(/\s+/g, "_")}_SpectraTales.pdf`);
+  const language = getLanguage(getGenerationSettings(story).language);
+
+  // Chinese text and the reading-friendly fonts are embedded; otherwise the built-in font is used
+  const font = await preparePdfFonts(doc, [
+    story.title,
+    story.purpose,
+    language.first,
+    language.then,
+    ...story.pages.flatMap(p => [p.text, p.text_secondary, getAltText(p)])
+  ], options.font);
+  doc.setDocumentProperties({ title: story.title, subject: story.purpose, creator: "SpectraTales" });
+  doc.setLanguage(language.locale as Parameters<jsPDF["setLanguage"]>[0]);
+  doc.viewerPreferences({ DisplayDocTitle: true });
+
+  const ctx: DrawContext = {
+    doc,
+    font,
+    images: await loadPdfImages(story.pages.map(p => p.image_url)),
+    typography: TYPOGRAPHY[options.font]
+  };
+  doc.setLineHeightFactor(ctx.typography.lineHeight);
+
+  switch (options.format) {
+    case "schedule":
+      drawSchedule(ctx, story);
+      break;
+    case "first_then":
+      drawFirstThen(ctx, story, options);
+      break;
+    case "cards":
+      drawCards(ctx, story);
+      break;
+    default:
+      drawBook(ctx, story, options);
+  }
+
+  doc.save(`${story.title.replace(/\s+/g, "_")}_${FILE_SUFFIXES[options.format]}.pdf`);
 };
@@ -0,0 +1,57 @@
+// Pictures arrive as PNG, JPEG, WebP or (from the mock provider) SVG data URLs. jsPDF only
+// embeds PNG and JPEG reliably, so everything else is redrawn to PNG through a canvas first.
+
+export interface PdfImage {
+  data: string;
+  format: "PNG" | "JPEG";
+  width: number;
+  height: number;
+}
+
+const EMBEDDABLE_FORMATS: Record<string, PdfImage["format"]> = {
+  "image/png": "PNG",
+  "image/jpeg": "JPEG",
+  "image/jpg": "JPEG"
+};
+
+const mimeTypeOf = (url: string): string => url.match(/^data:([^;,]+)/)?.[1].toLowerCase() || "";
+
+const loadImage = (url: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Could not read image"));
+  img.src = url;
+});
+
+const toPdfImage = async (url: string): Promise<PdfImage> => {
+  const img = await loadImage(url);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const format = EMBEDDABLE_FORMATS[mimeTypeOf(url)];
+  if (format) return { data: url, format, width, height };
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available");
+  ctx.drawImage(img, 0, 0, width, height);
+  return { data: canvas.toDataURL("image/png"), format: "PNG", width, height };
+};
+
+/**
+ * Prepares every distinct picture for the PDF, keyed by its original URL. Pictures that can't
+ * be read are left out, and are drawn as an empty frame.
+ */
+export const loadPdfImages = async (urls: (string | undefined)[]): Promise<Map<string, PdfImage>> => {
+  const images = new Map<string, PdfImage>();
+  for (const url of new Set(urls)) {
+    if (!url) continue;
+    try {
+      images.set(url, await toPdfImage(url));
+    } catch (e) {
+      console.warn("Skipping a picture the PDF can't use", e);
+    }
+  }
+  return images;
+};
@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { StoryboardData, StoryPage } from '../types';
+import { getRecordingsFromDB, saveRecordingToDB, deleteRecordingFromDB } from '../services/storageService';
+import {
+  NarrationSettings,
+  Playback,
+  isSpeechSupported,
+  voicesForLanguage,
+  tokenizeWords,
+  wordIndexAt,
+  speakText,
+  playRecording
+} from './speech';
+
+/**
+ * The page being read and the word being spoken (-1 while a recording plays or before the first word).
+ */
+export interface ReadingPosition {
+  pageId: number;
+  wordIndex: number;
+}
+
+/**
+ * A story's parent recordings as playable object URLs, keyed by page id.
+ */
+export const usePageRecordings = (storyUid: string) => {
+  const [urls, setUrls] = useState<Record<number, string>>({});
+  const urlsRef = useRef<Record<number, string>>({}); // Latest URLs, so unmounting revokes every one of them
+
+  const replaceUrl = (pageId: number, blob: Blob | null) => {
+    const { [pageId]: previous, ...rest } = urlsRef.current;
+    if (previous) URL.revokeObjectURL(previous);
+    urlsRef.current = blob ? { ...rest, [pageId]: URL.createObjectURL(blob) } : rest;
+    setUrls(urlsRef.current);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    getRecordingsFromDB(storyUid).then(recordings => {
+      if (!cancelled) recordings.forEach((blob, pageId) => replaceUrl(pageId, blob));
+    });
+    return () => {
+      cancelled = true;
+      Object.values<string>(urlsRef.current).forEach(url => URL.revokeObjectURL(url));
+      urlsRef.current = {};
+      setUrls({});
+    };
+  }, [storyUid]);
+
+  const save = async (pageId: number, blob: Blob) => {
+    await saveRecordingToDB(storyUid, pageId, blob);
+    replaceUrl(pageId, blob);
+  };
+
+  const remove = async (pageId: number) => {
+    await deleteRecordingFromDB(storyUid, pageId);
+    replaceUrl(pageId, null);
+  };
+
+  return { urls, save, remove };
+};
+
+/**
+ * Reads pages aloud one after another, with the parent's recording where there is one
+ * (if enabled) and the chosen synthetic voice otherwise.
+ */
+export const useReadAloud = (
+  story: StoryboardData,
+  recordings: Record<number, string>,
+  settings: NarrationSettings,
+  voices: SpeechSynthesisVoice[]
+) => {
+  const [position, setPosition] = useState<ReadingPosition | null>(null);
+  const playbackRef = useRef<Playback | null>(null);
+  const runRef = useRef(0); // Bumped on every start and stop, so a superseded run ends quietly
+  const language = story.settings?.language;
+
+  const stop = useCallback(() => {
+    runRef.current++;
+    playbackRef.current?.cancel();
+    playbackRef.current = null;
+    setPosition(null);
+  }, []);
+
+  // Stop talking when the book is closed or another story is opened
+  useEffect(() => stop, [story.uid, stop]);
+
+  const voice = voices.find(v => v.voiceURI === settings.voiceURI) || voicesForLanguage(voices, language)[0];
+
+  const readPages = async (pages: StoryPage[]) => {
+    stop();
+    const run = runRef.current;
+
+    for (const page of pages) {
+      if (runRef.current !== run) return;
+      const recording = settings.useRecordings ? recordings[page.id] : undefined;
+      if (!recording && !isSpeechSupported()) break;
+
+      setPosition({ pageId: page.id, wordIndex: -1 });
+      document.getElementById(`page-${page.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+      const tokens = tokenizeWords(page.text, language);
+      const playback = recording
+        ? playRecording(recording)
+        : speakText(page.text, { voice, rate: settings.rate, pitch: settings.pitch, language }, charIndex => {
+          if (runRef.current === run) setPosition({ pageId: page.id, wordIndex: wordIndexAt(tokens, charIndex) });
+        });
+      playbackRef.current = playback;
+      await playback.done;
+    }
+
+    if (runRef.current === run) {
+      playbackRef.current = null;
+      setPosition(null);
+    }
+  };
+
+  return {
+    position,
+    readPage: (page: StoryPage) => readPages([page]),
+    readBook: () => readPages(story.pages.filter(p => p.text.trim())),
+    stop
+  };
+};
+
+export type ReadAloud = ReturnType<typeof useReadAloud>;
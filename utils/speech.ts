@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import { LanguageCode } from '../types';
+import { getLanguage } from './i18n';
+
+// Read-aloud on top of the browser's Web Speech API, plus playback of a parent's recordings.
+
+export interface NarrationSettings {
+  voiceURI?: string; // Empty picks the first voice for the story's language
+  rate: number; // 0.5 (slow) to 1.5
+  pitch: number; // 0.5 to 1.5
+  useRecordings: boolean; // Play the parent's recording when a page has one
+}
+
+export const DEFAULT_NARRATION: NarrationSettings = { rate: 0.9, pitch: 1, useRecordings: true };
+
+const STORAGE_KEY = 'spectratales.narration';
+
+export const loadNarrationSettings = (): NarrationSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_NARRATION, ...JSON.parse(saved) } : DEFAULT_NARRATION;
+  } catch (e) {
+    return DEFAULT_NARRATION;
+  }
+};
+
+export const saveNarrationSettings = (settings: NarrationSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Failed to save narration settings", e);
+  }
+};
+
+export const isSpeechSupported = (): boolean => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/**
+ * The installed voices. Browsers load them asynchronously, so this updates once they arrive.
+ */
+export const useVoices = (): SpeechSynthesisVoice[] => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => (isSpeechSupported() ? speechSynthesis.getVoices() : []));
+  useEffect(() => {
+    if (!isSpeechSupported()) return;
+    const update = () => setVoices(speechSynthesis.getVoices());
+    update();
+    speechSynthesis.addEventListener('voiceschanged', update);
+    return () => speechSynthesis.removeEventListener('voiceschanged', update);
+  }, []);
+  return voices;
+};
+
+/**
+ * Voices that can read the given language, best matches first.
+ */
+export const voicesForLanguage = (voices: SpeechSynthesisVoice[], language?: LanguageCode): SpeechSynthesisVoice[] => {
+  const locale = getLanguage(language).locale.toLowerCase();
+  const prefix = locale.split('-')[0];
+  return voices
+    .filter(v => v.lang.toLowerCase().replace('_', '-').startsWith(prefix))
+    .sort((a, b) => Number(b.lang.toLowerCase() === locale) - Number(a.lang.toLowerCase() === locale));
+};
+
+export interface WordToken {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Words with their character offsets, for highlighting the word being spoken.
+ */
+export const tokenizeWords = (text: string, language?: LanguageCode): WordToken[] => {
+  if (typeof Intl.Segmenter === 'function') {
+    return [...new Intl.Segmenter(getLanguage(language).locale, { granularity: 'word' }).segment(text)]
+      .filter(s => s.isWordLike)
+      .map(s => ({ text: s.segment, start: s.index, end: s.index + s.segment.length }));
+  }
+  return [...text.matchAll(/\S+/g)].map(m => ({ text: m[0], start: m.index!, end: m.index! + m[0].length }));
+};
+
+/**
+ * Index of the word at `charIndex`, or -1 before the first word.
+ */
+export const wordIndexAt = (tokens: WordToken[], charIndex: number): number => {
+  let index = -1;
+  tokens.forEach((token, i) => {
+    if (token.start <= charIndex) index = i;
+  });
+  return index;
+};
+
+/**
+ * Something being played. `done` settles when it finishes or is cancelled; it never rejects.
+ */
+export interface Playback {
+  done: Promise<void>;
+  cancel: () => void;
+}
+
+/**
+ * Speaks text, reporting the character offset of each word as it starts.
+ */
+export const speakText = (
+  text: string,
+  options: { voice?: SpeechSynthesisVoice; rate: number; pitch: number; language?: LanguageCode },
+  onWord?: (charIndex: number) => void
+): Playback => {
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = options.voice?.lang || getLanguage(options.language).locale;
+  if (options.voice) utterance.voice = options.voice;
+  utterance.rate = options.rate;
+  utterance.pitch = options.pitch;
+  utterance.onboundary = (event) => {
+    if (event.name === 'word' || event.name === undefined) onWord?.(event.charIndex);
+  };
+
+  const done = new Promise<void>(resolve => {
+    utterance.onend = () => resolve();
+    utterance.onerror = (event) => {
+      if (event.error !== 'interrupted' && event.error !== 'canceled') console.warn("Speech failed", event.error);
+      resolve();
+    };
+  });
+
+  // A previous utterance still queued would otherwise be read first
+  speechSynthesis.cancel();
+  speechSynthesis.speak(utterance);
+  return { done, cancel: () => speechSynthesis.cancel() };
+};
+
+/**
+ * Plays a recording from an object URL.
+ */
+export const playRecording = (url: string): Playback => {
+  const audio = new Audio(url);
+  let finish = () => {};
+  const done = new Promise<void>(resolve => { finish = resolve; });
+  audio.onended = () => finish();
+  audio.onerror = () => {
+    console.warn("Recording could not be played");
+    finish();
+  };
+  audio.play().catch(error => {
+    console.warn("Recording could not be played", error);
+    finish();
+  });
+  return {
+    done,
+    cancel: () => {
+      audio.pause();
+      finish();
+    }
+  };
+};
@@ -0,0 +1,222 @@
+import { describe, expect, it, vi } from "vitest";
+import { StoryboardData, StoryPage, DEFAULT_TEXT_OPTIONS, VisualComplexity } from "../types";
+import type { TextRewriter } from "../services/aiProvider";
+import { translate, Translate } from "./i18n";
+import {
+  analyzePage, analyzeStory, classifySentence, conformToTextOptions, countWords, describeIssue, describeIssues,
+  describePageCountIssue, fitPageCount, trimToWordLimit
+} from "./storyGuidelines";
+
+const page = (id: number, text: string, extra: Partial<StoryPage> = {}): StoryPage => ({
+  id,
+  text,
+  action_description: `Scene ${id}`,
+  is_generating: false,
+  ...extra
+});
+
+const storyWith = (pages: StoryPage[], text = DEFAULT_TEXT_OPTIONS, language?: 'en' | 'zh'): StoryboardData => ({
+  uid: 'story-1',
+  createdAt: 0,
+  title: 'Going to the Dentist',
+  purpose: 'Visiting the dentist',
+  character_blueprint: { age: 6, hair: 'short brown', skin_tone: 'light', clothing: 'blue shirt', expression_style: 'cheerful' },
+  characters: [{
+    id: 'sam',
+    name: 'Sam',
+    role: 'main child',
+    is_main: true,
+    blueprint: { age: 6, hair: 'short brown', skin_tone: 'light', clothing: 'blue shirt', expression_style: 'cheerful' }
+  }],
+  visual_style_guide: 'Soft colors',
+  pages,
+  settings: { complexity: VisualComplexity.BALANCED, style_prompt: '', text, language }
+});
+
+const kinds = (p: StoryPage, context?: Parameters<typeof analyzePage>[1]) => analyzePage(p, context).issues.map(i => i.kind);
+
+describe('classifySentence', () => {
+  it('tells the four sentence types apart', () => {
+    expect(classifySentence('The dentist has a big chair.')).toBe('descriptive');
+    expect(classifySentence('Sam feels a little nervous.')).toBe('perspective');
+    expect(classifySentence('I can take a deep breath.')).toBe('directive');
+    expect(classifySentence('Sit still in the chair.')).toBe('directive');
+  });
+});
+
+describe('analyzePage', () => {
+  it('flags negative, absolute and second-person wording', () => {
+    expect(kinds(page(1, "I don't cry."))).toContain('negative');
+    expect(kinds(page(1, 'The dentist is always kind.'))).toContain('absolute');
+    expect(kinds(page(1, 'You should sit still.'))).toContain('second_person');
+    expect(kinds(page(1, 'The chair goes up and down.'))).toEqual([]);
+  });
+
+  it('flags text above the reading level', () => {
+    const hard = page(1, 'The orthodontist meticulously demonstrates comprehensive interdisciplinary procedures.');
+    expect(kinds(hard, { maxGrade: 3 })).toContain('reading_level');
+  });
+
+  it('checks the word limit and narrator from the text options', () => {
+    const text = { ...DEFAULT_TEXT_OPTIONS, max_words_per_page: 4 };
+    expect(kinds(page(1, 'The chair goes up and down.'), { maxGrade: 10, text })).toContain('too_long');
+    expect(kinds(page(1, 'Sam sits in the chair.'), { maxGrade: 10, text: { ...text, narration: 'first_person' }, mainName: 'Sam' }))
+      .toContain('narration');
+    expect(kinds(page(1, 'I sit in the chair.'), { maxGrade: 10, text: { ...text, narration: 'third_person' }, mainName: 'Sam' }))
+      .toContain('narration');
+  });
+
+  it('only checks word counts for languages the wording checks do not understand', () => {
+    const text = { ...DEFAULT_TEXT_OPTIONS, max_words_per_page: 3 };
+    const issues = kinds(page(1, '我不怕。我坐在椅子上，医生看我的牙齿。'), { maxGrade: 3, text, language: 'zh' });
+    expect(issues).toEqual(['too_long']);
+  });
+});
+
+describe('analyzeStory', () => {
+  it('reports the describing-to-directive ratio and page count problems', () => {
+    const analysis = analyzeStory(storyWith(
+      [page(1, 'The room is bright. The chair is soft. I can sit down.')],
+      { ...DEFAULT_TEXT_OPTIONS, min_pages: 2 }
+    ));
+    expect(analysis.counts.descriptive).toBe(2);
+    expect(analysis.counts.directive).toBe(1);
+    expect(analysis.ratio).toBe(2);
+    expect(analysis.meetsRatio).toBe(true);
+    expect(analysis.pageCountIssue).toEqual({ kind: 'too_few', count: 1, limit: 2 });
+  });
+});
+
+describe('describing issues', () => {
+  const chinese: Translate = (key, vars) => translate('zh', key, vars);
+  const english: Translate = (key, vars) => translate('en', key, vars);
+  const text = { ...DEFAULT_TEXT_OPTIONS, narration: 'third_person' as const };
+
+  it('explains an issue in the interface language', () => {
+    const [issue] = analyzePage(page(1, 'The dentist is always kind.')).issues;
+
+    expect(describeIssue(issue, english)).toBe('"always": prefer "usually" or "sometimes"');
+    expect(describeIssue(issue, chinese)).toBe('“always”：建议改用“通常”或“有时”');
+    expect(describePageCountIssue({ kind: 'too_many', count: 9, limit: 8 }, chinese)).toBe('共 9 页；这本书最多应有 8 页。');
+  });
+
+  it('falls back to "the child" when the main character has no name', () => {
+    const [issue] = analyzePage(page(1, 'I sit down.'), { maxGrade: 10, text }).issues;
+
+    expect(describeIssue(issue, english)).toBe('Tell it about the child, not as "I"');
+  });
+
+  it('writes rewrite instructions in English', () => {
+    const issues = analyzePage(page(1, 'I sit down.'), { maxGrade: 10, text, mainName: 'Sam' }).issues;
+
+    expect(describeIssues(issues)).toEqual(['Wrong narrator in "I sit down.": Tell it about Sam, not as "I"']);
+  });
+});
+
+describe('trimToWordLimit', () => {
+  it('leaves text within the limit alone', () => {
+    expect(trimToWordLimit('I sit down.', 5)).toBe('I sit down.');
+  });
+
+  it('cuts at the last sentence that fits', () => {
+    expect(trimToWordLimit('I sit down. The dentist looks at my teeth.', 4)).toBe('I sit down.');
+  });
+
+  it('cuts mid-sentence when not even one sentence fits', () => {
+    expect(trimToWordLimit('The dentist, who is kind, looks at my teeth.', 3)).toBe('The dentist, who.');
+  });
+
+  it('counts and trims CJK text by word', () => {
+    const trimmed = trimToWordLimit('我坐在椅子上。医生看我的牙齿。', 4, 'zh');
+    expect(trimmed).toBe('我坐在椅子上。');
+    expect(countWords(trimmed, 'zh')).toBeLessThanOrEqual(4);
+  });
+});
+
+describe('fitPageCount', () => {
+  it('merges the shortest neighbouring pages and renumbers', () => {
+    const pages = [
+      page(1, 'We drive to the dentist in the car.'),
+      page(2, 'I wait.'),
+      page(3, 'I sit.', { character_ids: ['sam', 'dentist'] }),
+      page(4, 'The dentist counts my teeth one by one.')
+    ];
+    const fitted = fitPageCount(pages, 3);
+
+    expect(fitted.map(p => p.id)).toEqual([1, 2, 3]);
+    expect(fitted[1].text).toBe('I wait. I sit.');
+    expect(fitted[1].action_description).toBe('Scene 2 Then: Scene 3');
+    expect(fitted[1].character_ids).toEqual(['sam', 'dentist']);
+  });
+
+  it('never goes below one page', () => {
+    expect(fitPageCount([page(1, 'One.'), page(2, 'Two.')], 0)).toHaveLength(1);
+  });
+});
+
+describe('conformToTextOptions', () => {
+  const rewriter = (rewrite: (text: string) => string): TextRewriter => ({
+    rewritePageText: vi.fn(async (text: string) => rewrite(text)),
+    translatePageText: vi.fn(async (text: string) => `[zh] ${text}`)
+  });
+
+  it('rewrites only the pages that break the text options', async () => {
+    const story = storyWith(
+      [page(1, 'I sit in the chair.'), page(2, 'Sam opens his mouth wide.')],
+      { ...DEFAULT_TEXT_OPTIONS, narration: 'first_person' }
+    );
+    const fixer = rewriter(() => 'I open my mouth wide.');
+    const conformed = await conformToTextOptions(story, fixer);
+
+    expect(fixer.rewritePageText).toHaveBeenCalledTimes(1);
+    expect(conformed.pages.map(p => p.text)).toEqual(['I sit in the chair.', 'I open my mouth wide.']);
+  });
+
+  it('trims pages the rewriter leaves too long', async () => {
+    const story = storyWith(
+      [page(1, 'The dentist looks at every one of my teeth with a tiny mirror.')],
+      { ...DEFAULT_TEXT_OPTIONS, max_words_per_page: 5 }
+    );
+    const conformed = await conformToTextOptions(story, rewriter(text => text));
+
+    expect(countWords(conformed.pages[0].text)).toBeLessThanOrEqual(5);
+  });
+
+  it('translates rewritten pages of a bilingual book again', async () => {
+    const story = storyWith([page(1, 'Sam sits down.', { text_secondary: '山姆坐下。' })]);
+    story.settings = { ...story.settings!, secondary_language: 'zh' };
+    const conformed = await conformToTextOptions(story, rewriter(() => 'I sit down.'));
+
+    expect(conformed.pages[0].text_secondary).toBe('[zh] I sit down.');
+  });
+
+  it('sends at most `concurrency` pages to the rewriter at once', async () => {
+    let running = 0;
+    let peak = 0;
+    const slow: TextRewriter = {
+      rewritePageText: async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise(resolve => setTimeout(resolve, 0));
+        running--;
+        return 'I sit.';
+      },
+      translatePageText: async text => text
+    };
+    const story = storyWith([1, 2, 3, 4, 5].map(id => page(id, 'Sam sits.')));
+    await conformToTextOptions(story, slow, { concurrency: 2 });
+
+    expect(peak).toBe(2);
+  });
+
+  it('stops with an abort error when cancelled', async () => {
+    const controller = new AbortController();
+    const story = storyWith([page(1, 'Sam sits.'), page(2, 'Sam waits.')]);
+    const fixer = rewriter(text => {
+      controller.abort();
+      return text;
+    });
+
+    await expect(conformToTextOptions(story, fixer, { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,351 @@
+import { StoryboardData, StoryPage, TextOptions, ReadingLevel, READING_LEVELS, LanguageCode, DEFAULT_LANGUAGE } from "../types";
+import type { TextRewriter, GenerationOptions } from "../services/aiProvider";
+import { getMainCharacter } from "./cast";
+import { getLanguage, translate, Translate } from "./i18n";
+import { runQueue, throwIfAborted } from "./generationQueue";
+
+// Heuristic checks based on Carol Gray's Social Stories criteria. They point an
+// editor at sentences worth a second look; they don't replace a clinician's judgement.
+// The wording checks are English patterns; other languages only get the length checks.
+
+export type SentenceType = 'descriptive' | 'perspective' | 'directive' | 'affirmative';
+
+export type GuidelineIssueKind = 'negative' | 'absolute' | 'second_person' | 'reading_level' | 'too_long' | 'narration';
+
+// Which explanation goes with an issue; narration problems read differently per narrator
+export type GuidelineHint = Exclude<GuidelineIssueKind, 'narration'> | 'first_person' | 'third_person';
+
+export interface GuidelineIssue {
+  kind: GuidelineIssueKind;
+  sentence: string;
+  hint: GuidelineHint;
+  vars: Record<string, string | number>; // Filled into the hint's message
+}
+
+export interface PageCountIssue {
+  kind: 'too_many' | 'too_few';
+  count: number;
+  limit: number;
+}
+
+export interface SentenceAnalysis {
+  text: string;
+  type: SentenceType;
+}
+
+export interface PageAnalysis {
+  pageId: number;
+  sentences: SentenceAnalysis[];
+  issues: GuidelineIssue[];
+  gradeLevel: number;
+}
+
+/**
+ * What the text is checked against: the story's reading level and text options, when it has them.
+ */
+export interface GuidelineContext {
+  maxGrade: number;
+  text?: TextOptions;
+  mainName?: string;
+  language?: LanguageCode;
+}
+
+export interface StoryAnalysis {
+  pages: PageAnalysis[];
+  pageCountIssue?: PageCountIssue;
+  wordingChecked: boolean; // False for languages the wording checks don't understand
+  counts: Record<SentenceType, number>;
+  ratio: number | null; // (descriptive + perspective + affirmative) per directive; null without directives
+  meetsRatio: boolean;
+  gradeLevel: number;
+}
+
+// Carol Gray: at least two describing sentences for every sentence that directs
+export const MIN_DESCRIPTIVE_RATIO = 2;
+export const DEFAULT_MAX_GRADE = 3;
+
+// Problems the text options define; the post-generation check only fixes these
+const TEXT_OPTION_ISSUES: GuidelineIssueKind[] = ['reading_level', 'too_long', 'narration'];
+
+const PERSPECTIVE_PATTERN = /\b(feels?|felt|thinks?|thought|knows?|likes?|loves?|wants?|hopes?|wonders?|happy|sad|angry|mad|worried|scared|afraid|excited|proud|upset|calm|nervous|frustrated)\b/i;
+const DIRECTIVE_PATTERN = /\b(I|we) (can|will|could|may|might) (try|ask|say|take|use|wait|stop|stand|sit|go|walk|put|tell)\b|\b(should|must|need to|have to|try to)\b/i;
+const AFFIRMATIVE_PATTERN = /\b(it is|that is|this is|it's|that's|this's) (okay|ok|fine|good|important|safe|brave|normal)\b|\bis (a good|the best|brave|safe|important|okay)\b|\bgood job\b/i;
+const NEGATIVE_PATTERN = /\b(not|don't|do not|can't|cannot|won't|no|never|stop|shouldn't|mustn't|bad|naughty)\b/i;
+const ABSOLUTE_PATTERN = /\b(always|never|every ?time|everyone|everybody|nobody|no one|all the time|must)\b/i;
+const SECOND_PERSON_PATTERN = /\b(you|your|you're|yourself)\b/i;
+// Sentences that start with a bare verb read as orders ("Sit down.", "Be quiet.")
+const IMPERATIVE_START = /^(don't|do|be|sit|stand|stop|go|put|say|take|wait|listen|look|give|come|eat|keep|use|share|let)\b/i;
+
+/**
+ * Looks up a reading level, falling back to early readers.
+ */
+export const getReadingLevel = (id?: string): ReadingLevel => {
+  return READING_LEVELS.find(level => level.id === id) || READING_LEVELS[1];
+};
+
+export const getGuidelineContext = (story: StoryboardData): GuidelineContext => {
+  const text = story.settings?.text;
+  return {
+    maxGrade: text ? getReadingLevel(text.reading_level).maxGrade : DEFAULT_MAX_GRADE,
+    text,
+    mainName: getMainCharacter(story).name,
+    language: story.settings?.language
+  };
+};
+
+const isEnglish = (language?: LanguageCode) => (language || DEFAULT_LANGUAGE) === 'en';
+
+/**
+ * Words in the text. CJK text has no spaces, so it is split with Intl.Segmenter instead.
+ */
+const wordsOf = (text: string, language?: LanguageCode): string[] => {
+  if (getLanguage(language).cjk) {
+    return [...new Intl.Segmenter(language, { granularity: 'word' }).segment(text)]
+      .filter(s => s.isWordLike)
+      .map(s => s.segment);
+  }
+  return text.split(/\s+/).filter(w => /[\p{L}\p{N}]/u.test(w));
+};
+
+export const countWords = (text: string, language?: LanguageCode): number => wordsOf(text, language).length;
+
+// CJK sentences and words are written without spaces between them
+const joinerFor = (language?: LanguageCode) => (getLanguage(language).cjk ? '' : ' ');
+
+/**
+ * Splits page text into sentences, keeping the closing punctuation.
+ */
+export const splitSentences = (text: string): string[] => {
+  return (text.match(/[^.!?。！？]+[.!?。！？]*["')\]”」]*/g) || [])
+    .map(s => s.trim())
+    .filter(Boolean);
+};
+
+export const classifySentence = (sentence: string): SentenceType => {
+  if (AFFIRMATIVE_PATTERN.test(sentence)) return 'affirmative';
+  if (DIRECTIVE_PATTERN.test(sentence) || IMPERATIVE_START.test(sentence)) return 'directive';
+  if (PERSPECTIVE_PATTERN.test(sentence)) return 'perspective';
+  return 'descriptive';
+};
+
+const countSyllables = (word: string): number => {
+  const cleaned = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (cleaned.length <= 3) return cleaned ? 1 : 0;
+  const groups = cleaned.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length || 0);
+};
+
+/**
+ * Flesch-Kincaid grade level (0 = very easy). Rough for very short texts, which is most pages.
+ */
+export const estimateGradeLevel = (text: string): number => {
+  const sentences = splitSentences(text);
+  const words = text.split(/\s+/).filter(w => /[a-z]/i.test(w));
+  if (sentences.length === 0 || words.length === 0) return 0;
+  const syllables = words.reduce((sum, w) => sum + countSyllables(w), 0);
+  const grade = 0.39 * (words.length / sentences.length) + 11.8 * (syllables / words.length) - 15.59;
+  return Math.max(0, Math.round(grade * 10) / 10);
+};
+
+export const analyzePage = (page: StoryPage, context: GuidelineContext = { maxGrade: DEFAULT_MAX_GRADE }): PageAnalysis => {
+  const { maxGrade, text: textOptions, mainName, language } = context;
+  const english = isEnglish(language);
+  const sentences = splitSentences(page.text).map(text => ({ text, type: classifySentence(text) }));
+  const issues: GuidelineIssue[] = [];
+
+  if (english) sentences.forEach(({ text }) => {
+    const negative = text.match(NEGATIVE_PATTERN);
+    if (negative) {
+      issues.push({ kind: 'negative', sentence: text, hint: 'negative', vars: { word: negative[0] } });
+    }
+    const absolute = text.match(ABSOLUTE_PATTERN);
+    if (absolute) {
+      issues.push({ kind: 'absolute', sentence: text, hint: 'absolute', vars: { word: absolute[0] } });
+    }
+    if (SECOND_PERSON_PATTERN.test(text) || IMPERATIVE_START.test(text)) {
+      issues.push({ kind: 'second_person', sentence: text, hint: 'second_person', vars: {} });
+    }
+  });
+
+  const gradeLevel = english ? estimateGradeLevel(page.text) : 0;
+  if (gradeLevel > maxGrade) {
+    issues.push({ kind: 'reading_level', sentence: page.text, hint: 'reading_level', vars: { grade: gradeLevel, maxGrade } });
+  }
+
+  if (textOptions) {
+    const words = countWords(page.text, language);
+    if (words > textOptions.max_words_per_page) {
+      issues.push({ kind: 'too_long', sentence: page.text, hint: 'too_long', vars: { count: words, limit: textOptions.max_words_per_page } });
+    }
+    const name = mainName?.trim();
+    const namePattern = name ? new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i') : null;
+    if (english && textOptions.narration === 'first_person' && namePattern?.test(page.text)) {
+      issues.push({ kind: 'narration', sentence: page.text, hint: 'first_person', vars: { name: name! } });
+    }
+    if (english && textOptions.narration === 'third_person' && /\b(I|I'm|me|my|myself)\b/.test(page.text)) {
+      issues.push({ kind: 'narration', sentence: page.text, hint: 'third_person', vars: name ? { name } : {} });
+    }
+  }
+
+  return { pageId: page.id, sentences, issues, gradeLevel };
+};
+
+/**
+ * Checks every page and the whole story's sentence balance.
+ */
+export const analyzeStory = (story: StoryboardData): StoryAnalysis => {
+  const context = getGuidelineContext(story);
+  const pages = story.pages.map(p => analyzePage(p, context));
+  const counts: Record<SentenceType, number> = { descriptive: 0, perspective: 0, directive: 0, affirmative: 0 };
+  pages.forEach(p => p.sentences.forEach(s => counts[s.type]++));
+
+  const describing = counts.descriptive + counts.perspective + counts.affirmative;
+  const ratio = counts.directive > 0 ? Math.round((describing / counts.directive) * 10) / 10 : null;
+
+  const text = context.text;
+  let pageCountIssue: PageCountIssue | undefined;
+  if (text && story.pages.length > text.max_pages) {
+    pageCountIssue = { kind: 'too_many', count: story.pages.length, limit: text.max_pages };
+  } else if (text && story.pages.length < text.min_pages) {
+    pageCountIssue = { kind: 'too_few', count: story.pages.length, limit: text.min_pages };
+  }
+
+  return {
+    pages,
+    pageCountIssue,
+    wordingChecked: isEnglish(context.language),
+    counts,
+    ratio,
+    meetsRatio: ratio === null || ratio >= MIN_DESCRIPTIVE_RATIO,
+    gradeLevel: estimateGradeLevel(story.pages.map(p => p.text).join(' '))
+  };
+};
+
+/**
+ * How to fix an issue, in the language `t` is bound to.
+ */
+export const describeIssue = (issue: GuidelineIssue, t: Translate): string => {
+  return t(`issue.${issue.hint}Hint`, { name: t('issue.theChild'), ...issue.vars });
+};
+
+export const describePageCountIssue = (issue: PageCountIssue, t: Translate): string => {
+  return t(issue.kind === 'too_many' ? 'issue.tooManyPages' : 'issue.tooFewPages', { count: issue.count, limit: issue.limit });
+};
+
+// Rewrite instructions go to the model in English, whatever the interface language
+const english: Translate = (key, vars) => translate('en', key, vars);
+
+/**
+ * Plain-language list of a page's problems, used as rewrite instructions.
+ */
+export const describeIssues = (issues: GuidelineIssue[]): string[] => {
+  return issues.map(issue => issue.kind === 'reading_level'
+    ? `${english(`issue.${issue.kind}`)}: ${describeIssue(issue, english)}`
+    : `${english(`issue.${issue.kind}`)} in "${issue.sentence}": ${describeIssue(issue, english)}`);
+};
+
+/**
+ * Cuts text down to `maxWords`, at a sentence end when one fits.
+ */
+export const trimToWordLimit = (text: string, maxWords: number, language?: LanguageCode): string => {
+  if (countWords(text, language) <= maxWords) return text;
+  const joiner = joinerFor(language);
+  let kept = '';
+  for (const sentence of splitSentences(text)) {
+    const next = kept ? `${kept}${joiner}${sentence}` : sentence;
+    if (countWords(next, language) > maxWords) break;
+    kept = next;
+  }
+  if (kept) return kept;
+  const cut = wordsOf(text, language).slice(0, maxWords).join(joiner).replace(/[,;:，；：]$/, '');
+  return `${cut}${getLanguage(language).cjk ? '。' : '.'}`;
+};
+
+/**
+ * Merges neighbouring pages (the pair with the fewest words first) until the book fits `maxPages`.
+ */
+export const fitPageCount = (pages: StoryPage[], maxPages: number, language?: LanguageCode): StoryPage[] => {
+  const result = [...pages];
+  const joiner = joinerFor(language);
+  const pairWords = (i: number) => countWords(result[i].text, language) + countWords(result[i + 1].text, language);
+  while (result.length > Math.max(1, maxPages)) {
+    let best = 0;
+    for (let i = 1; i < result.length - 1; i++) {
+      if (pairWords(i) < pairWords(best)) best = i;
+    }
+    const [first, second] = [result[best], result[best + 1]];
+    result.splice(best, 2, {
+      ...first,
+      text: `${first.text}${joiner}${second.text}`,
+      text_secondary: first.text_secondary || second.text_secondary
+        ? [first.text_secondary, second.text_secondary].filter(Boolean).join(' ')
+        : undefined,
+      action_description: `${first.action_description} Then: ${second.action_description}`,
+      character_ids: first.character_ids || second.character_ids
+        ? [...new Set([...(first.character_ids || []), ...(second.character_ids || [])])]
+        : undefined
+    });
+  }
+  return result.map((page, index) => ({ ...page, id: index + 1 }));
+};
+
+/**
+ * Keeps a page's second-language text in step after its main text changed.
+ * Returns the old translation if translating fails, rather than none at all.
+ */
+export const retranslate = async (
+  page: StoryPage,
+  text: string,
+  language: LanguageCode | undefined,
+  rewriter: TextRewriter,
+  options: GenerationOptions = {}
+): Promise<string | undefined> => {
+  if (!language || page.text_secondary === undefined || text === page.text) return page.text_secondary;
+  try {
+    return await rewriter.translatePageText(text, language, options);
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    console.warn(`Could not translate page ${page.id}`, error);
+    return page.text_secondary;
+  }
+};
+
+/**
+ * Post-check for a freshly generated storyboard: merges surplus pages, asks the rewriter to
+ * fix pages that break the text options, and trims any that are still too long.
+ * Rewritten pages of a bilingual book are translated again. At most `concurrency` pages
+ * are sent to the rewriter at once.
+ */
+export const conformToTextOptions = async (
+  story: StoryboardData,
+  rewriter: TextRewriter,
+  { concurrency = 1, ...options }: GenerationOptions & { concurrency?: number } = {}
+): Promise<StoryboardData> => {
+  const text = story.settings?.text;
+  if (!text) return story;
+
+  const { language, secondary_language } = story.settings || {};
+  const fitted = { ...story, pages: fitPageCount(story.pages, text.max_pages, language) };
+  const context = getGuidelineContext(fitted);
+  const pages = [...fitted.pages];
+
+  const flagged = pages
+    .map((page, index) => ({ index, issues: analyzePage(page, context).issues.filter(i => TEXT_OPTION_ISSUES.includes(i.kind)) }))
+    .filter(({ issues }) => issues.length > 0);
+
+  await runQueue(flagged, async ({ index, issues }) => {
+    const page = pages[index];
+    let rewritten = page.text;
+    try {
+      rewritten = await rewriter.rewritePageText(page.text, describeIssues(issues), options);
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.warn(`Could not rewrite page ${page.id}; trimming instead`, error);
+    }
+    const fixed = trimToWordLimit(rewritten, text.max_words_per_page, language);
+    pages[index] = { ...page, text: fixed, text_secondary: await retranslate(page, fixed, secondary_language, rewriter, options) };
+  }, { concurrency, signal: options.signal });
+  throwIfAborted(options.signal);
+
+  return { ...fitted, pages };
+};
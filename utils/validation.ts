@@ -0,0 +1,5 @@
+/**
+ * True for a plain JSON object (not null or an array), so its fields can be checked one by one.
+ */
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
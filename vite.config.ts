@@ -11,8 +11,11 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY ?? ''),
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY ?? ''),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER ?? ''),
+        'process.env.IMAGE_CONCURRENCY': JSON.stringify(env.IMAGE_CONCURRENCY ?? ''),
+        'process.env.CJK_FONT_URL': JSON.stringify(env.CJK_FONT_URL ?? '')
       },
       resolve: {
         alias: {